@@ -1,13 +1,34 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { generateLessonPlan, fileToBase64, getApiKey, setApiKey, hasApiKey, AVAILABLE_MODELS, getSelectedModel, setSelectedModel } from './services/geminiService';
-import { LessonPlan } from './types';
+import { generateLessonPlan, isAIReady } from './services/geminiService';
+import { LessonPlan, GenerationProgress, TestBlueprint, UploadedImage, LessonMediaSource, QuestionAttempt } from './types';
 import { VocabularySection } from './components/VocabularySection';
 import { MegaChallenge } from './components/MegaChallenge';
 import { UploadZone } from './components/UploadZone';
+import { ImagePrepList } from './components/ImagePrepList';
 import { LessonCertificate } from './components/LessonCertificate';
 import { LearningHistory } from './components/LearningHistory';
-import { saveLessonRecord, generateRecordId } from './services/historyService';
+import { SettingsModal } from './components/SettingsModal';
+import { SectionRegenerator } from './components/SectionRegenerator';
+import { GenerationProgressPanel } from './components/GenerationProgressPanel';
+import { getRecordMode } from './services/aiRecorder';
+import { AIServiceError, AI_ERROR_TITLES, toAIServiceError } from './services/aiErrors';
+import { LEVEL_OPTIONS, findLevelOption, formatLessonLevel } from './utils/lessonLevels';
+import { getSavedBlueprint, saveBlueprint, isBlueprintEmpty } from './utils/testBlueprint';
+import { TestBlueprintPanel } from './components/TestBlueprintPanel';
+import { saveLessonRecord, updateLessonRecord, generateRecordId } from './services/historyService';
+import { LessonLibrary } from './components/LessonLibrary';
+import { SavedLesson, generateLibraryId, saveLessonToLibrary } from './services/lessonLibraryService';
+import { countLessonQuestions } from './utils/lessonSections';
+import { downloadLessonFile } from './services/lessonFileService';
+import { DEFAULT_IMAGE_OPTIONS, ImagePreprocessOptions, preprocessImage } from './utils/imagePreprocess';
+import { DEFAULT_PDF_SELECTION, PdfSelection, preparePdfSource } from './utils/pdfPages';
+import { PdfPagePicker } from './components/PdfPagePicker';
+import { SubtitleInput } from './components/SubtitleInput';
+import { MediaCuePlayer } from './components/MediaCuePlayer';
+import { buildOfflineLesson, parseVocabularyList } from './utils/offlineGenerator';
+import { shuffleLessonOptions } from './utils/optionShuffle';
+import { AnswerBalanceReport } from './components/AnswerBalanceReport';
 
 declare global {
   interface AIStudio {
@@ -47,59 +68,133 @@ const MrsDungLogo = ({ className = "w-16 h-16", color = "currentColor" }: LogoPr
 
 function App() {
   // Simplified - only keeping the planner/learning tab
-  const [plannerMode, setPlannerMode] = useState<'topic' | 'text' | 'image'>('topic');
+  const [plannerMode, setPlannerMode] = useState<'topic' | 'text' | 'image' | 'pdf' | 'media' | 'offline'>('topic');
   const [topic, setTopic] = useState('');
   const [lessonText, setLessonText] = useState('');
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [imageOptions, setImageOptions] = useState<ImagePreprocessOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [pdfSelection, setPdfSelection] = useState<PdfSelection>(DEFAULT_PDF_SELECTION);
+  const [subtitleMedia, setSubtitleMedia] = useState<LessonMediaSource | null>(null);
+  const [vocabList, setVocabList] = useState('');
+  const [levelId, setLevelId] = useState(''); // '' = detect the level from the source
+  const [blueprint, setBlueprint] = useState<TestBlueprint>(getSavedBlueprint);
   const [loading, setLoading] = useState(false);
   const [lesson, setLesson] = useState<LessonPlan | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<AIServiceError | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [studentName, setStudentName] = useState('');
   // Removed listeningCorrect since listening section was removed
-  const [megaScores, setMegaScores] = useState({ mc: 0, scramble: 0, fill: 0, vocab: 0, tf: 0, listen: 0 });
+  const [megaScores, setMegaScores] = useState({ mc: 0, scramble: 0, fill: 0, vocab: 0, tf: 0, listen: 0, match: 0, error: 0 });
+  const [mastery, setMastery] = useState<{ mastered: number; rounds: number } | null>(null); // "practice my mistakes"
+  const [attempts, setAttempts] = useState<QuestionAttempt[]>([]); // every try at every question
   const [showCertificate, setShowCertificate] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
-  const savedRef = useRef(false); // Prevent duplicate saves
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryId, setLibraryId] = useState<string | null>(null); // library entry of the open lesson
+  const [practiceKey, setPracticeKey] = useState('lesson'); // a newly opened lesson starts MegaChallenge afresh; detaching it from the library does not
+  const savedRecordIdRef = useRef<string | null>(null); // Prevent duplicate saves; later mastery goes to the same record
+  const abortRef = useRef<AbortController | null>(null);
+  const requestIdRef = useRef(0); // Results of cancelled/superseded runs are ignored
 
   // API Key & Settings Management
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKeyInput, setApiKeyInput] = useState('');
-  const [selectedModelId, setSelectedModelId] = useState(AVAILABLE_MODELS[0].id);
   const [apiKeyValid, setApiKeyValid] = useState(false);
 
-  // Check API key on mount
+  // Check AI configuration on mount
   useEffect(() => {
-    const key = getApiKey();
-    if (key) {
-      setApiKeyInput(key);
+    if (isAIReady()) {
       setApiKeyValid(true);
     } else {
-      setShowSettings(true); // Show modal if no API key
+      setShowSettings(true); // Show modal if no API key / local server
     }
-    setSelectedModelId(getSelectedModel());
   }, []);
 
-  const handleSaveSettings = () => {
-    if (apiKeyInput.trim()) {
-      setApiKey(apiKeyInput.trim());
-      setSelectedModel(selectedModelId);
-      setApiKeyValid(true);
-      setShowSettings(false);
+  const handleSettingsSaved = () => {
+    setApiKeyValid(isAIReady());
+    setShowSettings(false);
+  };
+
+  const handleBlueprintChange = (next: TestBlueprint) => {
+    setBlueprint(next);
+    saveBlueprint(next);
+  };
+
+  // Calculate total correct answers from all scored exercise types (counts follow the lesson's blueprint)
+  const totalCorrectCount = megaScores.mc + megaScores.scramble + megaScores.fill + megaScores.vocab + megaScores.tf + megaScores.listen + megaScores.match + megaScores.error;
+  const totalQuestions = lesson ? countLessonQuestions(lesson) : 0;
+
+  // Keep the library copy in step with the lesson on screen; a failed save must not block teaching
+  const persistLesson = (data: LessonPlan, id: string) => {
+    saveLessonToLibrary(data, id).catch(err => console.warn('Không lưu được bài học vào thư viện:', err));
+  };
+
+  // Every lesson that reaches the screen gets its choice options shuffled (same order on every load)
+  const handleLessonChange = (changed: LessonPlan) => {
+    const next = shuffleLessonOptions(changed);
+    setLesson(next);
+    if (libraryId) persistLesson(next, libraryId);
+  };
+
+  // The open lesson stays on screen but is no longer saved, or the next auto-save would bring the entry back
+  const handleLibraryDeleted = (id: string) => {
+    if (id === libraryId) setLibraryId(null);
+  };
+
+  const handleOpenSavedLesson = (saved: SavedLesson) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    requestIdRef.current++;
+    setLoading(false);
+    setLesson(shuffleLessonOptions(saved.lesson));
+    setLibraryId(saved.id);
+    setPracticeKey(saved.id);
+    setGenerationProgress(null);
+    setMegaScores({ mc: 0, scramble: 0, fill: 0, vocab: 0, tf: 0, listen: 0, match: 0, error: 0 });
+    setMastery(null);
+    setAttempts([]);
+    setShowCertificate(false);
+    setError(null);
+    setAiError(null);
+    savedRecordIdRef.current = null;
+    setShowLibrary(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Offline mode: exercises come from fixed rules over the teacher's word list, no AI call
+  const handleOfflineGenerate = () => {
+    if (!vocabList.trim()) { setError("Hãy nhập danh sách từ vựng, mỗi dòng một từ!"); return; }
+    if (isBlueprintEmpty(blueprint)) { setError("Hãy chọn ít nhất một dạng bài trong cấu trúc đề!"); return; }
+    let data: LessonPlan;
+    try {
+      data = shuffleLessonOptions(buildOfflineLesson(parseVocabularyList(vocabList), topic, blueprint));
+    } catch (err: any) {
+      setError(err.message);
+      return;
     }
+    const id = generateLibraryId();
+    setError(null);
+    setAiError(null);
+    setShowCertificate(false);
+    savedRecordIdRef.current = null;
+    setGenerationProgress(null);
+    setLesson(data);
+    setLibraryId(id);
+    setPracticeKey(id);
+    persistLesson(data, id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  // Calculate total correct answers from all 6 exercise types (50 questions total)
-  const totalCorrectCount = megaScores.mc + megaScores.scramble + megaScores.fill + megaScores.vocab + megaScores.tf + megaScores.listen;
-  const totalQuestions = (lesson?.practice?.megaTest?.multipleChoice?.length || 0) +
-    (lesson?.practice?.megaTest?.scramble?.length || 0) +
-    (lesson?.practice?.megaTest?.fillBlank?.length || 0) +
-    (lesson?.practice?.megaTest?.vocabTranslation?.length || 0) +
-    (lesson?.practice?.megaTest?.trueFalse?.length || 0) +
-    (lesson?.practice?.listening?.length || 0);
-
-  const handleGenerate = async () => {
-    // Check API key first
-    if (!hasApiKey()) {
+  // resume = retry only the failed step, keeping the steps that already finished
+  const handleGenerate = async (resume: boolean = false) => {
+    if (plannerMode === 'offline') {
+      handleOfflineGenerate();
+      return;
+    }
+
+    // Check API key / local server first
+    if (!isAIReady()) {
       setShowSettings(true);
       setError("Vui lòng nhập API Key trước khi sử dụng!");
       return;
@@ -108,44 +203,103 @@ function App() {
     if (plannerMode === 'topic' && !topic.trim()) { setError("Hãy nhập chủ đề bài học con nhé!"); return; }
     if (plannerMode === 'text' && !lessonText.trim()) { setError("Hãy dán nội dung bài học vào đây!"); return; }
     if (plannerMode === 'image' && selectedFiles.length === 0) { setError("Hãy chọn ít nhất một tấm ảnh tài liệu!"); return; }
+    if (plannerMode === 'pdf' && (!pdfFile || pdfSelection.pages.length === 0)) { setError("Hãy chọn file PDF và ít nhất một trang!"); return; }
+    if (plannerMode === 'pdf' && !pdfSelection.sendImages && !pdfSelection.sendText) { setError("Hãy chọn gửi ảnh trang hoặc chữ trong PDF!"); return; }
+    if (plannerMode === 'media' && !subtitleMedia) { setError("Hãy chọn file phụ đề hoặc lời bài hát!"); return; }
+    if (isBlueprintEmpty(blueprint)) { setError("Hãy chọn ít nhất một dạng bài trong cấu trúc đề!"); return; }
 
+    // Photos are usually ready from the preview list (cached); PDF pages are rendered now.
+    // A page that cannot be read stops here, before any AI call. Cancel works from this point on.
     setLoading(true);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestId === requestIdRef.current;
+
+    let images: UploadedImage[] = [];
+    let sourceText = plannerMode === 'text' ? lessonText : undefined;
+    try {
+      if (plannerMode === 'image') {
+        images = await Promise.all(selectedFiles.map(file => preprocessImage(file, imageOptions)));
+      } else if (plannerMode === 'pdf') {
+        const pdfSource = await preparePdfSource(pdfFile, pdfSelection);
+        if (!pdfSource.text && !pdfSource.images.length) throw new Error("Các trang đã chọn không có chữ (PDF scan). Hãy bật \"Gửi ảnh trang\"!");
+        images = pdfSource.images;
+        sourceText = pdfSource.text;
+      }
+    } catch (err: any) {
+      if (!isCurrent()) return;
+      abortRef.current = null;
+      setError(err.message);
+      setLoading(false);
+      return;
+    }
+    if (!isCurrent()) return; // cancelled (or superseded) while the pages were being prepared
+
     setError(null);
+    setAiError(null);
     setLesson(null);
+    setLibraryId(null);
     setShowCertificate(false);
-    savedRef.current = false;
+    savedRecordIdRef.current = null;
 
     try {
-      let base64Images: string[] = [];
-      if (plannerMode === 'image' && selectedFiles.length > 0) {
-        base64Images = await Promise.all(selectedFiles.map(file => fileToBase64(file)));
-      }
-      const data = await generateLessonPlan(
+      const levelOption = findLevelOption(levelId);
+      const generated = await generateLessonPlan(
         plannerMode === 'topic' ? topic : undefined,
-        plannerMode === 'text' ? lessonText : undefined,
-        base64Images
+        sourceText,
+        images,
+        {
+          resumeFrom: resume ? generationProgress : undefined,
+          onProgress: progress => { if (isCurrent()) setGenerationProgress(progress); },
+          signal: controller.signal,
+          level: levelOption?.level,
+          grade: levelOption?.grade,
+          blueprint,
+          media: plannerMode === 'media' ? subtitleMedia : undefined,
+        }
       );
+      if (!isCurrent()) return;
+      const data = shuffleLessonOptions(generated);
+      const id = generateLibraryId();
       setLesson(data);
+      setLibraryId(id);
+      setPracticeKey(id);
+      setGenerationProgress(null);
+      persistLesson(data, id);
       window.scrollTo({ top: 0, behavior: 'smooth' });
     } catch (err: any) {
-      // Hiển thị nguyên văn lỗi từ API như yêu cầu
-      const rawError = err.message || "Lỗi không xác định";
-      if (rawError.includes("429") || rawError.includes("RESOURCE_EXHAUSTED")) {
-        setError("LỖI 429: Hết hạn mức sử dụng (Quota Exhausted). Cô hãy đổi API Key khác nhé!");
-      } else if (rawError.includes("401") || rawError.includes("API_KEY_INVALID")) {
-        setError("LỖI 401: Mã API Key không hợp lệ. Cô hãy kiểm tra lại nhé!");
-      } else {
-        setError(`LỖI HỆ THỐNG: ${rawError}`);
-      }
+      if (!isCurrent()) return;
+      // callWithFallback already classified the error (auth, quota, overload...)
+      const aiErr = toAIServiceError(err);
+      if (aiErr.kind !== 'cancelled') setAiError(aiErr);
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        abortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleCancelGenerate = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    requestIdRef.current++; // whatever the aborted run still returns is dropped
+    setLoading(false);
+    setGenerationProgress(prev => prev && {
+      ...prev,
+      stages: Object.fromEntries(Object.entries(prev.stages).map(([id, state]) => [
+        id,
+        state.status === 'running' ? { ...state, status: 'error', error: 'Đã huỷ theo yêu cầu' } : state,
+      ])) as GenerationProgress['stages'],
+    });
+  };
+
   // Calculate score: 10 points total, distributed across all questions
-  function calculateTotalScore() {
+  function calculateScore(correct: number) {
     const total = totalQuestions || 1; // Prevent division by zero
-    const raw = (totalCorrectCount / total) * 10;
+    const raw = (correct / total) * 10;
     return Math.round(raw * 10) / 10;
   }
 
@@ -154,7 +308,17 @@ function App() {
     return score.toFixed(1).replace('.', ',');
   }
 
-  const totalScore = calculateTotalScore();
+  const totalScore = calculateScore(totalCorrectCount);
+
+  // First-try answers stay the score; wrong items put right in retry rounds are counted separately
+  const masteryRecord = mastery
+    ? { totalCorrect: totalCorrectCount + mastery.mastered, score: calculateScore(totalCorrectCount + mastery.mastered), rounds: mastery.rounds }
+    : undefined;
+
+  // Retry rounds and answers after "Xuất chứng nhận" still go to the record already saved
+  useEffect(() => {
+    if (savedRecordIdRef.current) updateLessonRecord(savedRecordIdRef.current, { mastery: masteryRecord, attempts });
+  }, [masteryRecord?.totalCorrect, masteryRecord?.rounds, attempts]);
 
   function getEvaluation(score: number) {
     const s = score || 0;
@@ -179,6 +343,22 @@ function App() {
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Record / replay indicator */}
+            {getRecordMode() !== 'off' && (
+              <span className="bg-rose-500 text-white text-[10px] sm:text-xs font-black px-2 py-1 rounded-lg uppercase">
+                {getRecordMode() === 'record' ? '🔴 Đang ghi' : '▶️ Phát lại'}
+              </span>
+            )}
+
+            {/* Library Button */}
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="flex items-center gap-1 sm:gap-2 bg-white/10 hover:bg-white/20 px-2 sm:px-3 py-1 sm:py-2 rounded-lg transition-all"
+            >
+              <span className="text-base sm:text-lg">📚</span>
+              <span className="text-white text-xs sm:text-sm font-bold hidden sm:block">Thư viện</span>
+            </button>
+
             {/* History Button */}
             <button
               onClick={() => setShowHistory(true)}
@@ -206,66 +386,12 @@ function App() {
 
       {/* Settings Modal */}
       {showSettings && (
-        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4">
-          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4">
-            <div className="flex justify-between items-center">
-              <h2 className="text-xl font-bold text-brand-800">⚙️ Thiết lập API Key</h2>
-              {apiKeyValid && (
-                <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-slate-600">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
-                </button>
-              )}
-            </div>
-
-            <div className="space-y-3">
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-1">🔑 API Key</label>
-                <input
-                  type="password"
-                  value={apiKeyInput}
-                  onChange={(e) => setApiKeyInput(e.target.value)}
-                  placeholder="Nhập API key của bạn..."
-                  className="w-full p-3 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none"
-                />
-                <a
-                  href="https://aistudio.google.com/apikey"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-red-500 text-xs font-bold hover:underline mt-1 inline-block"
-                >
-                  👉 Lấy API key miễn phí tại đây
-                </a>
-              </div>
-
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-2">🤖 Chọn Model AI</label>
-                <div className="grid gap-2">
-                  {AVAILABLE_MODELS.map((model) => (
-                    <button
-                      key={model.id}
-                      onClick={() => setSelectedModelId(model.id)}
-                      className={`p-3 rounded-xl border-2 text-left transition-all ${selectedModelId === model.id
-                        ? 'border-brand-500 bg-brand-50 text-brand-700'
-                        : 'border-slate-200 hover:border-brand-300'
-                        }`}
-                    >
-                      <span className="font-bold">{model.name}</span>
-                      {model.isDefault && <span className="ml-2 text-xs bg-brand-500 text-white px-2 py-0.5 rounded">Mặc định</span>}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            </div>
-
-            <button
-              onClick={handleSaveSettings}
-              disabled={!apiKeyInput.trim()}
-              className="w-full py-3 bg-brand-500 text-white rounded-xl font-bold text-lg hover:bg-brand-600 transition-all disabled:bg-slate-300 disabled:cursor-not-allowed"
-            >
-              💾 Lưu cài đặt
-            </button>
-          </div>
-        </div>
+        <SettingsModal
+          canClose={apiKeyValid}
+          onClose={() => setShowSettings(false)}
+          onSaved={handleSettingsSaved}
+          onUseOffline={() => { setShowSettings(false); setPlannerMode('offline'); setError(null); }}
+        />
       )}
 
       <main className="max-w-[1400px] mx-auto px-3 sm:px-6 py-4 sm:py-10 flex-grow w-full relative">
@@ -279,37 +405,120 @@ function App() {
                 <p className="text-xs sm:text-sm font-black text-slate-400 mb-4 sm:mb-8 uppercase italic opacity-60">"English with Heart. Success with Mrs.Dung"</p>
 
                 <div className="space-y-8 text-left">
-                  <div className="flex bg-slate-100 p-2 rounded-2xl gap-2 shadow-inner">
-                    {[{ id: 'topic', label: 'Chủ đề', icon: '💡' }, { id: 'text', label: 'Văn bản', icon: '📝' }, { id: 'image', label: 'Hình ảnh', icon: '📸' }].map(m => (
-                      <button key={m.id} onClick={() => { setPlannerMode(m.id as any); setTopic(''); setLessonText(''); setSelectedFiles([]); setError(null); }} className={`flex-1 py-3 rounded-xl font-black text-base flex items-center justify-center gap-2 transition-all ${plannerMode === m.id ? 'bg-brand-500 text-white shadow-lg scale-105' : 'text-slate-500 hover:bg-white'}`}>{m.icon} {m.label}</button>
+                  <div className="grid grid-cols-3 sm:grid-cols-6 bg-slate-100 p-2 rounded-2xl gap-2 shadow-inner">
+                    {[{ id: 'topic', label: 'Chủ đề', icon: '💡' }, { id: 'text', label: 'Văn bản', icon: '📝' }, { id: 'image', label: 'Hình ảnh', icon: '📸' }, { id: 'pdf', label: 'PDF', icon: '📄' }, { id: 'media', label: 'Phụ đề', icon: '🎵' }, { id: 'offline', label: 'Không AI', icon: '📋' }].map(m => (
+                      <button key={m.id} onClick={() => { setPlannerMode(m.id as any); setTopic(''); setLessonText(''); setSelectedFiles([]); setPdfFile(null); setSubtitleMedia(null); setVocabList(''); setError(null); setAiError(null); setGenerationProgress(null); }} className={`flex-1 py-3 rounded-xl font-black text-sm sm:text-base flex items-center justify-center gap-2 transition-all ${plannerMode === m.id ? 'bg-brand-500 text-white shadow-lg scale-105' : 'text-slate-500 hover:bg-white'}`}>{m.icon} {m.label}</button>
                     ))}
                   </div>
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <label htmlFor="lesson-level" className="font-black text-brand-800 text-base shrink-0">🎯 Trình độ:</label>
+                    <select
+                      id="lesson-level"
+                      value={levelId}
+                      onChange={e => setLevelId(e.target.value)}
+                      disabled={loading}
+                      className="flex-1 p-3 rounded-xl border-4 border-brand-50 bg-brand-50/50 font-black text-slate-700 outline-none"
+                    >
+                      <option value="">Tự động theo nội dung</option>
+                      <optgroup label="Theo lớp">
+                        {LEVEL_OPTIONS.filter(o => o.grade).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                      </optgroup>
+                      <optgroup label="Theo khung CEFR">
+                        {LEVEL_OPTIONS.filter(o => !o.grade).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                      </optgroup>
+                    </select>
+                  </div>
+                  <TestBlueprintPanel blueprint={blueprint} onChange={handleBlueprintChange} disabled={loading} />
                   <div className="min-h-[150px]">
                     {plannerMode === 'topic' && <input type="text" value={topic} onChange={e => setTopic(e.target.value)} placeholder="Nhập chủ đề (VD: Animals, My Family...)" className="w-full p-6 text-2xl rounded-2xl border-4 border-brand-50 font-black bg-brand-50/50 outline-none text-brand-900" />}
                     {plannerMode === 'text' && <textarea value={lessonText} onChange={e => setLessonText(e.target.value)} placeholder="Dán nội dung bài học vào đây..." rows={6} className="w-full p-6 text-lg rounded-2xl border-4 border-brand-50 bg-brand-50/50 resize-none font-black text-slate-700 outline-none" />}
-                    {plannerMode === 'image' && <UploadZone onFilesSelect={setSelectedFiles} isLoading={loading} fileCount={selectedFiles.length} />}
+                    {plannerMode === 'image' && (
+                      <div className="space-y-3">
+                        <UploadZone onFilesSelect={setSelectedFiles} isLoading={loading} fileCount={selectedFiles.length} />
+                        <ImagePrepList
+                          files={selectedFiles}
+                          options={imageOptions}
+                          onOptionsChange={setImageOptions}
+                          onRemove={index => setSelectedFiles(files => files.filter((_, i) => i !== index))}
+                          isLoading={loading}
+                        />
+                      </div>
+                    )}
+                    {plannerMode === 'pdf' && (
+                      <PdfPagePicker
+                        file={pdfFile}
+                        onFileSelect={setPdfFile}
+                        selection={pdfSelection}
+                        onSelectionChange={setPdfSelection}
+                        isLoading={loading}
+                      />
+                    )}
+                    {plannerMode === 'media' && <SubtitleInput media={subtitleMedia} onChange={setSubtitleMedia} isLoading={loading} />}
+                    {plannerMode === 'offline' && (
+                      <div className="space-y-3">
+                        <input type="text" value={topic} onChange={e => setTopic(e.target.value)} placeholder="Tên bài (không bắt buộc)" className="w-full p-4 text-lg rounded-2xl border-4 border-brand-50 font-black bg-brand-50/50 outline-none text-brand-900" />
+                        <textarea value={vocabList} onChange={e => setVocabList(e.target.value)} placeholder={"Mỗi dòng một từ: từ - nghĩa | câu ví dụ\napple - quả táo | I eat an apple every day.\nbanana - quả chuối | Monkeys love bananas."} rows={8} className="w-full p-6 text-lg rounded-2xl border-4 border-brand-50 bg-brand-50/50 resize-none font-black text-slate-700 outline-none" />
+                        <p className="text-xs font-bold text-slate-500">📋 Không cần API key: bài Dịch nghĩa, Nối từ, Sắp xếp câu và Điền từ được tạo ngay từ danh sách này. Câu ví dụ có chứa từ đó sẽ được dùng cho Sắp xếp và Điền từ.</p>
+                      </div>
+                    )}
                   </div>
-                  <button onClick={handleGenerate} disabled={loading} className="w-full py-6 bg-brand-500 border-b-8 border-brand-700 text-white rounded-3xl font-black text-2xl shadow-xl transform active:translate-y-2 active:border-b-0 uppercase tracking-tighter">
+                  <button onClick={() => handleGenerate()} disabled={loading} className="w-full py-6 bg-brand-500 border-b-8 border-brand-700 text-white rounded-3xl font-black text-2xl shadow-xl transform active:translate-y-2 active:border-b-0 uppercase tracking-tighter">
                     {loading ? 'ĐANG SOẠN BÀI SIÊU TỐC...' : '🚀 BẮT ĐẦU NGAY!'}
                   </button>
+                  {loading && (
+                    <button onClick={handleCancelGenerate} className="w-full py-3 bg-white border-2 border-red-200 text-red-500 rounded-2xl font-black text-lg hover:bg-red-50 transition-all">
+                      ✋ Huỷ soạn bài
+                    </button>
+                  )}
+                  {generationProgress && (
+                    <GenerationProgressPanel progress={generationProgress} onRetry={() => handleGenerate(true)} isRetrying={loading} />
+                  )}
                   {error && <div className="p-4 bg-red-50 border-2 border-red-200 rounded-xl text-red-600 font-black text-lg text-center animate-bounce shadow-md">⚠️ {error}</div>}
+                  {aiError && (
+                    <div className="p-4 bg-red-50 border-2 border-red-200 rounded-xl text-red-600 text-center shadow-md space-y-2">
+                      <p className="font-black text-lg">⚠️ {AI_ERROR_TITLES[aiError.kind]}</p>
+                      {/* Hiển thị nguyên văn lỗi từ API như yêu cầu */}
+                      <p className="text-xs font-mono break-words text-red-500">{aiError.model ? `[${aiError.model}] ` : ''}{aiError.detail}</p>
+                      {(aiError.kind === 'auth' || aiError.kind === 'quota') && (
+                        <div className="flex flex-wrap justify-center gap-2">
+                          <button onClick={() => setShowSettings(true)} className="px-4 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white text-sm font-bold shadow">⚙️ Đổi API Key</button>
+                          <button onClick={() => { setPlannerMode('offline'); setAiError(null); setGenerationProgress(null); }} className="px-4 py-2 rounded-xl bg-white border-2 border-red-200 hover:bg-red-50 text-red-600 text-sm font-bold">📋 Soạn bài không cần AI</button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ) : (
               <div className="space-y-8 sm:space-y-16 animate-fade-in">
                 <div className="text-center relative py-6 sm:py-10 bg-white rounded-2xl sm:rounded-[4rem] shadow-xl border-2 sm:border-4 border-brand-50 ring-2 sm:ring-4 ring-white overflow-hidden">
                   {/* Nút tạo bài học mới */}
-                  <div className="absolute top-4 right-4 sm:top-6 sm:right-6">
+                  <div className="absolute top-4 right-4 sm:top-6 sm:right-6 flex gap-2">
+                    <button
+                      onClick={() => downloadLessonFile(lesson)}
+                      title="Lưu bài học ra file .mrsdung.json để chia sẻ"
+                      className="flex items-center gap-2 bg-white hover:bg-brand-50 text-brand-700 border-2 border-brand-200 px-3 py-2 sm:px-5 sm:py-3 rounded-xl font-bold text-xs sm:text-sm shadow-lg transition-all active:scale-95"
+                    >
+                      <span className="text-base sm:text-lg">⬇️</span>
+                      <span className="hidden sm:inline">Xuất file</span>
+                    </button>
                     <button
                       onClick={() => {
                         setLesson(null);
+                        setLibraryId(null);
                         setTopic('');
                         setLessonText('');
                         setSelectedFiles([]);
+                        setPdfFile(null);
+                        setSubtitleMedia(null);
+                        setVocabList('');
                         setStudentName('');
-                        setMegaScores({ mc: 0, scramble: 0, fill: 0, vocab: 0, tf: 0, listen: 0 });
+                        setMegaScores({ mc: 0, scramble: 0, fill: 0, vocab: 0, tf: 0, listen: 0, match: 0, error: 0 });
+                        setMastery(null);
+                        setAttempts([]);
                         setShowCertificate(false);
                         setError(null);
+                        setAiError(null);
                       }}
                       className="flex items-center gap-2 bg-brand-500 hover:bg-brand-600 text-white px-3 py-2 sm:px-5 sm:py-3 rounded-xl font-bold text-xs sm:text-sm shadow-lg transition-all active:scale-95"
                     >
@@ -320,39 +529,51 @@ function App() {
                   </div>
 
                   <h1 className="text-2xl sm:text-4xl md:text-6xl font-black text-brand-800 uppercase font-display mb-4 sm:mb-6 px-4 break-words">{lesson.topic}</h1>
+                  {lesson.level && (
+                    <p className="-mt-2 mb-4 sm:mb-6"><span className="inline-block px-3 py-1 rounded-full bg-brand-100 text-brand-700 text-xs sm:text-sm font-black">🎯 {formatLessonLevel(lesson.level, lesson.grade)}</span></p>
+                  )}
                   <div className="flex flex-col items-center gap-4">
                     <label className="text-brand-600 font-black uppercase tracking-[0.2em] text-base font-sans">Chào mừng con:</label>
                     <input type="text" placeholder="Nhập tên của con nhé..." value={studentName} onChange={e => setStudentName(e.target.value)} className="p-4 w-full max-w-xl rounded-2xl border-4 border-brand-50 font-black text-2xl text-center outline-none bg-brand-50/50" />
                   </div>
                 </div>
 
+                <div className="space-y-3">
+                  <SectionRegenerator lesson={lesson} onLessonChange={handleLessonChange} />
+                  <AnswerBalanceReport lesson={lesson} />
+                </div>
+
                 <div className="bg-white p-3 sm:p-5 rounded-xl sm:rounded-2xl shadow-lg border border-brand-100">
                   <VocabularySection items={lesson.vocabulary} />
                 </div>
 
-                <div className="bg-highlight-400 p-4 sm:p-6 rounded-xl sm:rounded-2xl shadow-lg border-4 border-white">
-                  <h2 className="text-base sm:text-xl font-bold text-brand-900 uppercase tracking-tight mb-3 sm:mb-4 flex items-center gap-2">
-                    <span className="text-xl sm:text-2xl">✨</span> Ngữ pháp quan trọng
-                  </h2>
-                  <div className="bg-white/95 p-3 sm:p-5 rounded-lg sm:rounded-xl shadow-md">
-                    <h3 className="text-base sm:text-xl font-bold text-brand-700 mb-2">{lesson.grammar?.topic}</h3>
-                    <p className="text-sm sm:text-base text-slate-700 leading-relaxed mb-4 border-l-3 border-brand-500 pl-3">{lesson.grammar?.explanation}</p>
-                    <div className="space-y-2">
-                      <h4 className="text-xs sm:text-sm font-bold text-brand-600 uppercase">Ví dụ:</h4>
-                      <div className="grid gap-2">
-                        {(lesson.grammar?.examples || []).map((ex, i) => (
-                          <div key={i} className="bg-brand-50 p-2 sm:p-3 rounded-lg border border-brand-100 flex items-center gap-2">
-                            <span className="text-lg">💎</span>
-                            <p className="text-sm sm:text-base text-slate-700 italic">"{ex}"</p>
-                          </div>
-                        ))}
+                {lesson.grammar?.topic && (
+                  <div className="bg-highlight-400 p-4 sm:p-6 rounded-xl sm:rounded-2xl shadow-lg border-4 border-white">
+                    <h2 className="text-base sm:text-xl font-bold text-brand-900 uppercase tracking-tight mb-3 sm:mb-4 flex items-center gap-2">
+                      <span className="text-xl sm:text-2xl">✨</span> Ngữ pháp quan trọng
+                    </h2>
+                    <div className="bg-white/95 p-3 sm:p-5 rounded-lg sm:rounded-xl shadow-md">
+                      <h3 className="text-base sm:text-xl font-bold text-brand-700 mb-2">{lesson.grammar?.topic}</h3>
+                      <p className="text-sm sm:text-base text-slate-700 leading-relaxed mb-4 border-l-3 border-brand-500 pl-3">{lesson.grammar?.explanation}</p>
+                      <div className="space-y-2">
+                        <h4 className="text-xs sm:text-sm font-bold text-brand-600 uppercase">Ví dụ:</h4>
+                        <div className="grid gap-2">
+                          {(lesson.grammar?.examples || []).map((ex, i) => (
+                            <div key={i} className="bg-brand-50 p-2 sm:p-3 rounded-lg border border-brand-100 flex items-center gap-2">
+                              <span className="text-lg">💎</span>
+                              <p className="text-sm sm:text-base text-slate-700 italic">"{ex}"</p>
+                            </div>
+                          ))}
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
+                )}
+
+                {lesson.media && <MediaCuePlayer media={lesson.media} />}
 
                 {/* Listening section restored */}
-                {lesson.practice?.megaTest && <MegaChallenge megaData={lesson.practice.megaTest} listeningData={lesson.practice.listening} onScoresUpdate={setMegaScores} />}
+                {lesson.practice?.megaTest && <MegaChallenge key={practiceKey} megaData={lesson.practice.megaTest} listeningData={lesson.practice.listening} onScoresUpdate={setMegaScores} onMasteryUpdate={setMastery} onAttemptsUpdate={setAttempts} />}
 
                 <div className="text-center py-8 sm:py-12 bg-white rounded-xl sm:rounded-2xl shadow-lg border border-brand-100 flex flex-col items-center gap-4 sm:gap-6 relative overflow-hidden">
                   <MrsDungLogo className="w-16 h-16 sm:w-20 sm:h-20 drop-shadow-lg" color="#15803d" />
@@ -364,6 +585,11 @@ function App() {
                     <div className="text-sm sm:text-base font-semibold text-brand-500 bg-brand-50 px-4 py-1 rounded-full">
                       Số câu đúng: <span className="text-brand-700 font-bold">{totalCorrectCount}/{totalQuestions}</span>
                     </div>
+                    {masteryRecord && (
+                      <div className="text-xs sm:text-sm font-semibold text-emerald-600">
+                        🔁 Sau luyện lại: {masteryRecord.totalCorrect}/{totalQuestions} câu · {formatScore(masteryRecord.score)}/10 ({masteryRecord.rounds} vòng)
+                      </div>
+                    )}
                     <div className={`px-6 py-2 sm:px-8 sm:py-3 rounded-full font-bold text-base sm:text-xl shadow-lg ${totalScore >= 5 ? 'bg-brand-500 text-white' : 'bg-orange-500 text-white'}`}>
                       {evaluation.emoji} {evaluation.text}
                     </div>
@@ -372,16 +598,19 @@ function App() {
                       onClick={() => {
                         setShowCertificate(true);
                         // Auto-save lesson to history
-                        if (!savedRef.current && lesson) {
-                          savedRef.current = true;
+                        if (!savedRecordIdRef.current && lesson) {
+                          savedRecordIdRef.current = generateRecordId();
                           saveLessonRecord({
-                            id: generateRecordId(),
+                            id: savedRecordIdRef.current,
                             date: new Date().toISOString(),
                             topic: lesson.topic,
                             score: totalScore,
                             totalCorrect: totalCorrectCount,
                             totalQuestions: totalQuestions,
                             skillScores: { ...megaScores },
+                            mastery: masteryRecord,
+                            libraryId: libraryId || undefined,
+                            attempts,
                             studentName: studentName || 'Ẩn danh',
                           });
                         }
@@ -399,6 +628,7 @@ function App() {
                     topic={lesson.topic}
                     score={totalScore}
                     totalCorrect={totalCorrectCount}
+                    totalQuestions={totalQuestions}
                     evaluation={evaluation}
                     onClose={() => setShowCertificate(false)}
                   />
@@ -410,6 +640,9 @@ function App() {
 
             {/* Learning History Modal */}
             {showHistory && <LearningHistory onClose={() => setShowHistory(false)} />}
+
+            {/* Lesson Library Modal */}
+            {showLibrary && <LessonLibrary activeId={libraryId} onOpen={handleOpenSavedLesson} onDeleted={handleLibraryDeleted} onClose={() => setShowLibrary(false)} />}
           </div>
         </div>
         {/* Story, MindMap and Prompt tabs removed */}
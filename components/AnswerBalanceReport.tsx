@@ -0,0 +1,66 @@
+import React, { useMemo, useState } from 'react';
+import { LessonPlan } from '../types';
+import { ANSWER_LETTERS, getAnswerPositionReport } from '../utils/optionShuffle';
+
+interface AnswerBalanceReportProps {
+    lesson: LessonPlan;
+}
+
+// Where the correct answers sit (A-D) in each choice exercise, so the teacher can see
+// students cannot score by always picking the same letter
+export const AnswerBalanceReport: React.FC<AnswerBalanceReportProps> = ({ lesson }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const report = useMemo(() => getAnswerPositionReport(lesson), [lesson]);
+
+    if (!report.questionCount) return null;
+
+    const percent = (count: number) => Math.round((count / report.questionCount) * 100);
+
+    return (
+        <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg border border-brand-100 overflow-hidden font-sans">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full px-4 sm:px-6 py-3 flex items-center justify-between text-left hover:bg-brand-50 transition-all"
+            >
+                <span className="font-bold text-sm sm:text-base text-brand-800">
+                    📊 Vị trí đáp án đúng
+                    <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${report.isBalanced ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {report.isBalanced ? 'Cân bằng' : 'Bị lệch'}
+                    </span>
+                </span>
+                <span className="text-xs font-bold text-slate-400">{isOpen ? '▲ Thu gọn' : '▼ Mở'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 sm:px-6 pb-4 space-y-3">
+                    <p className="text-xs text-slate-500">
+                        Các lựa chọn được xáo trộn cố định theo từng câu khi mở bài, nên đáp án đúng không dồn vào A hay B như lúc AI soạn.
+                    </p>
+                    <table className="w-full text-xs sm:text-sm">
+                        <thead>
+                            <tr className="text-slate-500">
+                                <th className="text-left font-bold py-1">Dạng bài</th>
+                                {ANSWER_LETTERS.map(letter => <th key={letter} className="font-bold py-1 w-12 text-center">{letter}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.rows.map(row => (
+                                <tr key={row.id} className="border-t border-slate-100">
+                                    <td className="py-1 font-bold text-slate-700">{row.label}</td>
+                                    {row.counts.map((count, i) => <td key={i} className="py-1 text-center text-slate-600">{count}</td>)}
+                                </tr>
+                            ))}
+                            <tr className="border-t-2 border-slate-200 font-black text-brand-800">
+                                <td className="py-1">Tổng ({report.questionCount} câu)</td>
+                                {report.total.map((count, i) => <td key={i} className="py-1 text-center">{count} <span className="text-[10px] font-bold text-slate-400">{percent(count)}%</span></td>)}
+                            </tr>
+                        </tbody>
+                    </table>
+                    {!report.isBalanced && (
+                        <p className="text-xs font-bold text-amber-600">Một vị trí chiếm quá nhiều đáp án đúng - cô có thể tạo lại phần bài bị lệch.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ApiKeyEntry, generateApiKeyId, getKeyCooldowns, clearKeyCooldowns } from '../services/apiKeyPool';
+
+interface ApiKeyListEditorProps {
+    keys: ApiKeyEntry[];
+    onChange: (keys: ApiKeyEntry[]) => void;
+}
+
+const formatTime = (ms: number) => {
+    const d = new Date(ms);
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+export const ApiKeyListEditor: React.FC<ApiKeyListEditorProps> = ({ keys, onChange }) => {
+    // Bumped after clearing cooldowns so the status lines re-read localStorage
+    const [, setRefresh] = useState(0);
+
+    const update = (id: string, patch: Partial<ApiKeyEntry>) =>
+        onChange(keys.map(k => (k.id === id ? { ...k, ...patch } : k)));
+
+    const move = (index: number, delta: number) => {
+        const next = [...keys];
+        [next[index], next[index + delta]] = [next[index + delta], next[index]];
+        onChange(next);
+    };
+
+    const hasCooldowns = keys.some(k => getKeyCooldowns(k.id).length > 0);
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-bold text-slate-700">🔑 API Key</label>
+            {keys.map((entry, index) => {
+                const cooldowns = getKeyCooldowns(entry.id);
+                return (
+                    <div key={entry.id} className="p-2 rounded-xl border-2 border-brand-100 space-y-1.5">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={entry.name}
+                                onChange={e => update(entry.id, { name: e.target.value })}
+                                placeholder={`Key ${index + 1}`}
+                                className="w-1/3 min-w-0 p-2 border-2 border-brand-200 rounded-lg focus:border-brand-500 outline-none text-sm font-bold"
+                            />
+                            <input
+                                type="password"
+                                value={entry.key}
+                                onChange={e => update(entry.id, { key: e.target.value })}
+                                placeholder="Nhập API key của bạn..."
+                                className="flex-1 min-w-0 p-2 border-2 border-brand-200 rounded-lg focus:border-brand-500 outline-none text-sm"
+                            />
+                        </div>
+                        <div className="flex items-center gap-1 text-xs">
+                            <span className={`flex-1 font-bold ${cooldowns.length ? 'text-amber-600' : 'text-slate-400'}`}>
+                                {index === 0 ? '⭐ Dùng trước' : `Dự phòng ${index}`}
+                                {cooldowns.map(c => ` • ⏳ ${c.model} nghỉ đến ${formatTime(c.until)}`).join('')}
+                            </span>
+                            <button onClick={() => move(index, -1)} disabled={index === 0} title="Dùng trước" className="px-1.5 py-0.5 rounded hover:bg-slate-100 disabled:opacity-30">▲</button>
+                            <button onClick={() => move(index, 1)} disabled={index === keys.length - 1} title="Dùng sau" className="px-1.5 py-0.5 rounded hover:bg-slate-100 disabled:opacity-30">▼</button>
+                            <button onClick={() => onChange(keys.filter(k => k.id !== entry.id))} className="px-1.5 py-0.5 rounded text-rose-500 hover:bg-rose-50 font-bold">🗑</button>
+                        </div>
+                    </div>
+                );
+            })}
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    onClick={() => onChange([...keys, { id: generateApiKeyId(), name: '', key: '' }])}
+                    className="text-xs font-bold px-3 py-1.5 rounded-lg bg-brand-50 text-brand-700 hover:bg-brand-100"
+                >
+                    ➕ Thêm key
+                </button>
+                {hasCooldowns && (
+                    <button
+                        onClick={() => { clearKeyCooldowns(); setRefresh(n => n + 1); }}
+                        className="text-xs font-bold px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200"
+                    >
+                        🔄 Bỏ tạm nghỉ
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-slate-500">Khi một key hết hạn mức, ứng dụng tự chuyển sang key tiếp theo trước khi đổi sang model yếu hơn.</p>
+            <a
+                href="https://aistudio.google.com/apikey"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-red-500 text-xs font-bold hover:underline inline-block"
+            >
+                👉 Lấy API key miễn phí tại đây
+            </a>
+        </div>
+    );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { LessonPlan, LessonRecord, QuestionAttempt } from '../types';
+import { getSavedLesson } from '../services/lessonLibraryService';
+import { MEGA_ZONES, MegaZoneId, describeAnswer, getZoneItems } from '../utils/megaZones';
+import { formatCountdown } from '../utils/examSettings';
+
+interface AttemptReplayProps {
+    record: LessonRecord;
+    onBack: () => void;
+}
+
+interface ReplayQuestion {
+    zone: MegaZoneId;
+    id: string;
+    number?: number;         // none when the question is no longer in the lesson
+    prompt: string;
+    explanation: string;
+    tries: QuestionAttempt[];
+}
+
+// Every question of the lesson with the student's tries in order; answers of questions the
+// library copy no longer has (lesson deleted or regenerated) are still listed from the record
+const buildReplay = (lesson: LessonPlan | null, attempts: QuestionAttempt[]): ReplayQuestion[] => {
+    const triesOf = (zone: string, id: string) => attempts.filter(a => a.zone === zone && a.questionId === id);
+    const questions: ReplayQuestion[] = lesson
+        ? MEGA_ZONES.flatMap(zone => getZoneItems(zone.id, lesson.practice?.megaTest, lesson.practice?.listening).map((item, i) => {
+            const { prompt, explanation } = describeAnswer(zone.id, item, undefined);
+            return { zone: zone.id, id: item.id, number: i + 1, prompt, explanation, tries: triesOf(zone.id, item.id) };
+        }))
+        : [];
+    attempts.forEach(a => {
+        if (questions.some(q => q.zone === a.zone && q.id === a.questionId)) return;
+        questions.push({ zone: a.zone as MegaZoneId, id: a.questionId, prompt: '', explanation: '', tries: triesOf(a.zone, a.questionId) });
+    });
+    return questions;
+};
+
+// Drill-down of one history record: what the student answered, try by try, against the lesson
+export const AttemptReplay: React.FC<AttemptReplayProps> = ({ record, onBack }) => {
+    const [lesson, setLesson] = useState<LessonPlan | null | undefined>(undefined); // undefined while loading
+    const [wrongOnly, setWrongOnly] = useState(false);
+
+    useEffect(() => {
+        if (!record.libraryId) {
+            setLesson(null);
+            return;
+        }
+        getSavedLesson(record.libraryId)
+            .then(saved => setLesson(saved?.lesson || null))
+            .catch(() => setLesson(null));
+    }, [record.libraryId]);
+
+    if (lesson === undefined) {
+        return <p className="text-center py-10 text-slate-400 font-bold">Đang mở bài học...</p>;
+    }
+
+    const questions = buildReplay(lesson, record.attempts || []);
+    const zones = MEGA_ZONES.filter(zone => questions.some(q => q.zone === zone.id));
+    const isMissed = (q: ReplayQuestion) => !q.tries.length || !q.tries[0].isCorrect;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <button onClick={onBack} className="text-sm font-bold text-brand-600 hover:underline">← Quay lại</button>
+                <button
+                    onClick={() => setWrongOnly(!wrongOnly)}
+                    className={`px-3 py-1.5 rounded-lg border-2 text-xs font-bold transition-all ${wrongOnly ? 'border-rose-400 bg-rose-50 text-rose-600' : 'border-slate-200 text-slate-600 hover:border-brand-300'}`}
+                >
+                    {wrongOnly ? '✗ Đang xem câu sai' : 'Chỉ xem câu sai'}
+                </button>
+            </div>
+
+            <div>
+                <h4 className="font-black text-slate-800">{record.topic}</h4>
+                <p className="text-xs text-slate-500">{record.studentName || 'Ẩn danh'} • Lần đầu đúng {record.totalCorrect}/{record.totalQuestions} câu</p>
+                {!lesson && (
+                    <p className="mt-1 text-xs font-bold text-amber-600">Bài học này không còn trong thư viện nên chỉ xem được các câu trả lời đã lưu.</p>
+                )}
+            </div>
+
+            {zones.map(zone => {
+                const zoneQuestions = questions.filter(q => q.zone === zone.id);
+                const shown = wrongOnly ? zoneQuestions.filter(isMissed) : zoneQuestions;
+                return (
+                    <div key={zone.id} className="rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                        <div className="px-3 py-2 bg-brand-50 flex items-center justify-between">
+                            <span className="font-black text-sm text-brand-800">{zone.icon} {zone.label}</span>
+                            <span className="text-xs font-bold text-brand-600">{zoneQuestions.filter(q => !isMissed(q)).length}/{zoneQuestions.length} đúng lần đầu</span>
+                        </div>
+                        {shown.length === 0 ? (
+                            <p className="px-3 py-3 text-xs font-bold text-emerald-600">🌟 Không có câu sai.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-100">
+                                {shown.map(q => (
+                                    <div key={`${q.zone}-${q.id}`} className="px-3 py-3 space-y-1 text-xs">
+                                        <p className="font-bold text-sm text-slate-800 break-words">
+                                            {q.number ? `Câu ${q.number}: ` : ''}{q.prompt || <span className="italic text-slate-400">(câu hỏi không còn trong bài)</span>}
+                                        </p>
+                                        {q.tries.length === 0 ? (
+                                            <p className="text-slate-400 italic">Chưa làm</p>
+                                        ) : (
+                                            q.tries.map((t, i) => (
+                                                <p key={i} className={t.isCorrect ? 'text-emerald-700' : 'text-rose-600'}>
+                                                    <span className="font-black mr-1">{t.isCorrect ? '✓' : '✗'}</span>
+                                                    Lần {t.attempt}: <span className="font-bold">{t.givenAnswer || '(bỏ trống)'}</span>
+                                                    <span className="ml-2 text-slate-400 tabular-nums">⏱ {formatCountdown(t.timeMs / 1000)}</span>
+                                                </p>
+                                            ))
+                                        )}
+                                        {!q.tries.some(t => t.isCorrect) && q.tries.length > 0 && (
+                                            <p className="text-emerald-700">Đáp án đúng: <span className="font-bold">{q.tries[q.tries.length - 1].correctAnswer}</span></p>
+                                        )}
+                                        {q.explanation && <p className="italic text-slate-500 leading-relaxed">{q.explanation}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { MEGA_ZONES, ReviewItem } from '../utils/megaZones';
+
+interface ExamReviewProps {
+    items: ReviewItem[];
+    timedOut: boolean;
+    onBackToZones: () => void;
+    onRetake: () => void;
+}
+
+// Shown after an exam is handed in: every item with the student's answer, the right one and why
+export const ExamReview: React.FC<ExamReviewProps> = ({ items, timedOut, onBackToZones, onRetake }) => {
+    const [wrongOnly, setWrongOnly] = useState(false);
+    const correctCount = items.filter(item => item.isCorrect).length;
+    const zones = MEGA_ZONES.filter(zone => items.some(item => item.zone === zone.id));
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+            <div className="bg-white p-5 md:p-6 rounded-[2rem] shadow-lg text-center space-y-3">
+                {timedOut && <p className="text-sm font-black text-orange-600">⏰ Hết giờ! Bài đã được nộp tự động.</p>}
+                <h3 className="text-xl md:text-2xl font-black text-brand-800">📋 Kết quả bài kiểm tra</h3>
+                <p className="text-3xl font-black text-brand-600">{correctCount}/{items.length} <span className="text-base font-bold text-slate-400">câu đúng</span></p>
+                <div className="flex flex-wrap justify-center gap-2">
+                    <button
+                        onClick={() => setWrongOnly(!wrongOnly)}
+                        className={`px-4 py-2 rounded-xl border-2 text-sm font-bold transition-all ${wrongOnly ? 'border-red-400 bg-red-50 text-red-600' : 'border-slate-200 text-slate-600 hover:border-brand-300'}`}
+                    >
+                        {wrongOnly ? '✗ Đang xem câu sai' : 'Chỉ xem câu sai'}
+                    </button>
+                    <button onClick={onBackToZones} className="px-4 py-2 rounded-xl border-2 border-slate-200 text-sm font-bold text-slate-600 hover:border-brand-300 transition-all">
+                        👀 Xem lại từng phần
+                    </button>
+                    <button onClick={onRetake} className="px-4 py-2 rounded-xl bg-brand-500 hover:bg-brand-600 text-white text-sm font-bold shadow transition-all">
+                        🔁 Làm bài mới
+                    </button>
+                </div>
+            </div>
+
+            {zones.map(zone => {
+                const zoneItems = items.filter(item => item.zone === zone.id);
+                const shown = wrongOnly ? zoneItems.filter(item => !item.isCorrect) : zoneItems;
+                return (
+                    <div key={zone.id} className="bg-white rounded-[2rem] shadow-lg overflow-hidden">
+                        <div className="px-5 py-3 bg-brand-50 flex items-center justify-between">
+                            <span className="font-black text-brand-800">{zone.icon} {zone.label}</span>
+                            <span className="text-sm font-bold text-brand-600">{zoneItems.filter(item => item.isCorrect).length}/{zoneItems.length}</span>
+                        </div>
+                        {shown.length === 0 ? (
+                            <p className="px-5 py-4 text-sm font-bold text-green-600">🌟 Không có câu sai.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-100">
+                                {shown.map(item => (
+                                    <div key={item.id} className="px-5 py-4 space-y-1 text-sm">
+                                        <p className="font-bold text-slate-800 break-words">
+                                            <span className={`mr-2 ${item.isCorrect ? 'text-green-600' : 'text-red-500'}`}>{item.isCorrect ? '✓' : '✗'}</span>
+                                            Câu {item.number}: {item.prompt}
+                                        </p>
+                                        <p className={item.isCorrect ? 'text-green-700' : 'text-red-600'}>
+                                            Con trả lời: <span className="font-bold">{item.givenAnswer || '(bỏ trống)'}</span>
+                                        </p>
+                                        {!item.isCorrect && (
+                                            <p className="text-green-700">Đáp án đúng: <span className="font-bold">{item.correctAnswer}</span></p>
+                                        )}
+                                        {item.explanation && <p className="text-xs italic text-slate-500 leading-relaxed">{item.explanation}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
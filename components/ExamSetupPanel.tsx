@@ -0,0 +1,69 @@
+import React from 'react';
+import { ExamSettings, ExamTiming, MAX_EXAM_MINUTES, MIN_EXAM_MINUTES, clampExamMinutes } from '../utils/examSettings';
+
+interface ExamSetupPanelProps {
+    settings: ExamSettings;
+    onChange: (settings: ExamSettings) => void;
+    questionCount: number;
+    zoneCount: number;
+    onStart: () => void;
+    onCancel: () => void;
+}
+
+const TIMING_OPTIONS: Array<{ id: ExamTiming; label: string; hint: string }> = [
+    { id: 'total', label: '⏱️ Cả bài', hint: 'Một đồng hồ cho toàn bộ bài, làm các phần theo thứ tự tuỳ ý.' },
+    { id: 'perZone', label: '🧭 Từng phần', hint: 'Mỗi phần có giờ riêng, chỉ chạy khi đang mở phần đó. Hết giờ thì phần đó bị khoá.' },
+];
+
+// Set by the teacher before the student starts: answers stay hidden until the test is handed in
+export const ExamSetupPanel: React.FC<ExamSetupPanelProps> = ({ settings, onChange, questionCount, zoneCount, onStart, onCancel }) => {
+    const totalMinutes = settings.timing === 'total' ? settings.minutes : settings.minutes * zoneCount;
+
+    return (
+        <div className="max-w-2xl mx-auto bg-white p-5 md:p-8 rounded-[2rem] shadow-lg space-y-5 animate-fade-in">
+            <div className="text-center">
+                <h3 className="text-xl font-black text-brand-800">⏱️ Làm bài kiểm tra</h3>
+                <p className="text-sm text-slate-500 mt-1">Đáp án chỉ hiện sau khi nộp bài. Hết giờ bài sẽ tự nộp.</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {TIMING_OPTIONS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => onChange({ ...settings, timing: option.id })}
+                        className={`p-3 rounded-xl border-2 text-left transition-all ${settings.timing === option.id ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-brand-300'}`}
+                    >
+                        <span className="block font-black text-brand-800">{option.label}</span>
+                        <span className="block text-xs text-slate-500 mt-1">{option.hint}</span>
+                    </button>
+                ))}
+            </div>
+
+            <label className="flex items-center justify-center gap-3 font-bold text-slate-700">
+                Thời gian {settings.timing === 'total' ? 'cả bài' : 'mỗi phần'}:
+                <input
+                    type="number"
+                    min={MIN_EXAM_MINUTES}
+                    max={MAX_EXAM_MINUTES}
+                    value={settings.minutes}
+                    onChange={e => onChange({ ...settings, minutes: clampExamMinutes(Number(e.target.value)) })}
+                    className="w-20 p-2 text-center font-black text-brand-800 rounded-xl border-2 border-slate-200 outline-none focus:border-brand-400"
+                />
+                phút
+            </label>
+
+            <p className="text-center text-sm text-slate-500">
+                {questionCount} câu · {zoneCount} phần · tối đa {totalMinutes} phút
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+                <button onClick={onCancel} className="flex-1 py-3 rounded-xl font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">
+                    ← Quay lại luyện tập
+                </button>
+                <button onClick={onStart} className="flex-1 py-3 rounded-xl font-black text-white bg-brand-500 hover:bg-brand-600 shadow-md transition-all">
+                    🚀 Bắt đầu làm bài
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { GenerationProgress, GenerationStageState } from '../types';
+import { GENERATION_STAGES } from '../services/geminiService';
+
+interface GenerationProgressPanelProps {
+    progress: GenerationProgress;
+    onRetry?: () => void;
+    isRetrying?: boolean;
+}
+
+// Green only when a step really finished; once a step fails, the waiting steps show "Đã dừng do lỗi"
+const describeStage = (state: GenerationStageState, halted: boolean) => {
+    switch (state.status) {
+        case 'done':
+            return { text: 'Hoàn tất', badge: '✓', bar: 'bg-green-500 w-full', tone: 'text-green-600' };
+        case 'running':
+            return { text: 'Đang xử lý...', badge: '⏳', bar: 'bg-brand-400 w-1/2 animate-pulse', tone: 'text-brand-600' };
+        case 'error':
+            return { text: 'Lỗi', badge: '✕', bar: 'bg-red-500 w-full', tone: 'text-red-600' };
+        case 'skipped':
+            return { text: 'Bỏ qua (không có trong đề)', badge: '–', bar: 'w-0', tone: 'text-slate-400' };
+        default:
+            return halted
+                ? { text: 'Đã dừng do lỗi', badge: '⏸', bar: 'w-0', tone: 'text-slate-400' }
+                : { text: 'Đang chờ', badge: '•', bar: 'w-0', tone: 'text-slate-400' };
+    }
+};
+
+export const GenerationProgressPanel: React.FC<GenerationProgressPanelProps> = ({ progress, onRetry, isRetrying }) => {
+    const failed = GENERATION_STAGES.find(s => progress.stages[s.id].status === 'error');
+
+    return (
+        <div className="p-4 bg-white border-2 border-brand-100 rounded-2xl space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {GENERATION_STAGES.map(stage => {
+                    const state = progress.stages[stage.id];
+                    const view = describeStage(state, !!failed);
+                    return (
+                        <div key={stage.id} className="space-y-1">
+                            <p className="text-xs sm:text-sm font-black text-slate-700">{stage.icon} {stage.label}</p>
+                            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                <div className={`h-full rounded-full transition-all ${view.bar}`} />
+                            </div>
+                            <p className={`text-xs font-bold ${view.tone}`}>{view.badge} {view.text}</p>
+                            {state.model && state.status !== 'pending' && (
+                                <p className="text-[10px] text-slate-400 font-mono truncate" title={state.servedBy ? `${state.model} • key "${state.servedBy}"` : state.model}>
+                                    {state.model}{state.servedBy && ` • 🔑 ${state.servedBy}`}
+                                </p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {failed && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 pt-2 border-t border-slate-100">
+                    <p className="flex-1 text-xs sm:text-sm font-bold text-red-600 break-words">
+                        {failed.label} thất bại: {progress.stages[failed.id].error}
+                    </p>
+                    {onRetry && (
+                        <button
+                            onClick={onRetry}
+                            disabled={isRetrying}
+                            className="px-4 py-2 rounded-xl bg-brand-500 hover:bg-brand-600 text-white text-sm font-bold shadow disabled:opacity-50"
+                        >
+                            🔁 Thử lại bước lỗi
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { ImagePreprocessOptions, PreparedImage, preprocessImage, formatBytes } from '../utils/imagePreprocess';
+
+interface ImagePrepListProps {
+    files: File[];
+    options: ImagePreprocessOptions;
+    onOptionsChange: (options: ImagePreprocessOptions) => void;
+    onRemove: (index: number) => void;
+    isLoading: boolean;
+}
+
+type PrepState = { image?: PreparedImage; error?: string };
+
+export const ImagePrepList: React.FC<ImagePrepListProps> = ({ files, options, onOptionsChange, onRemove, isLoading }) => {
+    const [states, setStates] = useState<PrepState[]>([]);
+
+    // Results are cached per file and options, so the generate button reuses this work
+    useEffect(() => {
+        let cancelled = false;
+        setStates(files.map(() => ({})));
+        files.forEach((file, index) => {
+            preprocessImage(file, options)
+                .then(image => ({ image }), (err: any) => ({ error: err?.message || String(err) }))
+                .then(state => {
+                    if (!cancelled) setStates(prev => prev.map((s, i) => (i === index ? state : s)));
+                });
+        });
+        return () => { cancelled = true; };
+    }, [files, options]);
+
+    if (files.length === 0) return null;
+
+    const ready = states.filter(s => s.image).map(s => s.image);
+    const before = ready.reduce((sum, img) => sum + img.originalSize, 0);
+    const after = ready.reduce((sum, img) => sum + img.processedSize, 0);
+
+    return (
+        <div className="p-4 bg-white border-2 border-blue-100 rounded-2xl space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm font-bold text-slate-700">
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={options.grayscale} disabled={isLoading} onChange={e => onOptionsChange({ ...options, grayscale: e.target.checked })} />
+                    ⚫ Đen trắng
+                </label>
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={options.boostContrast} disabled={isLoading} onChange={e => onOptionsChange({ ...options, boostContrast: e.target.checked })} />
+                    🔆 Tăng tương phản (ảnh photo mờ)
+                </label>
+                {ready.length > 0 && (
+                    <span className="ml-auto text-xs text-green-600">Tổng: {formatBytes(before)} → {formatBytes(after)}</span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {files.map((file, index) => {
+                    const { image, error } = states[index] || {};
+                    return (
+                        <div key={`${file.name}-${index}`} className="relative rounded-xl border-2 border-slate-100 overflow-hidden">
+                            <div className="aspect-[3/4] bg-slate-50 flex items-center justify-center">
+                                {image ? (
+                                    <img src={image.previewUrl} alt={file.name} className="w-full h-full object-contain" />
+                                ) : (
+                                    <span className="text-xs font-bold text-slate-400">{error ? '⚠️' : '⏳ Đang xử lý...'}</span>
+                                )}
+                            </div>
+                            <div className="p-1.5 text-[10px] font-bold space-y-0.5">
+                                <p className="truncate text-slate-600" title={file.name}>{file.name}</p>
+                                {image && (
+                                    <p className="text-slate-500">
+                                        {formatBytes(image.originalSize)} → <span className="text-green-600">{formatBytes(image.processedSize)}</span>
+                                        {` • ${image.width}×${image.height}`}
+                                    </p>
+                                )}
+                                {image && image.originalType !== image.mimeType && (
+                                    <p className="text-slate-400">{image.originalType.replace('image/', '').toUpperCase()} → {image.mimeType.replace('image/', '').toUpperCase()}</p>
+                                )}
+                                {error && <p className="text-red-500 break-words">{error}</p>}
+                            </div>
+                            {!isLoading && (
+                                <button
+                                    onClick={() => onRemove(index)}
+                                    title="Bỏ ảnh này"
+                                    className="absolute top-1 right-1 w-6 h-6 rounded-full bg-white/90 text-rose-500 text-xs font-bold shadow hover:bg-rose-50"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { LessonRecord, WeeklyReport } from '../types';
 import { getLessonHistory, getWeeklyReports, getStreak, clearHistory } from '../services/historyService';
+import { AttemptReplay } from './AttemptReplay';
 
 interface LearningHistoryProps {
     onClose: () => void;
@@ -12,6 +13,7 @@ export const LearningHistory: React.FC<LearningHistoryProps> = ({ onClose }) =>
     const [streak, setStreak] = useState(0);
     const [tab, setTab] = useState<'weekly' | 'all'>('weekly');
     const [confirmClear, setConfirmClear] = useState(false);
+    const [replayRecord, setReplayRecord] = useState<LessonRecord | null>(null); // drill-down into one lesson's answers
 
     useEffect(() => {
         refreshData();
@@ -94,13 +96,15 @@ export const LearningHistory: React.FC<LearningHistoryProps> = ({ onClose }) =>
 
                 {/* Tabs */}
                 <div className="flex gap-1 px-4 sm:px-6 pt-3 shrink-0">
-                    <button onClick={() => setTab('weekly')} className={`flex-1 py-2 rounded-xl font-bold text-sm transition-all ${tab === 'weekly' ? 'bg-brand-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>📅 Báo cáo tuần</button>
-                    <button onClick={() => setTab('all')} className={`flex-1 py-2 rounded-xl font-bold text-sm transition-all ${tab === 'all' ? 'bg-brand-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>📋 Tất cả ({records.length})</button>
+                    <button onClick={() => { setTab('weekly'); setReplayRecord(null); }} className={`flex-1 py-2 rounded-xl font-bold text-sm transition-all ${tab === 'weekly' ? 'bg-brand-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>📅 Báo cáo tuần</button>
+                    <button onClick={() => { setTab('all'); setReplayRecord(null); }} className={`flex-1 py-2 rounded-xl font-bold text-sm transition-all ${tab === 'all' ? 'bg-brand-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>📋 Tất cả ({records.length})</button>
                 </div>
 
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-3 space-y-3">
-                    {tab === 'weekly' ? (
+                    {replayRecord ? (
+                        <AttemptReplay record={replayRecord} onBack={() => setReplayRecord(null)} />
+                    ) : tab === 'weekly' ? (
                         weeklyReports.length > 0 ? (
                             weeklyReports.map((week, i) => (
                                 <div key={i} className={`bg-white rounded-2xl border-2 p-4 transition-all ${i === 0 ? 'border-brand-300 shadow-md ring-2 ring-brand-100' : 'border-slate-100 shadow-sm'}`}>
@@ -158,8 +162,21 @@ export const LearningHistory: React.FC<LearningHistoryProps> = ({ onClose }) =>
                                     <div className="flex-1 min-w-0">
                                         <h4 className="font-bold text-sm text-slate-800 truncate">{r.topic}</h4>
                                         <p className="text-xs text-slate-400">{formatDate(r.date)} • {r.studentName || 'Ẩn danh'}</p>
-                                        <p className="text-xs text-slate-500 mt-0.5">Đúng <span className="font-bold text-brand-600">{r.totalCorrect}/{r.totalQuestions}</span> câu</p>
+                                        <p className="text-xs text-slate-500 mt-0.5">
+                                            {r.mastery ? 'Lần đầu' : 'Đúng'} <span className="font-bold text-brand-600">{r.totalCorrect}/{r.totalQuestions}</span> câu
+                                            {r.mastery && (
+                                                <span className="text-emerald-600"> • Sau luyện lại <span className="font-bold">{r.mastery.totalCorrect}/{r.totalQuestions}</span> ({r.mastery.score.toFixed(1)}, {r.mastery.rounds} vòng)</span>
+                                            )}
+                                        </p>
                                     </div>
+                                    {!!r.attempts?.length && (
+                                        <button
+                                            onClick={() => setReplayRecord(r)}
+                                            className="shrink-0 px-3 py-1.5 rounded-lg bg-brand-50 hover:bg-brand-100 text-brand-700 text-xs font-bold transition-all"
+                                        >
+                                            🔍 Xem bài làm
+                                        </button>
+                                    )}
                                 </div>
                             ))
                         ) : (
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    SavedLesson,
+    listSavedLessons,
+    renameSavedLesson,
+    duplicateSavedLesson,
+    deleteSavedLesson,
+    summarizeSavedLesson,
+    saveLessonToLibrary,
+} from '../services/lessonLibraryService';
+import { LESSON_FILE_EXTENSION, downloadLessonFile, importLessonFile } from '../services/lessonFileService';
+import { formatUsd } from '../services/usageTracker';
+
+interface LessonLibraryProps {
+    activeId?: string | null;   // lesson currently open in the planner
+    onOpen: (saved: SavedLesson) => void;
+    onDeleted?: (id: string) => void;
+    onClose: () => void;
+}
+
+const formatDate = (iso: string) => {
+    const d = new Date(iso);
+    const dd = String(d.getDate()).padStart(2, '0');
+    const mm = String(d.getMonth() + 1).padStart(2, '0');
+    const hh = String(d.getHours()).padStart(2, '0');
+    const mi = String(d.getMinutes()).padStart(2, '0');
+    return `${dd}/${mm}/${d.getFullYear()} lúc ${hh}:${mi}`;
+};
+
+export const LessonLibrary: React.FC<LessonLibraryProps> = ({ activeId, onOpen, onDeleted, onClose }) => {
+    const [lessons, setLessons] = useState<SavedLesson[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        refreshData();
+    }, []);
+
+    const refreshData = async () => {
+        try {
+            setLessons(await listSavedLessons());
+            setError(null);
+        } catch (err: any) {
+            setError(`Không đọc được thư viện bài học: ${err?.message || err}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const run = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+            await refreshData();
+        } catch (err: any) {
+            setError(`Thao tác thất bại: ${err?.message || err}`);
+        }
+    };
+
+    const startRename = (saved: SavedLesson) => {
+        setEditingId(saved.id);
+        setDraftTitle(saved.title);
+    };
+
+    const commitRename = () => {
+        const id = editingId;
+        setEditingId(null);
+        if (id && draftTitle.trim()) run(() => renameSavedLesson(id, draftTitle));
+    };
+
+    const handleDelete = (id: string) => {
+        if (confirmDeleteId === id) {
+            setConfirmDeleteId(null);
+            run(async () => {
+                await deleteSavedLesson(id);
+                onDeleted?.(id);
+            });
+        } else {
+            setConfirmDeleteId(id);
+            setTimeout(() => setConfirmDeleteId(current => (current === id ? null : current)), 3000);
+        }
+    };
+
+    // Imported lessons go into the library first, then open straight in the practice view
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = await importLessonFile(file);
+            const saved = await saveLessonToLibrary(imported.lesson, undefined, imported.title);
+            onOpen(saved);
+        } catch (err: any) {
+            setError(`Lỗi nhập file: ${err?.message || err}`);
+        }
+    };
+
+    const query = search.trim().toLowerCase();
+    const visible = query
+        ? lessons.filter(l => `${l.title} ${l.lesson.topic}`.toLowerCase().includes(query))
+        : lessons;
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-3 sm:p-4">
+            <div className="bg-white rounded-2xl sm:rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                {/* Header */}
+                <div className="bg-gradient-to-r from-brand-600 to-brand-700 px-4 sm:px-6 py-4 sm:py-5 flex items-center justify-between shrink-0">
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl sm:text-3xl">📚</span>
+                        <div>
+                            <h2 className="text-white font-black text-base sm:text-xl">Thư viện bài học</h2>
+                            <p className="text-brand-100 text-xs sm:text-sm font-semibold">{lessons.length} bài đã lưu trên máy này</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="bg-white/20 hover:bg-white/30 text-white w-8 h-8 sm:w-10 sm:h-10 rounded-xl flex items-center justify-center transition-all text-lg font-bold">✕</button>
+                </div>
+
+                {/* Search & import */}
+                <div className="bg-brand-50 px-4 sm:px-6 py-3 border-b border-brand-100 shrink-0 flex gap-2">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="🔍 Tìm theo tên hoặc chủ đề..."
+                        className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-brand-100 bg-white font-bold text-sm text-slate-700 outline-none focus:border-brand-400"
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        title={`Nhập bài học từ file ${LESSON_FILE_EXTENSION}`}
+                        className="shrink-0 px-3 py-2 rounded-xl bg-white border-2 border-brand-200 hover:border-brand-400 text-brand-700 text-xs sm:text-sm font-bold"
+                    >
+                        📥 Nhập file
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                </div>
+
+                {/* List */}
+                <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-3">
+                    {error && <p className="text-sm font-bold text-red-600 bg-red-50 p-3 rounded-xl">{error}</p>}
+
+                    {loading ? (
+                        <p className="text-center text-slate-400 font-bold py-10">Đang tải...</p>
+                    ) : visible.length === 0 ? (
+                        <div className="text-center py-10">
+                            <span className="text-5xl block mb-3">🗂️</span>
+                            <p className="text-slate-500 font-bold">
+                                {lessons.length === 0 ? 'Chưa có bài nào. Bài học soạn xong sẽ tự động được lưu vào đây.' : 'Không tìm thấy bài học phù hợp.'}
+                            </p>
+                        </div>
+                    ) : visible.map(saved => {
+                        const summary = summarizeSavedLesson(saved);
+                        const isActive = saved.id === activeId;
+                        return (
+                            <div key={saved.id} className={`p-3 sm:p-4 rounded-xl border-2 ${isActive ? 'border-brand-400 bg-brand-50/60' : 'border-slate-100 bg-white'}`}>
+                                {editingId === saved.id ? (
+                                    <input
+                                        autoFocus
+                                        value={draftTitle}
+                                        onChange={e => setDraftTitle(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={e => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setEditingId(null);
+                                        }}
+                                        className="w-full px-3 py-1.5 rounded-lg border-2 border-brand-300 font-black text-slate-800 outline-none"
+                                    />
+                                ) : (
+                                    <p className="font-black text-slate-800 text-sm sm:text-base break-words">
+                                        {saved.title}
+                                        {isActive && <span className="ml-2 text-[10px] sm:text-xs font-bold text-brand-600 bg-brand-100 px-2 py-0.5 rounded-full">Đang mở</span>}
+                                    </p>
+                                )}
+                                {summary.topic !== saved.title && <p className="text-xs text-slate-500 font-semibold mt-0.5">Chủ đề: {summary.topic}</p>}
+
+                                <div className="flex flex-wrap gap-1.5 mt-2 text-[10px] sm:text-xs font-bold">
+                                    <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">🕒 {formatDate(saved.updatedAt)}</span>
+                                    {summary.levelLabel && <span className="bg-brand-100 text-brand-700 px-2 py-0.5 rounded-full">🎯 {summary.levelLabel}</span>}
+                                    <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">📝 {summary.questionCount} câu</span>
+                                    {summary.matchingPairs > 0 && <span className="bg-purple-50 text-purple-700 px-2 py-0.5 rounded-full">🔗 {summary.matchingPairs} cặp</span>}
+                                    <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full">📖 {summary.vocabularyCount} từ</span>
+                                    {saved.lesson.usage?.requests > 0 && <span className="bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-full" title="Chi phí AI ước tính khi soạn bài này">💵 {formatUsd(saved.lesson.usage.costUsd)}</span>}
+                                </div>
+                                {summary.promptVersions.length > 0 && (
+                                    <p className="mt-1 text-[10px] text-slate-400 font-mono break-all" title="Mẫu lời nhắc AI đã dùng">✍️ {summary.promptVersions.join(' · ')}</p>
+                                )}
+
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    <button onClick={() => onOpen(saved)} className="px-3 py-1.5 rounded-lg bg-brand-500 hover:bg-brand-600 text-white text-xs sm:text-sm font-bold shadow">📂 Mở bài</button>
+                                    <button onClick={() => startRename(saved)} className="px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs sm:text-sm font-bold">✏️ Đổi tên</button>
+                                    <button onClick={() => downloadLessonFile(saved.lesson, saved.title)} className="px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs sm:text-sm font-bold">⬇️ Xuất file</button>
+                                    <button onClick={() => run(() => duplicateSavedLesson(saved.id))} className="px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs sm:text-sm font-bold">📄 Nhân bản</button>
+                                    <button
+                                        onClick={() => handleDelete(saved.id)}
+                                        className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-bold ${confirmDeleteId === saved.id ? 'bg-rose-500 text-white' : 'text-rose-500 hover:bg-rose-50'}`}
+                                    >
+                                        {confirmDeleteId === saved.id ? '⚠️ Bấm lần nữa để xoá!' : '🗑 Xoá'}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
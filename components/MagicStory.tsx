@@ -2,13 +2,13 @@
 import React, { useState } from 'react';
 import { UploadZone } from './UploadZone';
 import { StoryDisplay } from './StoryDisplay';
-import { AppState, LoadingStep, CharacterProfile, AppMode, ImageRatio } from '../types';
+import { AppState, LoadingStep, CharacterProfile, AppMode, ImageRatio, UploadedImage } from '../types';
 import { 
-  fileToBase64, 
   analyzeImageAndCreateContent, 
   generateStoryImage, 
   generateAudioFromContent 
 } from '../services/geminiService';
+import { preprocessImage } from '../utils/imagePreprocess';
 
 const CHARACTERS: CharacterProfile[] = [
   {
@@ -122,17 +122,15 @@ export const MagicStory: React.FC = () => {
         loadingStep: LoadingStep.ANALYZING
       }));
 
-      let base64Images: string[] = [];
+      let images: UploadedImage[] = [];
       if (inputMode === 'image') {
-        const imagePromises = pendingFiles.map(file => fileToBase64(file));
-        base64Images = await Promise.all(imagePromises);
-        const originalImageUrls = base64Images.map((b64, idx) => `data:${pendingFiles[idx].type};base64,${b64}`);
-        setState(prev => ({ ...prev, originalImages: originalImageUrls }));
+        const prepared = await Promise.all(pendingFiles.map(file => preprocessImage(file)));
+        images = prepared;
+        setState(prev => ({ ...prev, originalImages: prepared.map(img => img.previewUrl) }));
       }
 
       const contentResult = await analyzeImageAndCreateContent(
-        base64Images, 
-        inputMode === 'image' && pendingFiles.length > 0 ? pendingFiles[0].type : "image/jpeg", 
+        images, 
         state.selectedCharacter,
         state.selectedMode,
         state.customPrompt,
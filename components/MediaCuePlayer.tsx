@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LessonMediaSource } from '../types';
+import { setCueMediaElement } from '../services/mediaCue';
+
+interface MediaCuePlayerProps {
+    media: LessonMediaSource;
+}
+
+// The video/song for a subtitle lesson, opened from the teacher's computer; exercise
+// buttons seek it through services/mediaCue.ts
+export const MediaCuePlayer: React.FC<MediaCuePlayerProps> = ({ media }) => {
+    const [source, setSource] = useState<{ url: string; name: string; isVideo: boolean } | null>(null);
+    const mediaRef = useRef<HTMLMediaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        setCueMediaElement(source ? mediaRef.current : null);
+        return () => setCueMediaElement(null);
+    }, [source]);
+
+    // Object URLs hold the whole file in memory until revoked
+    useEffect(() => () => { if (source) URL.revokeObjectURL(source.url); }, [source]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setSource({ url: URL.createObjectURL(file), name: file.name, isVideo: file.type.startsWith('video/') });
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-2xl shadow-lg border-2 border-cyan-100 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <p className="flex-1 min-w-0 text-sm font-black text-slate-700">
+                    🎬 Bài học từ <span className="text-cyan-700">{media.fileName}</span>
+                    <span className="block text-xs font-bold text-slate-500">{source ? `Đang mở: ${source.name}` : 'Mở video/bài hát gốc để nghe từng câu trong bài tập'}</span>
+                </p>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-2 rounded-xl bg-cyan-500 hover:bg-cyan-600 text-white text-xs sm:text-sm font-bold shadow"
+                >
+                    📂 {source ? 'Đổi file' : 'Mở file video/nhạc'}
+                </button>
+                <input ref={fileInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleFileChange} />
+            </div>
+            {source && (source.isVideo
+                ? <video ref={mediaRef as React.RefObject<HTMLVideoElement>} src={source.url} controls className="w-full max-h-72 rounded-xl bg-black" />
+                : <audio ref={mediaRef as React.RefObject<HTMLAudioElement>} src={source.url} controls className="w-full" />)}
+        </div>
+    );
+};
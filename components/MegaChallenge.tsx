@@ -1,8 +1,15 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { PracticeContent } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ErrorIdQ, MatchingPair, MediaCue, PracticeContent, QuestionAttempt } from '../types';
 import { WordBankFill } from './WordBankFill';
+import { ExamSetupPanel } from './ExamSetupPanel';
+import { ExamReview } from './ExamReview';
 import { playGeminiTTS, stopTTS } from '../services/geminiService';
+import { playCue } from '../services/mediaCue';
+import { formatCueTime } from '../utils/subtitles';
+import { gradeErrorIdAnswer, parseErrorSentence, stripOptionMarker } from '../utils/errorIdentification';
+import { MEGA_ZONES, MegaZoneId, buildAttempt, buildReviewItems, describeAnswer, getZoneItems, isFillAnswerCorrect } from '../utils/megaZones';
+import { ExamSettings, formatCountdown, getSavedExamSettings, saveExamSettings } from '../utils/examSettings';
 import {
   shuffleWithRecheck,
   generateSeed,
@@ -14,7 +21,10 @@ import {
 interface MegaChallengeProps {
   megaData: PracticeContent['megaTest'];
   listeningData?: PracticeContent['listening'];
-  onScoresUpdate?: (scores: { mc: number; scramble: number; fill: number; vocab: number; tf: number; listen: number }) => void;
+  onScoresUpdate?: (scores: { mc: number; scramble: number; fill: number; vocab: number; tf: number; listen: number; match: number; error: number }) => void;
+  // Wrong items put right in "practice my mistakes"; null until a retry round is started
+  onMasteryUpdate?: (mastery: { mastered: number; rounds: number } | null) => void;
+  onAttemptsUpdate?: (attempts: QuestionAttempt[]) => void;
 }
 
 // Collapsible Explanation Component
@@ -66,66 +76,629 @@ const CollapsibleExplanation: React.FC<{
   );
 };
 
+// Plays the item's line from the video/song opened in MediaCuePlayer (subtitle lessons)
+const CueButton: React.FC<{ cue: MediaCue }> = ({ cue }) => (
+  <button
+    onClick={() => { if (!playCue(cue)) alert("Cô hãy mở file video/bài hát ở khung phía trên trước nhé!"); }}
+    className="flex items-center gap-2 bg-white border-2 border-cyan-300 hover:bg-cyan-50 text-cyan-700 px-3 py-2 rounded-xl font-bold text-sm transition-all active:scale-95"
+  >
+    🎬 Nghe bản gốc ({formatCueTime(cue.start)})
+  </button>
+);
+
 // Session seed for consistent shuffling within session
 const SESSION_SEED = Date.now().toString();
 
-export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listeningData, onScoresUpdate }) => {
-  const [activeZone, setActiveZone] = useState<'mc' | 'fill' | 'scramble' | 'vocab' | 'tf' | 'listen'>('mc');
+// Tap a word then its meaning, or drag the word onto the meaning. In practice a pair is scored
+// as correct only when it was matched without a wrong try first; in an exam any pairing is
+// accepted silently (tap a matched word to undo it) and graded when the test is handed in.
+const MatchingBoard: React.FC<{
+  pairs: MatchingPair[];
+  answers: Record<string, any>;
+  submitted: Record<string, boolean>;
+  isExam: boolean;
+  isLocked: boolean;
+  onMiss: (pairId: string, rightId: string) => void;
+  onMatch: (pairId: string, rightId: string, isRight: boolean) => void;
+  onClear: (pairId: string) => void;
+}> = ({ pairs, answers, submitted, isExam, isLocked, onMiss, onMatch, onClear }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [wrongId, setWrongId] = useState<string | null>(null);
+  const rightOrder = useMemo(
+    () => shuffleWithRecheck(pairs.map(p => p.id), generateSeed('matching', SESSION_SEED)).map(id => pairs.find(p => p.id === id)),
+    [pairs]
+  );
+  const isMatched = (pairId: string) => submitted[pairId] || (isExam && !!answers[pairId]?.rightId);
+  const usedRightIds = new Set(pairs.filter(p => isMatched(p.id)).map(p => answers[p.id]?.rightId));
+  const matchedCount = pairs.filter(p => submitted[p.id]).length;
+  const firstTryCount = pairs.filter(p => submitted[p.id] && answers[p.id]?.isCorrect).length;
+
+  const tryMatch = (leftId: string, rightId: string) => {
+    setSelectedId(null);
+    if (isLocked || isMatched(leftId) || usedRightIds.has(rightId)) return;
+    const left = pairs.find(p => p.id === leftId);
+    const right = pairs.find(p => p.id === rightId);
+    // Two words may share a meaning; either card with that meaning is right
+    const isRight = !!left && !!right && right.right.trim().toLowerCase() === left.right.trim().toLowerCase();
+    if (isRight || isExam) {
+      onMatch(leftId, rightId, isRight);
+      return;
+    }
+    onMiss(leftId, rightId);
+    setWrongId(rightId);
+    setTimeout(() => setWrongId(id => (id === rightId ? null : id)), 700);
+  };
+
+  const tapLeft = (pairId: string) => {
+    if (isLocked || submitted[pairId]) return;
+    if (isMatched(pairId)) onClear(pairId);
+    else setSelectedId(selectedId === pairId ? null : pairId);
+  };
+
+  const pairColor = (pairId: string) => !submitted[pairId]
+    ? 'bg-brand-50 border-brand-400 text-brand-800'
+    : answers[pairId]?.isCorrect
+      ? 'bg-green-100 border-green-500 text-green-700'
+      : 'bg-amber-50 border-amber-400 text-amber-700';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 md:gap-6">
+        <div className="space-y-3">
+          {pairs.map(p => (
+            <button
+              key={`l-${p.id}`}
+              draggable={!isLocked && !isMatched(p.id)}
+              onDragStart={e => { e.dataTransfer.setData('text/plain', p.id); setSelectedId(p.id); }}
+              onClick={() => tapLeft(p.id)}
+              disabled={isLocked || submitted[p.id]}
+              className={`w-full p-3 md:p-4 rounded-xl border-2 font-black text-left text-sm md:text-base transition-all break-words ${isMatched(p.id)
+                ? pairColor(p.id)
+                : selectedId === p.id
+                  ? 'bg-yellow-50 border-highlight-400 text-brand-900 -translate-y-0.5 shadow-md'
+                  : 'bg-white border-slate-100 text-slate-700 hover:border-brand-300 cursor-grab'
+                }`}
+            >
+              {p.left}
+              {isMatched(p.id) && !submitted[p.id] && (
+                <span className="block text-xs font-bold text-brand-500">→ {pairs.find(r => r.id === answers[p.id]?.rightId)?.right}</span>
+              )}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-3">
+          {rightOrder.map(p => {
+            const matchedBy = pairs.find(l => isMatched(l.id) && answers[l.id]?.rightId === p.id);
+            return (
+              <button
+                key={`r-${p.id}`}
+                onClick={() => selectedId && tryMatch(selectedId, p.id)}
+                onDragOver={e => { if (!matchedBy) e.preventDefault(); }}
+                onDrop={e => { e.preventDefault(); tryMatch(e.dataTransfer.getData('text/plain'), p.id); }}
+                disabled={isLocked || !!matchedBy}
+                className={`w-full p-3 md:p-4 rounded-xl border-2 font-bold text-left text-sm md:text-base transition-all break-words ${matchedBy
+                  ? pairColor(matchedBy.id)
+                  : wrongId === p.id
+                    ? 'bg-red-100 border-red-500 text-red-700 animate-pulse'
+                    : selectedId
+                      ? 'bg-white border-brand-200 text-slate-700 hover:border-brand-400 hover:bg-brand-50'
+                      : 'bg-white border-slate-100 text-slate-700'
+                  }`}
+              >
+                {p.right}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      {matchedCount === pairs.length && (
+        <div className={`p-4 rounded-2xl text-center font-black ${firstTryCount === pairs.length ? 'bg-green-100 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+          {firstTryCount === pairs.length
+            ? `🏆 Tuyệt vời! Con nối đúng tất cả${isExam ? '' : ' ngay lần đầu'}!`
+            : isExam
+              ? `Con nối đúng ${firstTryCount}/${pairs.length} cặp. Các cặp màu vàng là cặp con nối sai hoặc bỏ trống.`
+              : `Con nối đúng ngay lần đầu ${firstTryCount}/${pairs.length} cặp. Các cặp màu vàng là cặp con đã chọn nhầm trước đó.`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Tap the underlined part that is wrong, then type it correctly. Both parts are graded;
+// the question counts only when both are right. Lessons made before corrections were
+// asked for have no "correction", so only the pick is graded there. In an exam every change
+// is graded and kept, and nothing is shown until the test is handed in.
+const ErrorIdCard: React.FC<{
+  question: ErrorIdQ;
+  index: number;
+  answer: any;
+  isSubmitted: boolean;
+  isExam: boolean;
+  isLocked: boolean;
+  onChange: (answer: any) => void;
+  onCheck: (answer: any) => void;
+}> = ({ question: q, index, answer, isSubmitted, isExam, isLocked, onChange, onCheck }) => {
+  const parts = useMemo(() => parseErrorSentence(q.sentence), [q.sentence]);
+  const picked: number | undefined = answer?.optionIndex;
+  const typed: string = answer?.correction || '';
+  const needsCorrection = !!q.correction?.trim();
+  const wrongPart = stripOptionMarker(q.options?.[q.correctOptionIndex]);
+  const letter = (i: number) => `(${String.fromCharCode(65 + i)})`;
+
+  const check = () => onCheck(gradeErrorIdAnswer(q, picked, typed));
+  const update = (optionIndex: number | undefined, correction: string) => {
+    if (isSubmitted || isLocked) return;
+    onChange(isExam ? gradeErrorIdAnswer(q, optionIndex, correction) : { ...answer, optionIndex, correction });
+  };
+
+  const partColor = (i: number) => isSubmitted
+    ? i === q.correctOptionIndex
+      ? 'bg-green-100 decoration-green-500 text-green-700'
+      : picked === i
+        ? 'bg-red-100 decoration-red-500 text-red-700'
+        : 'decoration-slate-300 text-slate-400'
+    : picked === i
+      ? 'bg-yellow-50 decoration-highlight-400 text-brand-900 ring-2 ring-highlight-400'
+      : 'decoration-brand-300 text-slate-700 hover:bg-brand-50';
+
+  return (
+    <div className="bg-white p-4 md:p-8 rounded-[2rem] shadow-lg border-b-4 border-slate-100">
+      <p className="text-slate-400 font-black uppercase text-[10px] mb-3 tracking-widest">TÌM LỖI SAI CÂU {index + 1}:</p>
+      <p className="text-lg md:text-xl font-bold leading-loose break-words">
+        {parts.map((part, i) => part.optionIndex === undefined
+          ? <span key={i} className="text-slate-700">{part.text} </span>
+          : (
+            <React.Fragment key={i}>
+              <button
+                onClick={() => update(part.optionIndex, typed)}
+                disabled={isSubmitted || isLocked}
+                className={`px-1 rounded-lg underline decoration-2 underline-offset-4 transition-all ${partColor(part.optionIndex)}`}
+              >
+                {part.text || '…'}
+                <sub className="inline-block ml-0.5 text-[10px] font-black text-slate-400">{String.fromCharCode(65 + part.optionIndex)}</sub>
+              </button>{' '}
+            </React.Fragment>
+          ))}
+      </p>
+
+      {!isSubmitted && (
+        <div className="mt-4 space-y-3">
+          {needsCorrection && (
+            <input
+              type="text"
+              value={typed}
+              onChange={e => update(picked, e.target.value)}
+              disabled={picked === undefined || isLocked}
+              placeholder={picked === undefined ? 'Chạm vào phần bị sai trước...' : `Sửa ${letter(picked)} thành...`}
+              className="w-full p-4 text-lg font-bold rounded-xl border-2 bg-white border-slate-200 outline-none transition-all focus:border-brand-400 focus:ring-2 focus:ring-brand-100 disabled:bg-slate-50"
+            />
+          )}
+          {!isExam && (
+            <button
+              onClick={check}
+              disabled={picked === undefined || (needsCorrection && !typed.trim())}
+              className="w-full py-3 rounded-xl font-bold text-white bg-brand-500 hover:bg-brand-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md"
+            >
+              ✅ Kiểm tra
+            </button>
+          )}
+        </div>
+      )}
+
+      {isSubmitted && (
+        <>
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm font-bold">
+            <p className={`p-3 rounded-xl ${answer?.pickCorrect ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+              {answer?.pickCorrect ? '✓' : '✗'} Tìm lỗi: {picked !== undefined ? letter(picked) : '-'}
+              {!answer?.pickCorrect && <span className="font-medium"> → lỗi ở {letter(q.correctOptionIndex)}</span>}
+            </p>
+            {needsCorrection && (
+              <p className={`p-3 rounded-xl ${answer?.correctionCorrect ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                {answer?.correctionCorrect ? '✓' : '✗'} Sửa lỗi: "{answer?.correction?.trim()}"
+                {!answer?.correctionCorrect && <span className="font-medium"> → "{q.correction}"</span>}
+              </p>
+            )}
+          </div>
+          <CollapsibleExplanation
+            isCorrect={answer?.isCorrect}
+            explanation={q.explanation || ''}
+            correctAnswer={needsCorrection ? `${letter(q.correctOptionIndex)} ${wrongPart} → ${q.correction}` : q.options?.[q.correctOptionIndex]}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// Zones whose wrong items come back in "practice my mistakes"; matching is left out because a
+// board of the leftover pairs gives the answers away
+const RETRY_ZONES: MegaZoneId[] = ['mc', 'fill', 'error', 'scramble', 'vocab', 'tf', 'listen'];
+
+interface RetryItem {
+  zone: MegaZoneId;
+  item: any;
+}
+
+// "Practice my mistakes": the wrong items one at a time, choice options shuffled again every
+// round. Items answered wrong again come back in the next round until all of them are right.
+const MistakeRetryRound: React.FC<{
+  items: RetryItem[];
+  trueFalsePassage?: string;
+  onAttempt: (zone: MegaZoneId, item: any, answer: any) => void;
+  onMastered: (itemId: string) => void;
+  onRoundStart: () => void;
+  onExit: () => void;
+}> = ({ items, trueFalsePassage, onAttempt, onMastered, onRoundStart, onExit }) => {
+  const [round, setRound] = useState(1);
+  const [queue, setQueue] = useState<RetryItem[]>(items);
+  const [position, setPosition] = useState(0);
+  const [missed, setMissed] = useState<RetryItem[]>([]);
+  const [answer, setAnswer] = useState<any>(undefined);
+  const [checked, setChecked] = useState(false);
+  const [showPassage, setShowPassage] = useState(false);
+
+  const current = queue[position];
+  const review = current && checked ? describeAnswer(current.zone, current.item, answer) : null;
+  const optionOrder = useMemo<number[]>(
+    () => (current?.item.options || []).length
+      ? shuffleWithRecheck(current.item.options.map((_: string, i: number) => i), generateSeed(`${current.item.id}:retry${round}`, SESSION_SEED))
+      : [],
+    [current, round]
+  );
+
+  if (!current) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 md:p-8 rounded-[2rem] shadow-lg text-center space-y-4 animate-fade-in">
+        <p className="text-5xl">🏆</p>
+        <h3 className="text-xl font-black text-brand-800">Con đã sửa hết các câu sai!</h3>
+        <p className="text-sm text-slate-500">Sau {round} vòng luyện lại, cả {items.length} câu đều đã đúng.</p>
+        <button onClick={onExit} className="px-6 py-3 rounded-xl font-bold text-white bg-brand-500 hover:bg-brand-600 shadow-md transition-all">
+          ← Quay lại bài
+        </button>
+      </div>
+    );
+  }
+
+  const { zone, item } = current;
+  const zoneInfo = MEGA_ZONES.find(z => z.id === zone);
+
+  const check = (value: any) => {
+    if (checked) return;
+    setAnswer(value);
+    setChecked(true);
+    onAttempt(zone, item, value);
+    if (describeAnswer(zone, item, value).isCorrect) onMastered(item.id);
+  };
+
+  const next = () => {
+    const stillMissed = review?.isCorrect ? missed : [...missed, current];
+    setAnswer(undefined);
+    setChecked(false);
+    setShowPassage(false);
+    if (position + 1 < queue.length) {
+      setMissed(stillMissed);
+      setPosition(position + 1);
+      return;
+    }
+    // End of the round: what was missed comes back, options shuffled again
+    setQueue(stillMissed);
+    setMissed([]);
+    setPosition(0);
+    if (stillMissed.length) {
+      setRound(round + 1);
+      onRoundStart();
+    }
+  };
+
+  const choiceClass = (isRight: boolean, isPicked: boolean) => checked
+    ? isRight
+      ? 'bg-green-100 border-green-500 text-green-700'
+      : isPicked
+        ? 'bg-red-100 border-red-500 text-red-700'
+        : 'bg-slate-50 opacity-50'
+    : 'bg-white border-slate-100 hover:border-brand-300 hover:bg-brand-50 active:scale-[0.98]';
+
+  // Letters follow the shuffled order, so the feedback names the option by its text
+  const correctText = ['mc', 'vocab', 'listen'].includes(zone) ? item.options?.[item.correctAnswer] : review?.correctAnswer;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-3 text-white">
+        <p className="font-black">
+          🔁 Vòng {round} · Câu {position + 1}/{queue.length}
+          <span className="ml-2 text-sm font-bold text-brand-200">{zoneInfo?.icon} {zoneInfo?.label}</span>
+        </p>
+        <button onClick={onExit} className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-bold">✕ Dừng</button>
+      </div>
+
+      {zone === 'error' ? (
+        <ErrorIdCard
+          key={`${item.id}-${round}`}
+          question={item}
+          index={position}
+          answer={answer}
+          isSubmitted={checked}
+          isExam={false}
+          isLocked={false}
+          onChange={setAnswer}
+          onCheck={check}
+        />
+      ) : (
+        <div className="bg-white p-4 md:p-8 rounded-[2rem] shadow-lg space-y-4">
+          {zone === 'mc' && <p className="text-lg font-black text-slate-800 break-words">{item.question}</p>}
+          {zone === 'vocab' && <p className="text-3xl md:text-4xl font-black text-slate-800 tracking-wide">{item.word}</p>}
+          {zone === 'listen' && (
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => playGeminiTTS(item.audioText)}
+                className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-600 text-white px-4 py-2 rounded-xl font-bold transition-all active:scale-95"
+              >
+                <span className="text-xl">🔊</span> Phát âm thanh
+              </button>
+              {item.cue && <CueButton cue={item.cue} />}
+            </div>
+          )}
+          {zone === 'tf' && (
+            <>
+              {trueFalsePassage && (
+                <button onClick={() => setShowPassage(!showPassage)} className="text-sm font-bold text-teal-600 hover:underline">
+                  📖 {showPassage ? 'Ẩn bài đọc' : 'Xem lại bài đọc'}
+                </button>
+              )}
+              {showPassage && <p className="p-4 rounded-xl bg-teal-50 text-slate-700 leading-relaxed whitespace-pre-line">{trueFalsePassage}</p>}
+              <p className="text-lg font-bold text-slate-800 leading-relaxed">{item.statement}</p>
+            </>
+          )}
+          {zone === 'fill' && <p className="text-lg md:text-xl font-bold text-slate-700 leading-relaxed break-words">{item.question}</p>}
+          {zone === 'scramble' && <p className="text-sm text-slate-600 font-medium">Chạm vào các từ để xếp thành câu hoàn chỉnh:</p>}
+
+          {['mc', 'vocab', 'listen'].includes(zone) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {optionOrder.map((optionIndex, i) => (
+                <button
+                  key={optionIndex}
+                  onClick={() => check(optionIndex)}
+                  disabled={checked}
+                  className={`p-4 rounded-xl border-2 font-bold text-left text-sm md:text-base transition-all ${choiceClass(optionIndex === item.correctAnswer, answer === optionIndex)}`}
+                >
+                  <span className="mr-3 text-slate-300">{String.fromCharCode(65 + i)}.</span> {item.options[optionIndex]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {zone === 'tf' && (
+            <div className="flex gap-4">
+              {[true, false].map(value => (
+                <button
+                  key={String(value)}
+                  onClick={() => check(value)}
+                  disabled={checked}
+                  className={`flex-1 p-4 rounded-xl border-2 font-black text-lg transition-all ${choiceClass(item.isTrue === value, answer === value)}`}
+                >
+                  {value ? '✓ TRUE' : '✗ FALSE'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {zone === 'fill' && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={answer?.userAnswer || ''}
+                onChange={e => !checked && setAnswer({ userAnswer: e.target.value })}
+                disabled={checked}
+                placeholder="Nhập đáp án của bạn..."
+                className="w-full p-4 text-lg font-bold rounded-xl border-2 bg-white border-slate-200 outline-none transition-all focus:border-brand-400 focus:ring-2 focus:ring-brand-100"
+              />
+              {!checked && (
+                <button
+                  onClick={() => check({ userAnswer: (answer?.userAnswer || '').trim(), isCorrect: isFillAnswerCorrect(item, answer?.userAnswer || '') })}
+                  disabled={!answer?.userAnswer?.trim()}
+                  className="w-full py-3 rounded-xl font-bold text-white bg-brand-500 hover:bg-brand-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md"
+                >
+                  ✅ Kiểm tra
+                </button>
+              )}
+            </div>
+          )}
+
+          {zone === 'scramble' && (
+            <WordBankFill
+              key={`${item.id}-${round}`}
+              questionId={item.id}
+              wordBank={item.scrambled?.length ? item.scrambled : parseIntoTokens(item.correctSentence)}
+              correctTokens={parseIntoTokens(item.correctSentence)}
+              mode="arrange_words"
+              disabled={checked}
+              showResult={checked}
+              sessionSeed={`${SESSION_SEED}-retry${round}`}
+              onComplete={check}
+            />
+          )}
+
+          {checked && review && (
+            <CollapsibleExplanation isCorrect={review.isCorrect} explanation={review.explanation} correctAnswer={correctText} />
+          )}
+        </div>
+      )}
+
+      {checked && (
+        <button onClick={next} className="w-full py-3 rounded-xl font-black text-brand-900 bg-highlight-400 hover:bg-highlight-300 shadow-lg transition-all">
+          {position + 1 < queue.length ? 'Câu tiếp theo →' : review?.isCorrect && missed.length === 0 ? '🏁 Hoàn thành' : 'Sang vòng tiếp →'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listeningData, onScoresUpdate, onMasteryUpdate, onAttemptsUpdate }) => {
+  const [activeZone, setActiveZone] = useState<MegaZoneId>('mc');
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [submitted, setSubmitted] = useState<Record<string, boolean>>({});
+  const [round, setRound] = useState(0); // bumped on reset so word banks and the matching board start clean
+
+  // Exam mode: answers stay hidden until the test is handed in, by the student or by the clock
+  const [mode, setMode] = useState<'practice' | 'exam'>('practice');
+  const [examPhase, setExamPhase] = useState<'setup' | 'running' | 'finished'>('setup');
+  const [examSettings, setExamSettings] = useState<ExamSettings>(getSavedExamSettings);
+  const [timeLeft, setTimeLeft] = useState<Partial<Record<MegaZoneId | 'all', number>>>({}); // seconds
+  const [timedOut, setTimedOut] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+
+  // "Practice my mistakes": the first-try answers above stay as they are, the retry round only
+  // records which wrong items were later answered right and how many rounds it took
+  const [retryOpen, setRetryOpen] = useState(false);
+  const [retryMastered, setRetryMastered] = useState<string[]>([]);
+  const [retryRounds, setRetryRounds] = useState(0);
+
+  // Every try at every question for the history record. Time runs from the previous answer
+  // (or from opening a zone) and is put on the question answered, so in an exam the time of
+  // all changes to one answer adds up until the test is handed in.
+  const [attempts, setAttempts] = useState<QuestionAttempt[]>([]);
+  const clockRef = useRef(Date.now());
+  const spentRef = useRef<Record<string, number>>({});
+
+  // A lesson only has the exercise types of its blueprint; empty zones are not shown
+  const zones = MEGA_ZONES
+    .map(zone => ({ ...zone, count: getZoneItems(zone.id, megaData, listeningData).length }))
+    .filter(z => z.count > 0);
+
+  const isExam = mode === 'exam';
+  const examRunning = isExam && examPhase === 'running';
+  const clockKey: MegaZoneId | 'all' = examSettings.timing === 'total' ? 'all' : activeZone;
+  const isZoneLocked = (zone: MegaZoneId) => examRunning && examSettings.timing === 'perZone' && (timeLeft[zone] ?? 0) <= 0;
+  const locked = isZoneLocked(activeZone);
+  const showZones = !retryOpen && (!isExam || examPhase === 'running' || (examPhase === 'finished' && !showReview));
+
+  useEffect(() => {
+    if (zones.length > 0 && !zones.some(z => z.id === activeZone)) {
+      setActiveZone(zones[0].id);
+    }
+  }, [megaData, listeningData]);
 
-  const normalizeStrict = (s: string) => {
-    return String(s || "")
-      .toLowerCase()
-      .replace(/[.,/#!$%^&*;:{}=\-_`~()?]/g, "")
-      .replace(/\s+/g, " ")
-      .trim();
+  const chargeTime = (qId: string) => {
+    const now = Date.now();
+    spentRef.current[qId] = (spentRef.current[qId] || 0) + now - clockRef.current;
+    clockRef.current = now;
+  };
+
+  const takeTime = (qId: string) => {
+    const spent = spentRef.current[qId] || 0;
+    spentRef.current[qId] = 0;
+    return spent;
+  };
+
+  const recordAttempts = (tries: { zone: MegaZoneId; item: any; answer: any; timeMs: number }[]) =>
+    setAttempts(prev => tries.reduce((log, { zone, item, answer, timeMs }) => [
+      ...log,
+      buildAttempt(zone, item, answer, log.filter(a => a.questionId === item.id && a.zone === zone).length + 1, timeMs, megaData?.matching),
+    ], prev));
+
+  const recordAttempt = (zone: MegaZoneId, item: any, answer: any) => {
+    chargeTime(item.id);
+    recordAttempts([{ zone, item, answer, timeMs: takeTime(item.id) }]);
   };
 
   const handleAnswer = (qId: string, val: any) => {
-    if (submitted[qId]) return;
+    if (submitted[qId] || locked) return;
+    chargeTime(qId);
     setAnswers(prev => ({ ...prev, [qId]: val }));
   };
 
-  const checkFinal = (qId: string, isCorrect: boolean) => {
+  // Practice reveals each answer at once; an exam keeps it until the whole test is handed in
+  const checkFinal = (qId: string, answer: any) => {
+    if (isExam) return;
+    const found = allItems.find(({ zone, item }) => zone === activeZone && item.id === qId);
+    if (found) recordAttempt(found.zone, found.item, answer);
     setSubmitted(prev => ({ ...prev, [qId]: true }));
   };
 
-  const calculateZoneScore = (zone: string) => {
-    let correct = 0;
-    if (!megaData) return 0;
-    if (zone === 'mc') {
-      (megaData.multipleChoice || []).forEach(q => { if (submitted[q.id] && answers[q.id] === q.correctAnswer) correct++; });
-    } else if (zone === 'fill') {
-      (megaData.fillBlank || []).forEach(q => {
-        if (submitted[q.id]) {
-          const result = answers[q.id];
-          if (result?.isCorrect) correct++;
-        }
-      });
-    } else if (zone === 'scramble') {
-      (megaData.scramble || []).forEach(q => {
-        if (submitted[q.id]) {
-          const result = answers[q.id];
-          if (result?.isCorrect) correct++;
-        }
-      });
-    } else if (zone === 'vocab') {
-      (megaData.vocabTranslation || []).forEach(q => {
-        if (submitted[q.id] && answers[q.id] === q.correctAnswer) correct++;
-      });
-    } else if (zone === 'tf') {
-      (megaData.trueFalse || []).forEach(q => {
-        if (submitted[q.id] && answers[q.id] === q.isTrue) correct++;
-      });
-    } else if (zone === 'listen') {
-      (listeningData || []).forEach(q => {
-        if (submitted[q.id] && answers[q.id] === q.correctAnswer) correct++;
-      });
-    }
-    return correct;
+  const allItems = zones.flatMap(z => getZoneItems(z.id, megaData, listeningData).map(item => ({ zone: z.id, item })));
+  const answeredCount = allItems.filter(({ zone, item }) => describeAnswer(zone, item, answers[item.id], megaData?.matching).givenAnswer).length;
+
+  const resetAnswers = () => {
+    setAnswers({});
+    setSubmitted({});
+    setRound(r => r + 1);
+    setTimedOut(false);
+    setShowReview(false);
+    setRetryOpen(false);
+    setRetryMastered([]);
+    setRetryRounds(0);
+    setAttempts([]);
+    spentRef.current = {};
+    clockRef.current = Date.now();
+  };
+
+  const isFinished = allItems.length > 0 && allItems.every(({ item }) => submitted[item.id]);
+  const wrongItems = allItems.filter(({ zone, item }) =>
+    RETRY_ZONES.includes(zone) && submitted[item.id] && !describeAnswer(zone, item, answers[item.id]).isCorrect);
+  const pendingRetry = wrongItems.filter(({ item }) => !retryMastered.includes(item.id));
+
+  // Only what is still wrong goes into a new retry; a round already under way keeps its own queue
+  const startRetry = () => {
+    if (pendingRetry.length === 0) return;
+    clockRef.current = Date.now();
+    setRetryRounds(r => r + 1);
+    setRetryOpen(true);
+    setShowReview(false);
+  };
+
+  const switchMode = (next: 'practice' | 'exam') => {
+    if (next === mode) return;
+    if (answeredCount > 0 && !window.confirm('Đổi chế độ sẽ xoá các câu con đã làm. Tiếp tục?')) return;
+    resetAnswers();
+    setMode(next);
+    setExamPhase('setup');
+  };
+
+  const startExam = () => {
+    if (zones.length === 0) return;
+    saveExamSettings(examSettings);
+    resetAnswers();
+    const seconds = examSettings.minutes * 60;
+    setTimeLeft(examSettings.timing === 'total' ? { all: seconds } : Object.fromEntries(zones.map(z => [z.id, seconds])));
+    setActiveZone(zones[0].id);
+    setExamPhase('running');
+  };
+
+  // Every item counts as handed in, so blanks are graded as wrong
+  const finishExam = (byClock: boolean) => {
+    recordAttempts(allItems.map(({ zone, item }) => ({ zone, item, answer: answers[item.id], timeMs: takeTime(item.id) })));
+    setSubmitted(Object.fromEntries(allItems.map(({ item }) => [item.id, true])));
+    setExamPhase('finished');
+    setTimedOut(byClock);
+    setShowReview(true);
+  };
+
+  const handInExam = () => {
+    const blank = allItems.length - answeredCount;
+    if (blank > 0 && !window.confirm(`Con còn ${blank} câu chưa làm. Nộp bài luôn nhé?`)) return;
+    finishExam(false);
   };
 
+  useEffect(() => {
+    if (!examRunning) return;
+    const timer = setInterval(() => {
+      setTimeLeft(prev => ({ ...prev, [clockKey]: Math.max(0, (prev[clockKey] ?? 0) - 1) }));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [examRunning, clockKey]);
+
+  // Out of time: the test is handed in, or (per-zone limits) the zone locks and the next one with time left opens
+  useEffect(() => {
+    if (!examRunning || (timeLeft[clockKey] ?? 0) > 0) return;
+    const next = examSettings.timing === 'perZone' && zones.find(z => (timeLeft[z.id] ?? 0) > 0);
+    if (next) setActiveZone(next.id);
+    else finishExam(true);
+  }, [timeLeft, examRunning, clockKey]);
+
+  const calculateZoneScore = (zone: MegaZoneId) => getZoneItems(zone, megaData, listeningData)
+    .filter(item => submitted[item.id] && describeAnswer(zone, item, answers[item.id], megaData?.matching).isCorrect)
+    .length;
+
   useEffect(() => {
     if (onScoresUpdate) {
       onScoresUpdate({
@@ -134,36 +707,138 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
         fill: calculateZoneScore('fill'),
         vocab: calculateZoneScore('vocab'),
         tf: calculateZoneScore('tf'),
-        listen: calculateZoneScore('listen')
+        listen: calculateZoneScore('listen'),
+        match: calculateZoneScore('match'),
+        error: calculateZoneScore('error')
       });
     }
   }, [submitted, megaData, listeningData]);
 
+  useEffect(() => {
+    if (onMasteryUpdate) {
+      onMasteryUpdate(retryRounds > 0 ? { mastered: retryMastered.length, rounds: retryRounds } : null);
+    }
+  }, [retryMastered, retryRounds]);
+
+  useEffect(() => {
+    if (onAttemptsUpdate) onAttemptsUpdate(attempts);
+  }, [attempts]);
+
   if (!megaData) return null;
 
+  const openZone = (zone: MegaZoneId) => {
+    if (isZoneLocked(zone)) return;
+    clockRef.current = Date.now(); // time spent looking around the tabs is nobody's
+    setActiveZone(zone);
+    setShowReview(false);
+  };
+
+  // A picked option before the answers are shown (exam mode)
+  const selectedChoice = 'bg-yellow-50 border-highlight-400 text-brand-900';
+
   return (
     <div className="bg-brand-900 rounded-[3rem] shadow-xl border-[8px] border-brand-800 overflow-hidden mb-12 font-sans">
       <div className="bg-brand-800 p-6 text-center border-b-2 border-brand-700">
         <h2 className="text-xl md:text-2xl font-black text-white uppercase italic mb-4 tracking-tighter">🚀 MEGA CHALLENGES 🚀</h2>
+        {!examRunning && (
+          <div className="inline-flex p-1 mb-4 rounded-xl bg-brand-900/60">
+            {([['practice', '🎯 Luyện tập'], ['exam', '⏱️ Kiểm tra']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => switchMode(id)}
+                className={`px-4 py-2 rounded-lg text-sm font-black transition-all ${mode === id ? 'bg-white text-brand-800 shadow' : 'text-brand-200 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {examRunning && (
+          <div className="flex flex-wrap items-center justify-center gap-3 mb-4">
+            <span className={`px-4 py-2 rounded-xl font-black text-lg tabular-nums ${(timeLeft[clockKey] ?? 0) <= 60 ? 'bg-red-500 text-white animate-pulse' : 'bg-white text-brand-800'}`}>
+              ⏱️ {formatCountdown(timeLeft[clockKey] ?? 0)}
+            </span>
+            <span className="text-sm font-bold text-brand-200">
+              {examSettings.timing === 'perZone' ? 'Thời gian phần này · ' : ''}Đã làm {answeredCount}/{allItems.length} câu
+            </span>
+            <button onClick={handInExam} className="px-4 py-2 rounded-xl bg-highlight-400 hover:bg-highlight-300 text-brand-900 font-black text-sm shadow-lg transition-all">
+              📤 Nộp bài
+            </button>
+          </div>
+        )}
         <div className="flex flex-wrap justify-center gap-2">
-          {[
-            { id: 'mc', label: 'Quiz', icon: '📝', count: megaData.multipleChoice?.length || 0 },
-            { id: 'fill', label: 'Điền từ', icon: '✏️', count: megaData.fillBlank?.length || 0 },
-            { id: 'scramble', label: 'Sắp xếp', icon: '🧩', count: megaData.scramble?.length || 0 },
-            { id: 'vocab', label: 'Dịch nghĩa', icon: '📚', count: megaData.vocabTranslation?.length || 0 },
-            { id: 'tf', label: 'True/False', icon: '✅', count: megaData.trueFalse?.length || 0 },
-            { id: 'listen', label: 'Nghe', icon: '🎧', count: listeningData?.length || 0 },
-          ].map(z => (
-            <button key={z.id} onClick={() => setActiveZone(z.id as any)} className={`px-4 py-3 rounded-xl font-black text-sm flex items-center gap-2 transition-all ${activeZone === z.id ? 'bg-highlight-400 text-brand-900 scale-105 shadow-lg ring-2 ring-white/20' : 'bg-brand-700 text-brand-200 hover:bg-brand-600'}`}>
+          {zones.map(z => (
+            <button key={z.id} onClick={() => openZone(z.id)} disabled={isZoneLocked(z.id)} className={`px-4 py-3 rounded-xl font-black text-sm flex items-center gap-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${activeZone === z.id && showZones ? 'bg-highlight-400 text-brand-900 scale-105 shadow-lg ring-2 ring-white/20' : 'bg-brand-700 text-brand-200 hover:bg-brand-600'}`}>
               <span className="text-xl">{z.icon}</span> {z.count} {z.label}
+              {examRunning && examSettings.timing === 'perZone' && (
+                <span className="text-[10px] font-bold tabular-nums">{isZoneLocked(z.id) ? '🔒' : formatCountdown(timeLeft[z.id] ?? 0)}</span>
+              )}
             </button>
           ))}
         </div>
       </div>
 
-      <div className="p-4 md:p-8 bg-white/5">
+      <div key={round} className="p-4 md:p-8 bg-white/5">
+        {isExam && examPhase === 'setup' && (
+          <ExamSetupPanel
+            settings={examSettings}
+            onChange={setExamSettings}
+            questionCount={allItems.length}
+            zoneCount={zones.length}
+            onStart={startExam}
+            onCancel={() => switchMode('practice')}
+          />
+        )}
+
+        {isExam && examPhase === 'finished' && showReview && (
+          <ExamReview
+            items={buildReviewItems(zones.map(z => z.id), megaData, listeningData, answers)}
+            timedOut={timedOut}
+            onBackToZones={() => setShowReview(false)}
+            onRetake={() => { resetAnswers(); setExamPhase('setup'); }}
+          />
+        )}
+
+        {isExam && examPhase === 'finished' && !showReview && (
+          <div className="max-w-4xl mx-auto mb-6 text-center">
+            <button onClick={() => setShowReview(true)} className="px-4 py-2 rounded-xl bg-white text-brand-800 font-black text-sm shadow">
+              📋 Xem bảng kết quả
+            </button>
+          </div>
+        )}
+
+        {isFinished && wrongItems.length > 0 && !retryOpen && (
+          <div className="max-w-4xl mx-auto mb-6 p-4 rounded-2xl bg-white/10 flex flex-wrap items-center justify-center gap-3 text-center">
+            {pendingRetry.length > 0 ? (
+              <>
+                <span className="text-sm font-bold text-brand-100">
+                  Con còn {pendingRetry.length} câu sai{retryRounds > 0 ? ` (đã sửa ${retryMastered.length}/${wrongItems.length})` : ''}.
+                </span>
+                <button onClick={startRetry} className="px-4 py-2 rounded-xl bg-highlight-400 hover:bg-highlight-300 text-brand-900 font-black text-sm shadow-lg transition-all">
+                  🔁 Luyện lại câu sai
+                </button>
+              </>
+            ) : (
+              <span className="text-sm font-black text-green-300">
+                🏆 Con đã sửa hết {wrongItems.length} câu sai sau {retryRounds} vòng luyện lại.
+              </span>
+            )}
+          </div>
+        )}
+
+        {retryOpen && (
+          <MistakeRetryRound
+            items={pendingRetry}
+            trueFalsePassage={megaData.trueFalsePassage}
+            onAttempt={recordAttempt}
+            onMastered={id => setRetryMastered(prev => (prev.includes(id) ? prev : [...prev, id]))}
+            onRoundStart={() => setRetryRounds(r => r + 1)}
+            onExit={() => setRetryOpen(false)}
+          />
+        )}
+
         {/* Multiple Choice Section */}
-        {activeZone === 'mc' && (
+        {showZones && activeZone === 'mc' && (
           <div className="space-y-6 animate-fade-in max-w-4xl mx-auto">
             {(megaData.multipleChoice || []).map((q, idx) => (
               <div key={q.id} className="bg-white p-4 md:p-6 rounded-[2rem] shadow-lg border-2 border-slate-50 transition-all hover:border-brand-200">
@@ -175,15 +850,17 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                   {(q.options || []).map((opt, i) => (
                     <button
                       key={i}
-                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i === q.correctAnswer); }}
-                      disabled={submitted[q.id]}
+                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i); }}
+                      disabled={submitted[q.id] || locked}
                       className={`p-4 rounded-xl border-2 font-bold text-left text-sm md:text-base transition-all ${submitted[q.id]
                         ? i === q.correctAnswer
                           ? 'bg-green-100 border-green-500 text-green-700'
                           : answers[q.id] === i
                             ? 'bg-red-100 border-red-500 text-red-700'
                             : 'bg-slate-50 opacity-50'
-                        : 'bg-white border-slate-50 hover:border-brand-300 hover:bg-brand-50 active:scale-[0.98]'
+                        : answers[q.id] === i
+                          ? selectedChoice
+                          : 'bg-white border-slate-50 hover:border-brand-300 hover:bg-brand-50 active:scale-[0.98]'
                         }`}
                     >
                       <span className="mr-3 text-slate-300">{String.fromCharCode(65 + i)}.</span> {opt}
@@ -203,7 +880,7 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
         )}
 
         {/* Fill-in-the-Blank Section - TEXT INPUT */}
-        {activeZone === 'fill' && (
+        {showZones && activeZone === 'fill' && (
           <div className="space-y-8 animate-fade-in max-w-4xl mx-auto">
             {(megaData.fillBlank || []).map((q, idx) => {
               const isSubmitted = submitted[q.id];
@@ -217,6 +894,7 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                     <div className="flex-1">
                       <p className="text-slate-400 font-black uppercase text-[10px] mb-2 tracking-widest">ĐIỀN TỪ CÂU {idx + 1}:</p>
                       <p className="text-lg md:text-xl font-bold text-slate-700 leading-relaxed break-words">{q.question}</p>
+                      {q.cue && <div className="mt-2"><CueButton cue={q.cue} /></div>}
                     </div>
                   </div>
 
@@ -227,10 +905,10 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                       value={answers[q.id]?.userAnswer || ''}
                       onChange={(e) => {
                         if (!isSubmitted) {
-                          handleAnswer(q.id, { userAnswer: e.target.value, isCorrect: false });
+                          handleAnswer(q.id, { userAnswer: e.target.value, isCorrect: isFillAnswerCorrect(q, e.target.value) });
                         }
                       }}
-                      disabled={isSubmitted}
+                      disabled={isSubmitted || locked}
                       placeholder="Nhập đáp án của bạn..."
                       className={`w-full p-4 text-lg font-bold rounded-xl border-2 transition-all outline-none ${isSubmitted
                         ? isCorrect
@@ -240,16 +918,14 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                         }`}
                     />
 
-                    {!isSubmitted && (
+                    {!isSubmitted && !isExam && (
                       <button
                         onClick={() => {
                           const userAnswer = (answers[q.id]?.userAnswer || '').trim();
-                          const normalizedUser = normalizeStrict(userAnswer);
                           // Check against correctAnswer AND alternativeAnswers
-                          const allCorrectAnswers = [q.correctAnswer, ...(q.alternativeAnswers || [])];
-                          const correct = allCorrectAnswers.some(ans => normalizeStrict(ans) === normalizedUser);
+                          const correct = isFillAnswerCorrect(q, userAnswer);
                           handleAnswer(q.id, { userAnswer, isCorrect: correct });
-                          checkFinal(q.id, correct);
+                          checkFinal(q.id, { userAnswer, isCorrect: correct });
                         }}
                         disabled={!answers[q.id]?.userAnswer?.trim()}
                         className="w-full py-3 rounded-xl font-bold text-white bg-brand-500 hover:bg-brand-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md"
@@ -273,8 +949,34 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
           </div>
         )}
 
+        {/* Error Identification Section - PICK THE WRONG PART, THEN CORRECT IT */}
+        {showZones && activeZone === 'error' && (
+          <div className="space-y-8 animate-fade-in max-w-4xl mx-auto">
+            <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4 rounded-2xl text-center">
+              <h3 className="text-lg font-black">🔍 Tìm và sửa lỗi sai</h3>
+              <p className="text-sm opacity-90">Chạm vào phần gạch chân bị sai, rồi gõ lại cho đúng</p>
+            </div>
+            {(megaData.errorId || []).map((q, idx) => (
+              <ErrorIdCard
+                key={q.id}
+                question={q}
+                index={idx}
+                answer={answers[q.id]}
+                isSubmitted={submitted[q.id]}
+                isExam={isExam}
+                isLocked={locked}
+                onChange={answer => handleAnswer(q.id, answer)}
+                onCheck={answer => {
+                  handleAnswer(q.id, answer);
+                  checkFinal(q.id, answer);
+                }}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Scramble/Arrange Words Section - TAP TO BUILD SENTENCE */}
-        {activeZone === 'scramble' && (
+        {showZones && activeZone === 'scramble' && (
           <div className="space-y-8 animate-fade-in max-w-4xl mx-auto">
             {(megaData.scramble || []).map((q, idx) => {
               const result = answers[q.id];
@@ -314,15 +1016,20 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                     wordBank={wordBank}
                     correctTokens={correctTokens}
                     mode="arrange_words"
-                    disabled={isSubmitted}
+                    disabled={isSubmitted || locked}
                     showResult={isSubmitted}
                     sessionSeed={SESSION_SEED}
+                    submitLabel={isExam ? '💾 Lưu câu trả lời' : undefined}
                     onComplete={(res) => {
                       handleAnswer(q.id, res);
-                      checkFinal(q.id, res.isCorrect);
+                      checkFinal(q.id, res);
                     }}
                   />
 
+                  {isExam && !isSubmitted && result && (
+                    <p className="mt-3 text-sm font-bold text-brand-600 break-words">💾 Đã lưu: {result.userAnswer}</p>
+                  )}
+
                   {isSubmitted && (
                     <CollapsibleExplanation
                       isCorrect={result?.isCorrect}
@@ -338,7 +1045,7 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
         )}
 
         {/* Vocabulary Translation Section - Dịch nghĩa Anh-Việt */}
-        {activeZone === 'vocab' && (
+        {showZones && activeZone === 'vocab' && (
           <div className="space-y-6 animate-fade-in max-w-4xl mx-auto">
             <div className="bg-gradient-to-r from-purple-500 to-indigo-600 text-white p-4 rounded-2xl mb-6 text-center">
               <h3 className="text-lg font-black">📚 Bài tập dịch nghĩa</h3>
@@ -354,15 +1061,17 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                   {(q.options || []).map((opt, i) => (
                     <button
                       key={i}
-                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i === q.correctAnswer); }}
-                      disabled={submitted[q.id]}
+                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i); }}
+                      disabled={submitted[q.id] || locked}
                       className={`p-4 rounded-xl border-2 font-bold text-left text-sm md:text-base transition-all ${submitted[q.id]
                         ? i === q.correctAnswer
                           ? 'bg-green-100 border-green-500 text-green-700'
                           : answers[q.id] === i
                             ? 'bg-red-100 border-red-500 text-red-700'
                             : 'bg-slate-50 opacity-50'
-                        : 'bg-white border-slate-50 hover:border-purple-300 hover:bg-purple-50 active:scale-[0.98]'
+                        : answers[q.id] === i
+                          ? selectedChoice
+                          : 'bg-white border-slate-50 hover:border-purple-300 hover:bg-purple-50 active:scale-[0.98]'
                         }`}
                     >
                       <span className="mr-3 text-slate-300">{String.fromCharCode(65 + i)}.</span> {opt}
@@ -381,8 +1090,36 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
           </div>
         )}
 
+        {/* Matching Section - Nối từ với nghĩa */}
+        {showZones && activeZone === 'match' && (
+          <div className="space-y-6 animate-fade-in max-w-4xl mx-auto">
+            <div className="bg-gradient-to-r from-pink-500 to-rose-500 text-white p-4 rounded-2xl text-center">
+              <h3 className="text-lg font-black">🔗 Nối từ với nghĩa</h3>
+              <p className="text-sm opacity-90">Chạm vào một từ rồi chạm vào nghĩa của nó (hoặc kéo từ thả vào nghĩa)</p>
+            </div>
+            <MatchingBoard
+              pairs={megaData.matching || []}
+              answers={answers}
+              submitted={submitted}
+              isExam={isExam}
+              isLocked={locked}
+              onMiss={(pairId, rightId) => {
+                handleAnswer(pairId, { ...answers[pairId], missed: true });
+                const pair = megaData.matching?.find(p => p.id === pairId);
+                if (pair) recordAttempt('match', pair, { rightId, isCorrect: false });
+              }}
+              onMatch={(pairId, rightId, isRight) => {
+                handleAnswer(pairId, { rightId, isCorrect: isRight && !answers[pairId]?.missed });
+                // The log keeps this try as it was; the score above still counts the earlier miss
+                checkFinal(pairId, { rightId, isCorrect: isRight });
+              }}
+              onClear={pairId => handleAnswer(pairId, undefined)}
+            />
+          </div>
+        )}
+
         {/* True/False Reading Comprehension Section */}
-        {activeZone === 'tf' && (
+        {showZones && activeZone === 'tf' && (
           <div className="space-y-6 animate-fade-in max-w-4xl mx-auto">
             {/* Reading Passage */}
             {megaData.trueFalsePassage && (
@@ -410,29 +1147,33 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                 <p className="text-base md:text-lg font-bold text-slate-800 mb-4 leading-relaxed">{q.statement}</p>
                 <div className="flex gap-4">
                   <button
-                    onClick={() => { handleAnswer(q.id, true); checkFinal(q.id, q.isTrue === true); }}
-                    disabled={submitted[q.id]}
+                    onClick={() => { handleAnswer(q.id, true); checkFinal(q.id, true); }}
+                    disabled={submitted[q.id] || locked}
                     className={`flex-1 p-4 rounded-xl border-2 font-black text-lg transition-all ${submitted[q.id]
                       ? q.isTrue === true
                         ? 'bg-green-100 border-green-500 text-green-700'
                         : answers[q.id] === true
                           ? 'bg-red-100 border-red-500 text-red-700'
                           : 'bg-slate-50 opacity-50'
-                      : 'bg-white border-slate-50 hover:border-green-300 hover:bg-green-50 active:scale-[0.98]'
+                      : answers[q.id] === true
+                        ? selectedChoice
+                        : 'bg-white border-slate-50 hover:border-green-300 hover:bg-green-50 active:scale-[0.98]'
                       }`}
                   >
                     ✓ TRUE
                   </button>
                   <button
-                    onClick={() => { handleAnswer(q.id, false); checkFinal(q.id, q.isTrue === false); }}
-                    disabled={submitted[q.id]}
+                    onClick={() => { handleAnswer(q.id, false); checkFinal(q.id, false); }}
+                    disabled={submitted[q.id] || locked}
                     className={`flex-1 p-4 rounded-xl border-2 font-black text-lg transition-all ${submitted[q.id]
                       ? q.isTrue === false
                         ? 'bg-green-100 border-green-500 text-green-700'
                         : answers[q.id] === false
                           ? 'bg-red-100 border-red-500 text-red-700'
                           : 'bg-slate-50 opacity-50'
-                      : 'bg-white border-slate-50 hover:border-red-300 hover:bg-red-50 active:scale-[0.98]'
+                      : answers[q.id] === false
+                        ? selectedChoice
+                        : 'bg-white border-slate-50 hover:border-red-300 hover:bg-red-50 active:scale-[0.98]'
                       }`}
                   >
                     ✗ FALSE
@@ -451,7 +1192,7 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
         )}
 
         {/* Listening Comprehension Section */}
-        {activeZone === 'listen' && (
+        {showZones && activeZone === 'listen' && (
           <div className="space-y-6 animate-fade-in max-w-4xl mx-auto">
             <div className="bg-gradient-to-r from-cyan-500 to-blue-600 text-white p-4 rounded-2xl mb-6 text-center">
               <h3 className="text-lg font-black">🎧 Bài tập Nghe hiểu</h3>
@@ -459,7 +1200,7 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
             </div>
             {(listeningData || []).map((q, idx) => (
               <div key={q.id} className="bg-white p-4 md:p-6 rounded-[2rem] shadow-lg border-2 border-slate-50 transition-all hover:border-cyan-200">
-                <div className="flex items-center gap-4 mb-4">
+                <div className="flex flex-wrap items-center gap-4 mb-4">
                   <span className="bg-cyan-100 text-cyan-600 px-3 py-1 rounded-lg font-bold text-sm">Câu {idx + 1}</span>
                   <button
                     onClick={() => playGeminiTTS(q.audioText)}
@@ -467,20 +1208,23 @@ export const MegaChallenge: React.FC<MegaChallengeProps> = ({ megaData, listenin
                   >
                     <span className="text-xl">🔊</span> Phát âm thanh
                   </button>
+                  {q.cue && <CueButton cue={q.cue} />}
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   {(q.options || []).map((opt, i) => (
                     <button
                       key={i}
-                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i === q.correctAnswer); }}
-                      disabled={submitted[q.id]}
+                      onClick={() => { handleAnswer(q.id, i); checkFinal(q.id, i); }}
+                      disabled={submitted[q.id] || locked}
                       className={`p-4 rounded-xl border-2 font-bold text-left text-sm md:text-base transition-all ${submitted[q.id]
                         ? i === q.correctAnswer
                           ? 'bg-green-100 border-green-500 text-green-700'
                           : answers[q.id] === i
                             ? 'bg-red-100 border-red-500 text-red-700'
                             : 'bg-slate-50 opacity-50'
-                        : 'bg-white border-slate-50 hover:border-cyan-300 hover:bg-cyan-50 active:scale-[0.98]'
+                        : answers[q.id] === i
+                          ? selectedChoice
+                          : 'bg-white border-slate-50 hover:border-cyan-300 hover:bg-cyan-50 active:scale-[0.98]'
                         }`}
                     >
                       <span className="mr-3 text-slate-300">{String.fromCharCode(65 + i)}.</span> {opt}
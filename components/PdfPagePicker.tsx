@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PdfSelection, MAX_PDF_IMAGE_PAGES, loadPdf, renderPdfThumbnail, extractPdfText } from '../utils/pdfPages';
+
+interface PdfPagePickerProps {
+    file: File | null;
+    onFileSelect: (file: File | null) => void;
+    selection: PdfSelection;
+    onSelectionChange: (selection: PdfSelection) => void;
+    isLoading: boolean;
+}
+
+const THUMBNAILS_PER_BATCH = 24;
+
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, onFileSelect, selection, onSelectionChange, isLoading }) => {
+    const [pageCount, setPageCount] = useState(0);
+    const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+    const [visibleCount, setVisibleCount] = useState(THUMBNAILS_PER_BATCH);
+    const [textLength, setTextLength] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Open the document; the first page is preselected
+    useEffect(() => {
+        setPageCount(0);
+        setThumbnails({});
+        setVisibleCount(THUMBNAILS_PER_BATCH);
+        setError(null);
+        if (!file) return;
+        let cancelled = false;
+        loadPdf(file)
+            .then(pdf => {
+                if (cancelled) return;
+                setPageCount(pdf.numPages);
+                onSelectionChange({ ...selection, pages: [1] });
+            })
+            .catch(err => { if (!cancelled) setError(err.message); });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    // Thumbnails one by one, only for the pages on screen
+    useEffect(() => {
+        if (!file || !pageCount) return;
+        let cancelled = false;
+        (async () => {
+            const pdf = await loadPdf(file);
+            for (let page = 1; page <= Math.min(visibleCount, pageCount) && !cancelled; page++) {
+                if (thumbnails[page]) continue;
+                const url = await renderPdfThumbnail(pdf, page).catch(() => '');
+                if (!cancelled) setThumbnails(prev => ({ ...prev, [page]: url }));
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [file, pageCount, visibleCount]);
+
+    // How much real text the chosen pages carry (a scanned PDF has none)
+    useEffect(() => {
+        setTextLength(null);
+        if (!file || !pageCount || !selection.pages.length) return;
+        let cancelled = false;
+        loadPdf(file)
+            .then(pdf => extractPdfText(pdf, selection.pages))
+            .then(text => { if (!cancelled) setTextLength(text.length); })
+            .catch(() => { if (!cancelled) setTextLength(0); });
+        return () => { cancelled = true; };
+    }, [file, pageCount, selection.pages]);
+
+    const togglePage = (page: number) => {
+        const pages = selection.pages.includes(page)
+            ? selection.pages.filter(p => p !== page)
+            : [...selection.pages, page].sort((a, b) => a - b);
+        onSelectionChange({ ...selection, pages });
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const chosen = e.target.files?.[0];
+        e.target.value = '';
+        if (chosen) onFileSelect(chosen);
+    };
+
+    if (!file) {
+        return (
+            <div
+                onClick={() => !isLoading && fileInputRef.current?.click()}
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => {
+                    e.preventDefault();
+                    const dropped = Array.from(e.dataTransfer.files).find(f => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf'));
+                    if (dropped) onFileSelect(dropped);
+                }}
+                className="border-4 border-dashed rounded-3xl p-10 text-center cursor-pointer border-blue-300 bg-blue-50 hover:bg-blue-100 hover:border-blue-400 transition-all"
+            >
+                <input ref={fileInputRef} type="file" accept="application/pdf,.pdf" className="hidden" onChange={handleFileChange} />
+                <div className="w-20 h-20 mx-auto bg-white rounded-full shadow-md flex items-center justify-center text-4xl mb-4">📄</div>
+                <p className="text-xl font-bold text-blue-900">Thả file PDF sách giáo khoa vào đây</p>
+                <p className="text-sm text-blue-600 font-medium">hoặc bấm để chọn file</p>
+            </div>
+        );
+    }
+
+    const imagePages = Math.min(selection.pages.length, MAX_PDF_IMAGE_PAGES);
+
+    return (
+        <div className="p-4 bg-white border-2 border-blue-100 rounded-2xl space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <p className="flex-1 min-w-0 font-black text-slate-700 truncate" title={file.name}>📄 {file.name}{pageCount > 0 && ` • ${pageCount} trang`}</p>
+                {!isLoading && (
+                    <button onClick={() => onFileSelect(null)} className="text-xs font-bold px-3 py-1.5 rounded-lg text-rose-500 hover:bg-rose-50">✕ Đổi file</button>
+                )}
+            </div>
+            {error && <p className="text-sm font-bold text-red-600 bg-red-50 p-3 rounded-xl">{error}</p>}
+
+            {pageCount > 0 && (
+                <>
+                    <div className="flex flex-wrap items-center gap-3 text-sm font-bold text-slate-700">
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={selection.sendImages} disabled={isLoading} onChange={e => onSelectionChange({ ...selection, sendImages: e.target.checked })} />
+                            🖼️ Gửi ảnh trang
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={selection.sendText} disabled={isLoading} onChange={e => onSelectionChange({ ...selection, sendText: e.target.checked })} />
+                            🔤 Gửi chữ trong PDF
+                        </label>
+                        <span className="ml-auto flex gap-2 text-xs">
+                            <button onClick={() => onSelectionChange({ ...selection, pages: Array.from({ length: pageCount }, (_, i) => i + 1) })} disabled={isLoading} className="text-brand-600 hover:underline">Chọn tất cả</button>
+                            <button onClick={() => onSelectionChange({ ...selection, pages: [] })} disabled={isLoading} className="text-slate-500 hover:underline">Bỏ chọn</button>
+                        </span>
+                    </div>
+
+                    <p className="text-xs font-bold text-slate-500">
+                        Đã chọn {selection.pages.length} trang
+                        {selection.sendImages && selection.pages.length > MAX_PDF_IMAGE_PAGES && ` • chỉ ${imagePages} trang đầu được gửi dạng ảnh`}
+                        {selection.sendText && textLength !== null && (textLength > 0
+                            ? ` • ${textLength.toLocaleString('vi-VN')} ký tự chữ`
+                            : <span className="text-amber-600"> • Các trang này không có lớp chữ (PDF scan), cô nên gửi ảnh trang</span>)}
+                    </p>
+
+                    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 max-h-80 overflow-y-auto p-1">
+                        {Array.from({ length: Math.min(visibleCount, pageCount) }, (_, i) => i + 1).map(page => {
+                            const selected = selection.pages.includes(page);
+                            return (
+                                <button
+                                    key={page}
+                                    onClick={() => togglePage(page)}
+                                    disabled={isLoading}
+                                    className={`relative rounded-lg border-2 overflow-hidden transition-all ${selected ? 'border-brand-500 ring-2 ring-brand-200' : 'border-slate-200 opacity-70 hover:opacity-100'}`}
+                                >
+                                    <div className="aspect-[3/4] bg-slate-50 flex items-center justify-center">
+                                        {thumbnails[page]
+                                            ? <img src={thumbnails[page]} alt={`Trang ${page}`} className="w-full h-full object-contain" />
+                                            : <span className="text-xs text-slate-300">⏳</span>}
+                                    </div>
+                                    <span className={`absolute bottom-1 left-1 text-[10px] font-black px-1.5 rounded ${selected ? 'bg-brand-500 text-white' : 'bg-white/90 text-slate-600'}`}>
+                                        {selected ? '✓ ' : ''}{page}
+                                    </span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {visibleCount < pageCount && (
+                        <button onClick={() => setVisibleCount(n => n + THUMBNAILS_PER_BATCH)} className="w-full text-xs font-bold py-2 rounded-lg bg-slate-100 hover:bg-slate-200">
+                            Xem thêm trang ({pageCount - visibleCount} trang nữa)
+                        </button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
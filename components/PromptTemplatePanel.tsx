@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { PromptTemplateId } from '../types';
+import { PROMPT_TEMPLATES, getPromptCustomizations, savePromptCustomizations, getPromptTemplate, getPromptVersion } from '../services/promptTemplates';
+
+export const PromptTemplatePanel: React.FC = () => {
+    const [custom, setCustom] = useState(getPromptCustomizations);
+    const [isOpen, setIsOpen] = useState(false);
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>('lessonExercises');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const template = getPromptTemplate(selectedId);
+    const text = custom.templates[selectedId] ?? template.text;
+    const customizedCount = Object.keys(getPromptCustomizations().templates).length;
+
+    const setText = (value: string) => {
+        setCustom({ ...custom, templates: { ...custom.templates, [selectedId]: value } });
+        setMessage(null);
+    };
+
+    const handleReset = () => {
+        const { [selectedId]: _removed, ...rest } = custom.templates;
+        setCustom({ ...custom, templates: rest });
+        setMessage(null);
+    };
+
+    const handleSave = () => {
+        const missing = template.variables.filter(name => custom.templates[selectedId] && !text.includes(`{{${name}}}`));
+        savePromptCustomizations(custom);
+        setCustom(getPromptCustomizations());
+        setMessage(missing.length
+            ? `Đã lưu. Lưu ý: mẫu không còn dùng biến ${missing.map(n => `{{${n}}}`).join(', ')}.`
+            : `Đã lưu. Phiên bản hiện tại: ${getPromptVersion(selectedId)}`);
+    };
+
+    return (
+        <div className="border-t border-slate-100 pt-3 space-y-2">
+            <label className="block text-sm font-bold text-slate-700">✍️ Lời nhắc AI (prompt)</label>
+            <textarea
+                value={custom.instructions}
+                onChange={e => { setCustom({ ...custom, instructions: e.target.value }); setMessage(null); }}
+                rows={2}
+                placeholder='Yêu cầu thêm cho mọi bài soạn, VD: "Always use British spelling"'
+                className="w-full p-2 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none text-sm"
+            />
+            <button onClick={() => setIsOpen(!isOpen)} className="text-xs font-bold text-brand-600 hover:underline">
+                {isOpen ? '▲ Ẩn mẫu lời nhắc' : `▼ Sửa mẫu lời nhắc (${customizedCount} mẫu đã tuỳ chỉnh)`}
+            </button>
+
+            {isOpen && (
+                <div className="space-y-2">
+                    <select
+                        value={selectedId}
+                        onChange={e => { setSelectedId(e.target.value as PromptTemplateId); setMessage(null); }}
+                        className="w-full p-2 border-2 border-brand-200 rounded-xl outline-none text-sm font-bold text-slate-700 bg-white"
+                    >
+                        {PROMPT_TEMPLATES.map(t => (
+                            <option key={t.id} value={t.id}>{t.label}{custom.templates[t.id] ? ' ✏️' : ''}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-slate-500">
+                        Phiên bản gốc v{template.version}
+                        {template.variables.length > 0 && <> · Biến: {template.variables.map(name => <code key={name} className="mx-0.5 px-1 bg-slate-100 rounded">{`{{${name}}}`}</code>)}</>}
+                        {!template.teacherInstructions && ' · Không áp dụng yêu cầu thêm ở trên'}
+                    </p>
+                    <textarea
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        rows={10}
+                        spellCheck={false}
+                        className="w-full p-2 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none font-mono text-xs"
+                    />
+                    <button
+                        onClick={handleReset}
+                        disabled={custom.templates[selectedId] === undefined}
+                        className="text-xs font-bold px-3 py-1.5 rounded-lg text-rose-500 hover:bg-rose-50 disabled:opacity-50"
+                    >
+                        ↩️ Khôi phục mẫu gốc
+                    </button>
+                </div>
+            )}
+
+            <div className="flex items-center gap-2">
+                <button onClick={handleSave} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-brand-50 text-brand-700 hover:bg-brand-100">
+                    💾 Lưu lời nhắc
+                </button>
+                {message && <p className="text-xs font-bold text-slate-600">{message}</p>}
+            </div>
+        </div>
+    );
+};
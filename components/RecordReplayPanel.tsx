@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RecordMode, countFixtures, clearFixtures, exportFixtures, importFixtures } from '../services/aiRecorder';
+
+interface RecordReplayPanelProps {
+    mode: RecordMode;
+    onModeChange: (mode: RecordMode) => void;
+}
+
+const MODES: Array<{ id: RecordMode; label: string; hint: string }> = [
+    { id: 'off', label: '⚪ Tắt', hint: 'Gọi AI bình thường' },
+    { id: 'record', label: '🔴 Ghi', hint: 'Gọi AI và lưu lại mọi kết quả' },
+    { id: 'replay', label: '▶️ Phát lại', hint: 'Chỉ dùng kết quả đã ghi, không cần mạng/key' },
+];
+
+export const RecordReplayPanel: React.FC<RecordReplayPanelProps> = ({ mode, onModeChange }) => {
+    const [count, setCount] = useState<number | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [confirmClear, setConfirmClear] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshCount = () => {
+        countFixtures().then(setCount).catch(() => setCount(null));
+    };
+
+    useEffect(() => {
+        refreshCount();
+    }, []);
+
+    const handleExport = async () => {
+        const blob = await exportFixtures();
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `mrs-dung-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = await importFixtures(file);
+            setMessage(`Đã nhập ${imported} bản ghi.`);
+            refreshCount();
+        } catch (err: any) {
+            setMessage(`Lỗi nhập file: ${err.message}`);
+        }
+    };
+
+    const handleClear = async () => {
+        if (!confirmClear) {
+            setConfirmClear(true);
+            setTimeout(() => setConfirmClear(false), 3000);
+            return;
+        }
+        await clearFixtures();
+        setConfirmClear(false);
+        setMessage('Đã xoá toàn bộ bản ghi.');
+        refreshCount();
+    };
+
+    return (
+        <div className="border-t border-slate-100 pt-3 space-y-2">
+            <label className="block text-sm font-bold text-slate-700">🎬 Chế độ trình diễn (ghi / phát lại)</label>
+            <div className="grid grid-cols-3 gap-2">
+                {MODES.map(m => (
+                    <button
+                        key={m.id}
+                        onClick={() => onModeChange(m.id)}
+                        title={m.hint}
+                        className={`p-2 rounded-xl border-2 text-sm font-bold transition-all ${mode === m.id ? 'border-brand-500 bg-brand-50 text-brand-700' : 'border-slate-200 hover:border-brand-300'}`}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500">{MODES.find(m => m.id === mode)?.hint} • Đang có <span className="font-bold">{count ?? '—'}</span> bản ghi</p>
+            <div className="flex flex-wrap gap-2">
+                <button onClick={handleExport} disabled={!count} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 disabled:opacity-50">⬇️ Tải file fixture</button>
+                <button onClick={() => fileInputRef.current?.click()} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200">⬆️ Nhập file fixture</button>
+                <button onClick={handleClear} disabled={!count} className={`text-xs font-bold px-3 py-1.5 rounded-lg disabled:opacity-50 ${confirmClear ? 'bg-rose-500 text-white' : 'text-rose-500 hover:bg-rose-50'}`}>
+                    {confirmClear ? '⚠️ Bấm lần nữa để xoá!' : '🗑 Xoá bản ghi'}
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+            {message && <p className="text-xs font-bold text-brand-600">{message}</p>}
+        </div>
+    );
+};
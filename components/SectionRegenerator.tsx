@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LessonPlan, LessonSectionId } from '../types';
+import { regenerateLessonSection } from '../services/geminiService';
+import { LESSON_SECTIONS } from '../utils/lessonSections';
+import { toAIServiceError } from '../services/aiErrors';
+
+interface SectionRegeneratorProps {
+    lesson: LessonPlan;
+    onLessonChange: (lesson: LessonPlan) => void;
+}
+
+export const SectionRegenerator: React.FC<SectionRegeneratorProps> = ({ lesson, onLessonChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [busySection, setBusySection] = useState<LessonSectionId | null>(null);
+    const [teacherNote, setTeacherNote] = useState('');
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Leaving the lesson cancels a regeneration still in flight
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleRegenerate = async (section: LessonSectionId) => {
+        if (busySection) return;
+        const label = LESSON_SECTIONS.find(s => s.id === section)?.label;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setBusySection(section);
+        setMessage(null);
+        try {
+            const updated = await regenerateLessonSection(lesson, section, teacherNote, controller.signal);
+            onLessonChange(updated);
+            setMessage({ ok: true, text: `Đã tạo lại phần "${label}". Các phần khác được giữ nguyên.` });
+        } catch (err: any) {
+            if (controller.signal.aborted || toAIServiceError(err).kind === 'cancelled') {
+                setMessage({ ok: false, text: `Đã huỷ tạo lại phần "${label}".` });
+            } else {
+                setMessage({ ok: false, text: `Không tạo lại được phần "${label}": ${err.message}` });
+            }
+        } finally {
+            abortRef.current = null;
+            setBusySection(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg border border-brand-100 overflow-hidden font-sans">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full px-4 sm:px-6 py-3 flex items-center justify-between text-left hover:bg-brand-50 transition-all"
+            >
+                <span className="font-bold text-sm sm:text-base text-brand-800">🛠️ Công cụ giáo viên: tạo lại từng phần</span>
+                <span className="text-xs font-bold text-slate-400">{isOpen ? '▲ Thu gọn' : '▼ Mở'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 sm:px-6 pb-4 space-y-3">
+                    <p className="text-xs text-slate-500">Chỉ phần được chọn bị thay thế; từ vựng và các bài tập khác vẫn giữ nguyên.</p>
+                    <input
+                        type="text"
+                        value={teacherNote}
+                        onChange={e => setTeacherNote(e.target.value)}
+                        placeholder="Yêu cầu thêm (không bắt buộc), VD: câu ngắn hơn, dùng thì quá khứ..."
+                        className="w-full p-3 text-sm border-2 border-brand-100 rounded-xl focus:border-brand-400 outline-none"
+                    />
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                        {LESSON_SECTIONS.map(s => (
+                            <button
+                                key={s.id}
+                                onClick={() => handleRegenerate(s.id)}
+                                disabled={!!busySection}
+                                className={`p-2 rounded-xl border-2 text-xs sm:text-sm font-bold transition-all ${busySection === s.id ? 'border-brand-500 bg-brand-50 text-brand-700 animate-pulse' : 'border-slate-100 hover:border-brand-300 disabled:opacity-50'}`}
+                            >
+                                {busySection === s.id ? '⏳' : s.icon} {s.label}
+                            </button>
+                        ))}
+                    </div>
+                    {busySection && (
+                        <button onClick={() => abortRef.current?.abort()} className="text-xs sm:text-sm font-bold text-red-500 hover:underline">
+                            ✋ Huỷ
+                        </button>
+                    )}
+                    {message && (
+                        <p className={`text-xs sm:text-sm font-bold ${message.ok ? 'text-green-600' : 'text-red-500'}`}>{message.text}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { AVAILABLE_MODELS, getSelectedModel, setSelectedModel } from '../services/geminiService';
+import { ApiKeyEntry, getApiKeys, saveApiKeys, generateApiKeyId } from '../services/apiKeyPool';
+import {
+    AI_PROVIDERS,
+    AIProviderId,
+    getProviderId,
+    setProviderId,
+    getLocalServerConfig,
+    setLocalServerConfig,
+    testLocalServer,
+} from '../services/aiProvider';
+import { RecordMode, getRecordMode, setRecordMode } from '../services/aiRecorder';
+import { RecordReplayPanel } from './RecordReplayPanel';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { UsagePanel } from './UsagePanel';
+import { ApiKeyListEditor } from './ApiKeyListEditor';
+
+interface SettingsModalProps {
+    canClose: boolean;
+    onClose: () => void;
+    onSaved: () => void;
+    onUseOffline?: () => void; // first launch without a key: build lessons from a word list instead
+}
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ canClose, onClose, onSaved, onUseOffline }) => {
+    const [providerId, setProviderIdState] = useState<AIProviderId>(getProviderId());
+    const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>(() => {
+        const saved = getApiKeys();
+        return saved.length ? saved : [{ id: generateApiKeyId(), name: '', key: '' }];
+    });
+    const [selectedModelId, setSelectedModelId] = useState(getSelectedModel());
+    const [localServer, setLocalServer] = useState(getLocalServerConfig());
+    const [testStatus, setTestStatus] = useState<{ ok: boolean; message: string } | null>(null);
+    const [testing, setTesting] = useState(false);
+    const [recordMode, setRecordModeState] = useState<RecordMode>(getRecordMode());
+
+    const canSave = recordMode === 'replay' || (providerId === 'gemini'
+        ? apiKeys.some(k => k.key.trim())
+        : !!localServer.baseUrl.trim() && !!localServer.model.trim());
+
+    const handleSave = () => {
+        if (!canSave) return;
+        setProviderId(providerId);
+        setRecordMode(recordMode);
+        if (apiKeys.some(k => k.key.trim())) saveApiKeys(apiKeys);
+        setSelectedModel(selectedModelId);
+        setLocalServerConfig({
+            baseUrl: localServer.baseUrl.trim(),
+            model: localServer.model.trim(),
+            apiKey: localServer.apiKey?.trim() || undefined,
+        });
+        onSaved();
+    };
+
+    const handleTestServer = async () => {
+        setTesting(true);
+        setTestStatus(null);
+        try {
+            const models = await testLocalServer(localServer);
+            const hasModel = models.includes(localServer.model);
+            setTestStatus({
+                ok: hasModel || models.length === 0,
+                message: hasModel || models.length === 0
+                    ? `Kết nối thành công! (${models.length} model)`
+                    : `Kết nối được nhưng không thấy model "${localServer.model}". Có sẵn: ${models.slice(0, 5).join(', ')}`,
+            });
+        } catch (err: any) {
+            setTestStatus({ ok: false, message: `Không kết nối được: ${err.message}` });
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold text-brand-800">⚙️ Thiết lập API Key</h2>
+                    {canClose && (
+                        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                    )}
+                </div>
+
+                <div className="space-y-3">
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">🌐 Nguồn AI</label>
+                        <div className="grid gap-2">
+                            {AI_PROVIDERS.map((p) => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => setProviderIdState(p.id)}
+                                    className={`p-3 rounded-xl border-2 text-left transition-all ${providerId === p.id
+                                        ? 'border-brand-500 bg-brand-50 text-brand-700'
+                                        : 'border-slate-200 hover:border-brand-300'
+                                        }`}
+                                >
+                                    <span className="font-bold block">{p.name}</span>
+                                    <span className="text-xs text-slate-500">{p.description}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {providerId === 'gemini' ? (
+                        <>
+                            <ApiKeyListEditor keys={apiKeys} onChange={setApiKeys} />
+
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-2">🤖 Chọn Model AI</label>
+                                <div className="grid gap-2">
+                                    {AVAILABLE_MODELS.map((model) => (
+                                        <button
+                                            key={model.id}
+                                            onClick={() => setSelectedModelId(model.id)}
+                                            className={`p-3 rounded-xl border-2 text-left transition-all ${selectedModelId === model.id
+                                                ? 'border-brand-500 bg-brand-50 text-brand-700'
+                                                : 'border-slate-200 hover:border-brand-300'
+                                                }`}
+                                        >
+                                            <span className="font-bold">{model.name}</span>
+                                            {model.isDefault && <span className="ml-2 text-xs bg-brand-500 text-white px-2 py-0.5 rounded">Mặc định</span>}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    ) : (
+                        <div className="space-y-3">
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1">🖥️ Địa chỉ máy chủ</label>
+                                <input
+                                    type="text"
+                                    value={localServer.baseUrl}
+                                    onChange={(e) => setLocalServer({ ...localServer, baseUrl: e.target.value })}
+                                    placeholder="http://192.168.1.10:11434/v1"
+                                    className="w-full p-3 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none font-mono text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1">🤖 Tên model</label>
+                                <input
+                                    type="text"
+                                    value={localServer.model}
+                                    onChange={(e) => setLocalServer({ ...localServer, model: e.target.value })}
+                                    placeholder="qwen2.5:7b"
+                                    className="w-full p-3 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none font-mono text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1">🔑 API Key (không bắt buộc)</label>
+                                <input
+                                    type="password"
+                                    value={localServer.apiKey || ''}
+                                    onChange={(e) => setLocalServer({ ...localServer, apiKey: e.target.value })}
+                                    placeholder="Để trống nếu máy chủ không yêu cầu"
+                                    className="w-full p-3 border-2 border-brand-200 rounded-xl focus:border-brand-500 outline-none"
+                                />
+                            </div>
+                            <button
+                                onClick={handleTestServer}
+                                disabled={testing || !localServer.baseUrl.trim()}
+                                className="w-full py-2 rounded-xl border-2 border-brand-300 text-brand-700 font-bold hover:bg-brand-50 transition-all disabled:opacity-50"
+                            >
+                                {testing ? '⏳ Đang kiểm tra...' : '🔌 Kiểm tra kết nối'}
+                            </button>
+                            {testStatus && (
+                                <p className={`text-xs font-bold ${testStatus.ok ? 'text-green-600' : 'text-red-500'}`}>{testStatus.message}</p>
+                            )}
+                            <p className="text-xs text-slate-500">Lưu ý: máy chủ nội bộ chỉ tạo được nội dung chữ (bài học, sơ đồ tư duy, chấm bài viết). Tạo ảnh và giọng đọc AI cần Google Gemini.</p>
+                        </div>
+                    )}
+
+                    <RecordReplayPanel mode={recordMode} onModeChange={setRecordModeState} />
+
+                    <PromptTemplatePanel />
+
+                    <UsagePanel />
+                </div>
+
+                <button
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className="w-full py-3 bg-brand-500 text-white rounded-xl font-bold text-lg hover:bg-brand-600 transition-all disabled:bg-slate-300 disabled:cursor-not-allowed"
+                >
+                    💾 Lưu cài đặt
+                </button>
+                {!canClose && onUseOffline && (
+                    <button onClick={onUseOffline} className="w-full text-sm font-bold text-brand-600 hover:underline">
+                        📋 Chưa có key? Soạn bài từ danh sách từ vựng (không cần AI)
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { LessonMediaSource } from '../types';
+import { SUBTITLE_EXTENSIONS, readSubtitleFile, formatCueTime } from '../utils/subtitles';
+
+interface SubtitleInputProps {
+    media: LessonMediaSource | null;
+    onChange: (media: LessonMediaSource | null) => void;
+    isLoading: boolean;
+}
+
+const PREVIEW_LINES = 6;
+
+const FORMAT_LABELS: Record<LessonMediaSource['format'], string> = {
+    srt: 'Phụ đề SRT',
+    vtt: 'Phụ đề WebVTT',
+    lrc: 'Lời bài hát LRC',
+};
+
+export const SubtitleInput: React.FC<SubtitleInputProps> = ({ media, onChange, isLoading }) => {
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (file?: File) => {
+        if (!file) return;
+        try {
+            onChange(await readSubtitleFile(file));
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div
+                onClick={() => !isLoading && fileInputRef.current?.click()}
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => { e.preventDefault(); handleFile(e.dataTransfer.files?.[0]); }}
+                className={`border-4 border-dashed rounded-3xl p-8 text-center transition-all ${isLoading ? 'border-gray-300 bg-gray-50 opacity-50 cursor-not-allowed' : 'cursor-pointer border-blue-300 bg-blue-50 hover:bg-blue-100 hover:border-blue-400'}`}
+            >
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={SUBTITLE_EXTENSIONS.join(',')}
+                    className="hidden"
+                    onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+                />
+                <div className="w-16 h-16 mx-auto bg-white rounded-full shadow-md flex items-center justify-center text-3xl mb-3">{media ? '🎬' : '🎵'}</div>
+                <p className="text-lg font-bold text-blue-900">
+                    {media ? media.fileName : 'Thả file phụ đề phim hoạt hình hoặc lời bài hát'}
+                </p>
+                <p className="text-sm text-blue-600 font-medium">
+                    {media ? `${FORMAT_LABELS[media.format]} • ${media.lines.length} dòng • bấm để đổi file` : `${SUBTITLE_EXTENSIONS.join(', ')} - hoặc bấm để chọn file`}
+                </p>
+            </div>
+
+            {error && <p className="text-sm font-bold text-red-600 bg-red-50 p-3 rounded-xl">{error}</p>}
+
+            {media && (
+                <div className="p-3 bg-white border-2 border-blue-100 rounded-2xl text-sm space-y-1">
+                    {media.lines.slice(0, PREVIEW_LINES).map((line, i) => (
+                        <p key={i} className="text-slate-600">
+                            <span className="font-mono text-xs text-blue-500 mr-2">{formatCueTime(line.start)}</span>{line.text}
+                        </p>
+                    ))}
+                    {media.lines.length > PREVIEW_LINES && <p className="text-xs text-slate-400">… và {media.lines.length - PREVIEW_LINES} dòng nữa</p>}
+                    <p className="text-xs text-slate-500 pt-1 border-t border-slate-100">
+                        Bài nghe và bài điền từ sẽ lấy đúng các câu trong file. Khi học, cô mở file video/bài hát trên máy để phát từng câu.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { TestBlueprint } from '../types';
+import { BLUEPRINT_ITEMS, BLUEPRINT_PRESETS, clampBlueprintCount, countBlueprintQuestions } from '../utils/testBlueprint';
+
+interface TestBlueprintPanelProps {
+    blueprint: TestBlueprint;
+    onChange: (blueprint: TestBlueprint) => void;
+    disabled?: boolean;
+}
+
+export const TestBlueprintPanel: React.FC<TestBlueprintPanelProps> = ({ blueprint, onChange, disabled }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const totalQuestions = countBlueprintQuestions(blueprint);
+    const activePreset = BLUEPRINT_PRESETS.find(p => BLUEPRINT_ITEMS.every(item => p.blueprint[item.id] === blueprint[item.id]));
+
+    const setCount = (id: keyof TestBlueprint, value: number) => {
+        onChange({ ...blueprint, [id]: clampBlueprintCount(id, value) });
+    };
+
+    return (
+        <div className="rounded-2xl border-4 border-brand-50 bg-brand-50/50 overflow-hidden">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-brand-50 transition-all"
+            >
+                <span className="font-black text-brand-800 text-base">
+                    📋 Cấu trúc đề: {activePreset?.label || 'Tuỳ chỉnh'} · {totalQuestions} câu
+                </span>
+                <span className="text-xs font-bold text-slate-400">{isOpen ? '▲ Thu gọn' : '▼ Chỉnh'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                        {BLUEPRINT_PRESETS.map(preset => (
+                            <button
+                                key={preset.id}
+                                onClick={() => onChange(preset.blueprint)}
+                                disabled={disabled}
+                                className={`px-3 py-1.5 rounded-xl border-2 text-xs sm:text-sm font-bold transition-all disabled:opacity-50 ${activePreset?.id === preset.id ? 'border-brand-500 bg-white text-brand-700' : 'border-slate-200 bg-white/60 hover:border-brand-300'}`}
+                            >
+                                {preset.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {BLUEPRINT_ITEMS.map(item => {
+                            const count = blueprint[item.id] || 0;
+                            return (
+                                <div key={item.id} className={`flex items-center justify-between p-2 rounded-xl bg-white border-2 ${count > 0 ? 'border-brand-200' : 'border-slate-100 opacity-60'}`}>
+                                    <span className="font-bold text-sm text-slate-700">{item.icon} {item.label}</span>
+                                    <div className="flex items-center gap-1">
+                                        <button onClick={() => setCount(item.id, count - 1)} disabled={disabled || count === 0} className="w-8 h-8 rounded-lg bg-slate-100 font-black hover:bg-slate-200 disabled:opacity-40">−</button>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={item.max}
+                                            value={count}
+                                            onChange={e => setCount(item.id, Number(e.target.value))}
+                                            disabled={disabled}
+                                            className="w-12 text-center font-black text-brand-800 outline-none"
+                                        />
+                                        <button onClick={() => setCount(item.id, count + 1)} disabled={disabled || count >= item.max} className="w-8 h-8 rounded-lg bg-slate-100 font-black hover:bg-slate-200 disabled:opacity-40">+</button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <p className="text-xs text-slate-500">Đặt 0 để bỏ dạng bài đó khỏi đề. Cấu trúc được ghi nhớ cho lần soạn sau.</p>
+                </div>
+            )}
+        </div>
+    );
+};
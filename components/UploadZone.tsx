@@ -43,7 +43,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelect, isLoading
       <input 
         type="file" 
         multiple 
-        accept="image/*" 
+        accept="image/*,.heic,.heif" 
         className="hidden" 
         ref={fileInputRef}
         onChange={handleFileChange}
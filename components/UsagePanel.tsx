@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { AIFeature, UsageTotals } from '../types';
+import { getApiKeys } from '../services/apiKeyPool';
+import { FEATURE_LABELS, getUsageLog, clearUsageLog, groupUsage, getRemainingQuota, keyIdOf, formatUsd, todayKey } from '../services/usageTracker';
+import { SavedLesson, listSavedLessons } from '../services/lessonLibraryService';
+
+const LESSONS_SHOWN = 5;
+
+const formatTokens = (t: UsageTotals) => `${(t.promptTokens + t.outputTokens).toLocaleString('vi-VN')} token`;
+
+const sortByCost = (groups: Record<string, UsageTotals>) =>
+    Object.entries(groups).sort(([, a], [, b]) => b.costUsd - a.costUsd || b.requests - a.requests);
+
+const UsageRows: React.FC<{ title: string; groups: Record<string, UsageTotals>; labelOf?: (key: string) => string }> = ({ title, groups, labelOf }) => (
+    <div>
+        <p className="text-xs font-bold text-slate-600">{title}</p>
+        {sortByCost(groups).map(([key, totals]) => (
+            <div key={key} className="flex justify-between gap-2 text-xs text-slate-600 pl-2">
+                <span className="truncate">{labelOf ? labelOf(key) : key}</span>
+                <span className="shrink-0 font-mono">{totals.requests} lần · {formatTokens(totals)} · {formatUsd(totals.costUsd)}</span>
+            </div>
+        ))}
+    </div>
+);
+
+export const UsagePanel: React.FC = () => {
+    const [log, setLog] = useState(getUsageLog);
+    const [isOpen, setIsOpen] = useState(false);
+    const [lessons, setLessons] = useState<SavedLesson[]>([]);
+    const [confirmClear, setConfirmClear] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        listSavedLessons()
+            .then(all => setLessons(all.filter(s => s.lesson.usage?.requests).slice(0, LESSONS_SHOWN)))
+            .catch(() => setLessons([]));
+    }, [isOpen]);
+
+    const today = todayKey();
+    const todayLog = log.filter(e => e.date === today);
+    const todayTotals = groupUsage(todayLog, () => 'all').all;
+    const monthTotals = groupUsage(log, () => 'all').all;
+
+    const quota = getApiKeys().flatMap(entry =>
+        getRemainingQuota(keyIdOf(entry.key)).filter(q => q.used > 0).map(q => ({ ...q, keyName: entry.name })));
+
+    // Usage is logged by the key's last characters; show the pool name when the key is still there
+    const keyLabel = (keyId: string) => {
+        const entry = getApiKeys().find(k => keyIdOf(k.key) === keyId);
+        return entry ? `${entry.name} (${keyId})` : `Key ${keyId}`;
+    };
+
+    const handleClear = () => {
+        if (!confirmClear) {
+            setConfirmClear(true);
+            setTimeout(() => setConfirmClear(false), 3000);
+            return;
+        }
+        clearUsageLog();
+        setConfirmClear(false);
+        setLog(getUsageLog());
+    };
+
+    return (
+        <div className="border-t border-slate-100 pt-3 space-y-2">
+            <label className="block text-sm font-bold text-slate-700">📊 Mức sử dụng AI (ước tính)</label>
+            <p className="text-xs text-slate-500">
+                Hôm nay: <span className="font-bold">{todayTotals?.requests || 0}</span> lượt gọi · {formatUsd(todayTotals?.costUsd || 0)}
+                {' '}• 30 ngày: <span className="font-bold">{monthTotals?.requests || 0}</span> lượt · {formatUsd(monthTotals?.costUsd || 0)}
+            </p>
+
+            {quota.map(q => {
+                const left = Math.max(0, q.limit - q.used);
+                const nearLimit = left <= q.limit * 0.1;
+                return (
+                    <p key={`${q.keyName}-${q.model}`} className={`text-xs font-bold ${nearLimit ? 'text-rose-600' : 'text-slate-600'}`}>
+                        {nearLimit ? '⚠️' : '🔋'} {q.model}: còn khoảng {left}/{q.limit} lượt miễn phí hôm nay (key "{q.keyName}")
+                    </p>
+                );
+            })}
+
+            <button onClick={() => setIsOpen(!isOpen)} className="text-xs font-bold text-brand-600 hover:underline">
+                {isOpen ? '▲ Ẩn chi tiết' : '▼ Xem chi tiết theo model, chức năng và bài học'}
+            </button>
+
+            {isOpen && (
+                <div className="space-y-2 bg-slate-50 rounded-xl p-2">
+                    {log.length === 0 ? (
+                        <p className="text-xs text-slate-500">Chưa có lượt gọi AI nào trong 30 ngày qua.</p>
+                    ) : (
+                        <>
+                            <UsageRows title="Theo model" groups={groupUsage(log, e => e.model)} />
+                            <UsageRows title="Theo chức năng" groups={groupUsage(log, e => e.feature)} labelOf={key => FEATURE_LABELS[key as AIFeature] || key} />
+                            <UsageRows title="Theo API key" groups={groupUsage(log, e => e.keyId)} labelOf={key => (key === 'local' ? 'Máy chủ nội bộ' : keyLabel(key))} />
+                        </>
+                    )}
+
+                    {lessons.length > 0 && (
+                        <div>
+                            <p className="text-xs font-bold text-slate-600">Chi phí từng bài học</p>
+                            {lessons.map(saved => (
+                                <details key={saved.id} className="pl-2 text-xs text-slate-600">
+                                    <summary className="cursor-pointer flex justify-between gap-2">
+                                        <span className="truncate">{saved.title}</span>
+                                        <span className="shrink-0 font-mono">{saved.lesson.usage.requests} lần · {formatUsd(saved.lesson.usage.costUsd)}</span>
+                                    </summary>
+                                    {sortByCost(saved.lesson.usage.byFeature).map(([feature, totals]) => (
+                                        <div key={feature} className="flex justify-between gap-2 pl-4 text-slate-500">
+                                            <span>{FEATURE_LABELS[feature as AIFeature] || feature}</span>
+                                            <span className="font-mono">{formatTokens(totals)} · {formatUsd(totals.costUsd)}</span>
+                                        </div>
+                                    ))}
+                                </details>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2">
+                <button onClick={handleClear} disabled={!log.length} className={`text-xs font-bold px-3 py-1.5 rounded-lg disabled:opacity-50 ${confirmClear ? 'bg-rose-500 text-white' : 'text-rose-500 hover:bg-rose-50'}`}>
+                    {confirmClear ? '⚠️ Bấm lần nữa để xoá!' : '🗑 Xoá thống kê'}
+                </button>
+                <p className="text-[10px] text-slate-400">Giá và hạn mức miễn phí chỉ là ước tính, Google có thể thay đổi.</p>
+            </div>
+        </div>
+    );
+};
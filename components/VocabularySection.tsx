@@ -54,12 +54,16 @@ export const VocabularySection: React.FC<VocabularySectionProps> = ({ items = []
                       {item.word}
                     </h3>
                     <div className="flex flex-wrap items-center gap-1 mt-0.5">
-                      <span className="text-brand-600 text-xs font-mono bg-brand-50 px-1.5 py-0.5 rounded">
-                        /{item.ipa}/
-                      </span>
-                      <span className="text-[8px] sm:text-[9px] bg-brand-500 text-white px-1.5 py-0.5 rounded font-bold uppercase">
-                        {item.type}
-                      </span>
+                      {item.ipa && (
+                        <span className="text-brand-600 text-xs font-mono bg-brand-50 px-1.5 py-0.5 rounded">
+                          /{item.ipa}/
+                        </span>
+                      )}
+                      {item.type && (
+                        <span className="text-[8px] sm:text-[9px] bg-brand-500 text-white px-1.5 py-0.5 rounded font-bold uppercase">
+                          {item.type}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -84,28 +88,30 @@ export const VocabularySection: React.FC<VocabularySectionProps> = ({ items = []
                 )}
 
                 {/* Example */}
-                <div className="mt-2 bg-slate-50 p-2 sm:p-3 rounded-lg relative">
-                  <p className="text-slate-700 text-xs sm:text-sm font-medium italic pr-7 leading-relaxed">
-                    "{item.example}"
-                  </p>
-
-                  {showMeaning && item.sentenceMeaning && (
-                    <p className="text-brand-500 text-[10px] sm:text-xs font-semibold mt-1.5 pt-1.5 border-t border-slate-200">
-                      → {item.sentenceMeaning}
+                {item.example && (
+                  <div className="mt-2 bg-slate-50 p-2 sm:p-3 rounded-lg relative">
+                    <p className="text-slate-700 text-xs sm:text-sm font-medium italic pr-7 leading-relaxed">
+                      "{item.example}"
                     </p>
-                  )}
 
-                  {/* Example Audio */}
-                  <button
-                    onClick={() => handlePlayAudio(item.example)}
-                    className="absolute top-2 right-2 w-6 h-6 rounded-full bg-white text-slate-400 hover:text-brand-500 border border-slate-200 flex items-center justify-center transition-all"
-                    aria-label="Phát câu"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                      <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-                    </svg>
-                  </button>
-                </div>
+                    {showMeaning && item.sentenceMeaning && (
+                      <p className="text-brand-500 text-[10px] sm:text-xs font-semibold mt-1.5 pt-1.5 border-t border-slate-200">
+                        → {item.sentenceMeaning}
+                      </p>
+                    )}
+
+                    {/* Example Audio */}
+                    <button
+                      onClick={() => handlePlayAudio(item.example)}
+                      className="absolute top-2 right-2 w-6 h-6 rounded-full bg-white text-slate-400 hover:text-brand-500 border border-slate-200 flex items-center justify-center transition-all"
+                      aria-label="Phát câu"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                      </svg>
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -16,6 +16,7 @@ export interface WordBankFillProps {
     disabled?: boolean;
     showResult?: boolean;
     sessionSeed?: string;
+    submitLabel?: string; // e.g. "save" in exam mode, where the result is not shown yet
     onComplete?: (result: {
         isCorrect: boolean;
         userTokens: string[];
@@ -34,6 +35,7 @@ export const WordBankFill: React.FC<WordBankFillProps> = ({
     disabled = false,
     showResult = false,
     sessionSeed,
+    submitLabel = '✅ Kiểm tra',
     onComplete
 }) => {
     // Track which words have been used (by index in shuffled bank)
@@ -246,7 +248,7 @@ export const WordBankFill: React.FC<WordBankFillProps> = ({
                         disabled={disabled || !isComplete}
                         className="px-6 py-2 rounded-xl font-bold text-sm bg-brand-500 text-white hover:bg-brand-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md"
                     >
-                        ✅ Kiểm tra
+                        {submitLabel}
                     </button>
                 </div>
             )}
@@ -0,0 +1,84 @@
+// ===== AI ERROR CLASSIFICATION =====
+// Provider errors come in many shapes (Gemini ApiError, fetch failures, HTTP errors from a
+// local server, our own 'CODE: message' errors). They are normalized into an AIServiceError
+// so callWithFallback can decide whether to retry, back off or stop, and the UI can render
+// a message per kind instead of string-matching status codes.
+
+export type AIErrorKind =
+  | 'auth'       // 401/403, missing or invalid key → stop, the teacher must fix the key
+  | 'quota'      // 429 RESOURCE_EXHAUSTED → try the next key, then the next model
+  | 'overload'   // 5xx UNAVAILABLE/overloaded → back off and retry the same model
+  | 'network'    // no connection to the server → back off and retry
+  | 'parse'      // the model answered with unusable JSON → try the next model
+  | 'safety'     // the request was blocked by safety filters → stop
+  | 'config'     // replay miss, unsupported feature on this provider → stop
+  | 'cancelled'  // the teacher pressed Cancel → stop, nothing to show
+  | 'unknown';
+
+export interface AIServiceError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  model?: string;   // model that produced the error
+  detail: string;   // raw provider message, shown verbatim (AI_INSTRUCTIONS.md §3)
+}
+
+export const AI_ERROR_TITLES: Record<AIErrorKind, string> = {
+  auth: 'LỖI 401: Mã API Key không hợp lệ. Cô hãy kiểm tra lại nhé!',
+  quota: 'LỖI 429: Hết hạn mức sử dụng (Quota Exhausted). Cô hãy thêm API Key khác trong Cài đặt nhé!',
+  overload: 'Máy chủ AI đang quá tải. Cô thử lại sau ít phút nhé!',
+  network: 'Không kết nối được tới máy chủ AI. Cô kiểm tra mạng Internet nhé!',
+  parse: 'AI trả về dữ liệu không đọc được. Cô bấm tạo lại nhé!',
+  safety: 'Nội dung bị bộ lọc an toàn của AI chặn. Cô thử đổi nội dung/ảnh khác nhé!',
+  config: 'Cấu hình AI chưa phù hợp với yêu cầu này.',
+  cancelled: 'Đã huỷ.',
+  unknown: 'LỖI HỆ THỐNG',
+};
+
+// Kinds where trying again (same or next model) cannot help
+export const FATAL_AI_ERRORS: AIErrorKind[] = ['auth', 'safety', 'config', 'cancelled'];
+// Kinds worth retrying on the same model after a pause
+export const TRANSIENT_AI_ERRORS: AIErrorKind[] = ['overload', 'network'];
+
+export const createAIError = (kind: AIErrorKind, message: string, extra: { status?: number; model?: string } = {}): AIServiceError =>
+  Object.assign(new Error(message), { kind, detail: message, ...extra });
+
+export const isAIServiceError = (error: any): error is AIServiceError =>
+  !!error && typeof error === 'object' && typeof error.kind === 'string' && typeof error.detail === 'string';
+
+// Structured fields only: a number in the message may be a token count or part of a model name.
+// Errors without them are classified by the status markers in the message (RESOURCE_EXHAUSTED...).
+const statusOf = (error: any): number | undefined => {
+  const status = Number(error?.status ?? error?.code);
+  return status >= 100 && status < 600 ? status : undefined;
+};
+
+export const classifyAIError = (error: any): AIErrorKind => {
+  if (isAIServiceError(error)) return error.kind;
+  const message = String(error?.message || error || '');
+  const status = statusOf(error);
+
+  if (error?.name === 'AbortError' || /^CANCELLED:|aborted/i.test(message)) return 'cancelled';
+  if (/^(REPLAY_MISS|UNSUPPORTED):/.test(message)) return 'config';
+  if (status === 401 || status === 403 || /API_KEY_(INVALID|REQUIRED)|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+  if ((status && status >= 500) || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED|INTERNAL/i.test(message)) return 'overload';
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) return 'safety';
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+export const createCancelledError = (): AIServiceError => createAIError('cancelled', 'CANCELLED: Đã huỷ yêu cầu.');
+
+// Throw before starting more work once the teacher has cancelled
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createCancelledError();
+};
+
+export const toAIServiceError = (error: any, model?: string): AIServiceError => {
+  if (isAIServiceError(error)) {
+    if (model && !error.model) error.model = model;
+    return error;
+  }
+  const message = String(error?.message || error || 'Lỗi không xác định');
+  return createAIError(classifyAIError(error), message, { status: statusOf(error), model });
+};
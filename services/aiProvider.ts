@@ -0,0 +1,251 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { createAIError } from "./aiErrors";
+import { UsageEvent } from "./usageTracker";
+import { AIFeature } from "../types";
+
+// ===== AI PROVIDER LAYER =====
+// Every AI call in the app goes through an AIProvider so the same request can run
+// against Google Gemini or an OpenAI-compatible server (Ollama, llama.cpp, LM Studio...)
+// when the school network has no Google access.
+
+export type AIProviderId = 'gemini' | 'openai';
+
+export interface AIPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export type AIContents = string | { parts: AIPart[] } | Array<{ parts: AIPart[] }>;
+
+export interface AIGenerateRequest {
+  model: string;
+  contents: AIContents;
+  config?: {
+    responseMimeType?: string;
+    responseSchema?: any;          // Gemini-style schema (Type.*), translated per provider
+    responseModalities?: string[];
+    speechConfig?: any;
+    imageConfig?: any;
+  };
+  signal?: AbortSignal;            // cancels the request; kept out of config so record/replay hashes stay stable
+  feature?: AIFeature;             // what the call is for, in the usage statistics (not hashed either)
+  onUsage?: (usage: UsageEvent) => void; // receives the tokens of this call, e.g. to add up a lesson's cost
+}
+
+export interface AIUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface AIGenerateResponse {
+  text: string;
+  parts: AIPart[];
+  usageMetadata?: AIUsageMetadata;
+  servedBy?: string;               // name of the pooled API key that answered
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  generateContent: (request: AIGenerateRequest) => Promise<AIGenerateResponse>;
+}
+
+export interface LocalServerConfig {
+  baseUrl: string;   // e.g. http://192.168.1.10:11434/v1
+  model: string;     // e.g. qwen2.5:7b
+  apiKey?: string;   // most local servers ignore it
+}
+
+export const AI_PROVIDERS: Array<{ id: AIProviderId; name: string; description: string }> = [
+  { id: 'gemini', name: 'Google Gemini', description: 'Chất lượng tốt nhất, cần API key và mạng Internet' },
+  { id: 'openai', name: 'Máy chủ nội bộ (OpenAI-compatible)', description: 'Ollama / llama.cpp / LM Studio trong mạng LAN của trường' },
+];
+
+const PROVIDER_STORAGE = 'mrs_dung_ai_provider';
+const LOCAL_SERVER_STORAGE = 'mrs_dung_local_server';
+
+const DEFAULT_LOCAL_SERVER: LocalServerConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'qwen2.5:7b',
+};
+
+export const getProviderId = (): AIProviderId => {
+  if (typeof window !== 'undefined') {
+    return (localStorage.getItem(PROVIDER_STORAGE) as AIProviderId) || 'gemini';
+  }
+  return 'gemini';
+};
+
+export const setProviderId = (id: AIProviderId): void => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(PROVIDER_STORAGE, id);
+  }
+};
+
+export const getLocalServerConfig = (): LocalServerConfig => {
+  if (typeof window === 'undefined') return DEFAULT_LOCAL_SERVER;
+  try {
+    const raw = localStorage.getItem(LOCAL_SERVER_STORAGE);
+    return raw ? { ...DEFAULT_LOCAL_SERVER, ...JSON.parse(raw) } : DEFAULT_LOCAL_SERVER;
+  } catch {
+    return DEFAULT_LOCAL_SERVER;
+  }
+};
+
+export const setLocalServerConfig = (config: LocalServerConfig): void => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(LOCAL_SERVER_STORAGE, JSON.stringify(config));
+  }
+};
+
+// Normalize the three accepted `contents` shapes into a flat list of parts
+const flattenParts = (contents: AIContents): AIPart[] => {
+  if (typeof contents === 'string') return [{ text: contents }];
+  if (Array.isArray(contents)) return contents.flatMap(c => c.parts);
+  return contents.parts;
+};
+
+// ===== GEMINI =====
+
+// A blocked answer comes back as a normal response with no text; surface it as an error
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    generateContent: async (request) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.contents as any,
+        config: { ...request.config, abortSignal: request.signal } as any,
+      });
+      const finishReason = String(response.candidates?.[0]?.finishReason || '');
+      const blockReason = response.promptFeedback?.blockReason || (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : null);
+      if (blockReason) {
+        throw createAIError('safety', `SAFETY: Yêu cầu bị chặn (${blockReason})`);
+      }
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      return {
+        text: response.text || '',
+        parts: parts.map(p => ({
+          text: p.text,
+          inlineData: p.inlineData ? { data: p.inlineData.data || '', mimeType: p.inlineData.mimeType || '' } : undefined,
+        })),
+        usageMetadata: response.usageMetadata,
+      };
+    },
+  };
+};
+
+// ===== OPENAI-COMPATIBLE =====
+
+// Translate a Gemini schema (Type.OBJECT, Type.STRING...) into standard JSON Schema
+export const toJsonSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  const typeMap: Record<string, string> = {
+    [Type.OBJECT]: 'object',
+    [Type.ARRAY]: 'array',
+    [Type.STRING]: 'string',
+    [Type.NUMBER]: 'number',
+    [Type.INTEGER]: 'integer',
+    [Type.BOOLEAN]: 'boolean',
+  };
+  const result: any = {};
+  if (schema.type) result.type = typeMap[schema.type] || String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  return result;
+};
+
+const AUDIO_FORMATS: Record<string, string> = { 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/mp3': 'mp3', 'audio/mpeg': 'mp3' };
+
+const toOpenAIContent = (parts: AIPart[]) => parts.map(part => {
+  if (part.inlineData) {
+    const { data, mimeType } = part.inlineData;
+    if (AUDIO_FORMATS[mimeType]) {
+      return { type: 'input_audio', input_audio: { data, format: AUDIO_FORMATS[mimeType] } };
+    }
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  return { type: 'text', text: part.text || '' };
+});
+
+export const createOpenAICompatibleProvider = (config: LocalServerConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  return {
+    id: 'openai',
+    generateContent: async (request) => {
+      if (request.config?.responseModalities?.some(m => m !== 'TEXT')) {
+        throw new Error('UNSUPPORTED: Máy chủ nội bộ không hỗ trợ tạo ảnh/âm thanh. Hãy chuyển sang Google Gemini.');
+      }
+
+      const messages: any[] = [];
+      const schema = request.config?.responseSchema;
+      if (schema) {
+        // Small local models follow the schema far better when it is also spelled out in the prompt
+        messages.push({
+          role: 'system',
+          content: `Respond ONLY with a single JSON value matching this JSON Schema, no markdown:\n${JSON.stringify(toJsonSchema(schema))}`,
+        });
+      } else if (request.config?.responseMimeType === 'application/json') {
+        messages.push({ role: 'system', content: 'Respond ONLY with valid JSON, no markdown.' });
+      }
+      messages.push({ role: 'user', content: toOpenAIContent(flattenParts(request.contents)) });
+
+      // Requests name Gemini models; a local server always answers with its configured model
+      const body: any = { model: config.model, messages };
+      if (schema) {
+        body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } };
+      } else if (request.config?.responseMimeType === 'application/json') {
+        body.response_format = { type: 'json_object' };
+      }
+
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+      if (!res.ok) {
+        const detail = await res.text().catch(() => '');
+        throw Object.assign(new Error(`${res.status} ${res.statusText}: ${detail}`), { status: res.status });
+      }
+
+      const data = await res.json();
+      if (data.choices?.[0]?.finish_reason === 'content_filter') {
+        throw createAIError('safety', 'SAFETY: Yêu cầu bị chặn (content_filter)');
+      }
+      const text: string = data.choices?.[0]?.message?.content || '';
+      return {
+        text,
+        parts: [{ text }],
+        usageMetadata: data.usage ? {
+          promptTokenCount: data.usage.prompt_tokens,
+          candidatesTokenCount: data.usage.completion_tokens,
+          totalTokenCount: data.usage.total_tokens,
+        } : undefined,
+      };
+    },
+  };
+};
+
+// Quick reachability check used by the settings modal
+export const testLocalServer = async (config: LocalServerConfig): Promise<string[]> => {
+  const res = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/models`, {
+    headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+  });
+  if (!res.ok) throw Object.assign(new Error(`${res.status} ${res.statusText}`), { status: res.status });
+  const data = await res.json();
+  return (data.data || []).map((m: any) => m.id);
+};
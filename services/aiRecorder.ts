@@ -0,0 +1,119 @@
+import { AIProvider, AIGenerateRequest, AIGenerateResponse, getProviderId } from './aiProvider';
+import { OBJECT_STORES, idbGet, idbGetAll, idbPut, idbClear, idbCount } from './indexedDb';
+
+// ===== RECORD / REPLAY =====
+// 'record': every AI response is stored in IndexedDB keyed by a hash of the request.
+// 'replay': responses are served from the stored fixtures only — no key, no network.
+// The model name is left out of the hash so a replay hits regardless of which model
+// in the fallback chain answered while recording.
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+export interface AIFixture {
+    id: string;              // SHA-256 of the request (without model)
+    createdAt: string;       // ISO
+    model: string;           // model that produced the recorded response
+    promptPreview: string;   // first characters of the prompt, for humans reading the file
+    response: AIGenerateResponse;
+}
+
+export interface FixtureFile {
+    format: 'mrs-dung-ai-fixtures';
+    version: 1;
+    exportedAt: string;
+    fixtures: AIFixture[];
+}
+
+const RECORD_MODE_STORAGE = 'mrs_dung_record_mode';
+
+export const getRecordMode = (): RecordMode => {
+    if (typeof window !== 'undefined') {
+        return (localStorage.getItem(RECORD_MODE_STORAGE) as RecordMode) || 'off';
+    }
+    return 'off';
+};
+
+export const setRecordMode = (mode: RecordMode): void => {
+    if (typeof window !== 'undefined') {
+        localStorage.setItem(RECORD_MODE_STORAGE, mode);
+    }
+};
+
+export const hashRequest = async (request: AIGenerateRequest): Promise<string> => {
+    const canonical = JSON.stringify({ contents: request.contents, config: request.config || {} });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getPromptPreview = (request: AIGenerateRequest): string => {
+    const { contents } = request;
+    const parts = typeof contents === 'string'
+        ? [{ text: contents }]
+        : Array.isArray(contents) ? contents.flatMap(c => c.parts) : contents.parts;
+    return parts.map(p => p.text || (p.inlineData ? `[${p.inlineData.mimeType}]` : '')).join(' ').trim().slice(0, 200);
+};
+
+// Wrap a provider according to the current record mode. The base provider is created
+// lazily so replay mode never asks for an API key.
+export const withRecordReplay = (createBase: () => AIProvider): AIProvider => {
+    const mode = getRecordMode();
+    if (mode === 'off') return createBase();
+
+    if (mode === 'replay') {
+        return {
+            id: getProviderId(),
+            generateContent: async (request) => {
+                request.signal?.throwIfAborted();
+                const fixture = await idbGet<AIFixture>(OBJECT_STORES.AI_FIXTURES, await hashRequest(request));
+                if (!fixture) {
+                    throw new Error('REPLAY_MISS: Không tìm thấy dữ liệu đã ghi cho yêu cầu này. Hãy ghi lại ở chế độ "Ghi" hoặc nhập file fixture.');
+                }
+                return fixture.response;
+            },
+        };
+    }
+
+    const base = createBase();
+    return {
+        id: base.id,
+        generateContent: async (request) => {
+            const response = await base.generateContent(request);
+            await idbPut<AIFixture>(OBJECT_STORES.AI_FIXTURES, {
+                id: await hashRequest(request),
+                createdAt: new Date().toISOString(),
+                model: request.model,
+                promptPreview: getPromptPreview(request),
+                response,
+            });
+            return response;
+        },
+    };
+};
+
+// ─── Fixture file management ────────────────────────────────
+
+export const countFixtures = (): Promise<number> => idbCount(OBJECT_STORES.AI_FIXTURES);
+
+export const clearFixtures = (): Promise<void> => idbClear(OBJECT_STORES.AI_FIXTURES);
+
+export const exportFixtures = async (): Promise<Blob> => {
+    const file: FixtureFile = {
+        format: 'mrs-dung-ai-fixtures',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        fixtures: await idbGetAll<AIFixture>(OBJECT_STORES.AI_FIXTURES),
+    };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+// Returns the number of fixtures imported
+export const importFixtures = async (file: File): Promise<number> => {
+    const data = JSON.parse(await file.text()) as FixtureFile;
+    if (data?.format !== 'mrs-dung-ai-fixtures' || !Array.isArray(data.fixtures)) {
+        throw new Error('File không đúng định dạng fixture của Mrs. Dung.');
+    }
+    for (const fixture of data.fixtures) {
+        await idbPut<AIFixture>(OBJECT_STORES.AI_FIXTURES, fixture);
+    }
+    return data.fixtures.length;
+};
@@ -0,0 +1,143 @@
+import { AIProvider } from "./aiProvider";
+import { createAIError, toAIServiceError } from "./aiErrors";
+
+// ===== API KEY POOL =====
+// A teacher often has several free-tier keys (school account, personal account...). They are
+// kept as a named, ordered list. When a key hits its quota for a model it rests for a while
+// and the next key takes over the same request; only when every key is resting for that
+// model does callWithFallback move on to a weaker model.
+
+const KEYS_STORAGE = 'mrs_dung_api_keys';
+const COOLDOWN_STORAGE = 'mrs_dung_api_key_cooldowns';
+const LEGACY_KEY_STORAGE = 'mrs_dung_api_key';   // single key, before the pool existed
+
+const DEFAULT_COOLDOWN_MS = 60 * 1000;            // per-minute limits reset quickly
+
+export interface ApiKeyEntry {
+  id: string;
+  name: string;       // shown in settings and next to the step it served
+  key: string;
+}
+
+// Until when (epoch ms) a key rests, per model: quotas are counted per key and model
+type CooldownMap = Record<string, Record<string, number>>;
+
+export const generateApiKeyId = (): string =>
+  `key_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+export const saveApiKeys = (keys: ApiKeyEntry[]): void => {
+  const cleaned = keys
+    .map(k => ({ ...k, name: k.name.trim(), key: k.key.trim() }))
+    .filter(k => k.key)
+    .map((k, i) => ({ ...k, name: k.name || `Key ${i + 1}` }));
+  localStorage.setItem(KEYS_STORAGE, JSON.stringify(cleaned));
+  // Drop cooldowns of removed keys
+  const ids = new Set(cleaned.map(k => k.id));
+  const cooldowns = readCooldowns();
+  Object.keys(cooldowns).forEach(id => { if (!ids.has(id)) delete cooldowns[id]; });
+  writeCooldowns(cooldowns);
+};
+
+export const getApiKeys = (): ApiKeyEntry[] => {
+  if (typeof window === 'undefined') return [];
+  const stored = localStorage.getItem(KEYS_STORAGE);
+  if (stored) {
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+  // First run after the update: turn the single saved key into the first entry of the pool
+  const legacy = localStorage.getItem(LEGACY_KEY_STORAGE);
+  if (!legacy) return [];
+  const migrated = [{ id: generateApiKeyId(), name: 'Key chính', key: legacy }];
+  saveApiKeys(migrated);
+  localStorage.removeItem(LEGACY_KEY_STORAGE);
+  return migrated;
+};
+
+// ===== COOLDOWNS =====
+
+const readCooldowns = (): CooldownMap => {
+  try {
+    return JSON.parse(localStorage.getItem(COOLDOWN_STORAGE) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeCooldowns = (cooldowns: CooldownMap): void => {
+  localStorage.setItem(COOLDOWN_STORAGE, JSON.stringify(cooldowns));
+};
+
+// Gemini says how long to wait ("retryDelay": "37s" / "Please retry in 37.2s"); a daily
+// quota ("PerDay") only comes back after midnight
+export const quotaCooldownMs = (detail: string): number => {
+  if (/per\s?day/i.test(detail)) {
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    return midnight.getTime() - Date.now();
+  }
+  const match = detail.match(/retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : DEFAULT_COOLDOWN_MS;
+};
+
+export const setKeyCooldown = (keyId: string, model: string, ms: number): void => {
+  const cooldowns = readCooldowns();
+  cooldowns[keyId] = { ...cooldowns[keyId], [model]: Date.now() + ms };
+  writeCooldowns(cooldowns);
+};
+
+// Models a key is resting for right now, with the time it becomes usable again
+export const getKeyCooldowns = (keyId: string): Array<{ model: string; until: number }> => {
+  const now = Date.now();
+  return Object.entries(readCooldowns()[keyId] || {})
+    .filter(([, until]) => until > now)
+    .map(([model, until]) => ({ model, until }));
+};
+
+export const clearKeyCooldowns = (): void => {
+  localStorage.removeItem(COOLDOWN_STORAGE);
+};
+
+const isResting = (cooldowns: CooldownMap, keyId: string, model: string): boolean =>
+  (cooldowns[keyId]?.[model] || 0) > Date.now();
+
+// ===== ROTATING PROVIDER =====
+
+// Try the keys in list order, skipping those resting for the requested model. A quota error
+// puts the key to rest and hands the request to the next key; any other error is returned
+// as-is so callWithFallback can classify it.
+export const withKeyRotation = (keys: ApiKeyEntry[], createProvider: (entry: ApiKeyEntry) => AIProvider): AIProvider => {
+  const providers = new Map<string, AIProvider>();
+  const providerFor = (entry: ApiKeyEntry) => {
+    if (!providers.has(entry.id)) providers.set(entry.id, createProvider(entry));
+    return providers.get(entry.id);
+  };
+
+  return {
+    id: 'gemini',
+    generateContent: async (request) => {
+      const available = keys.filter(k => !isResting(readCooldowns(), k.id, request.model));
+      let lastDetail = '';
+      for (const entry of available) {
+        try {
+          const response = await providerFor(entry).generateContent(request);
+          return { ...response, servedBy: entry.name };
+        } catch (error: any) {
+          const aiError = toAIServiceError(error, request.model);
+          if (aiError.kind !== 'quota') throw aiError;
+          setKeyCooldown(entry.id, request.model, quotaCooldownMs(aiError.detail));
+          lastDetail = aiError.detail;
+          console.warn(`🔑 Key "${entry.name}" hết hạn mức cho ${request.model}, chuyển sang key tiếp theo...`, aiError.detail);
+        }
+      }
+      throw createAIError(
+        'quota',
+        `RESOURCE_EXHAUSTED: Cả ${keys.length} API key đều đang hết hạn mức cho ${request.model}${lastDetail ? ` - ${lastDetail}` : ''}`,
+        { status: 429, model: request.model }
+      );
+    },
+  };
+};
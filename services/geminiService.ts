@@ -1,10 +1,21 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { LessonPlan, MindMapData, MindMapMode, PresentationScript, ContentResult, CharacterProfile, AppMode, ImageRatio, SpeechEvaluation } from "../types";
+import { Type, Modality } from "@google/genai";
+import { AIProvider, AIGenerateRequest, createGeminiProvider, createOpenAICompatibleProvider, getLocalServerConfig, getProviderId } from "./aiProvider";
+import { getRecordMode, withRecordReplay } from "./aiRecorder";
+import { AIServiceError, FATAL_AI_ERRORS, TRANSIENT_AI_ERRORS, createAIError, createCancelledError, throwIfCancelled, toAIServiceError } from "./aiErrors";
+import { validateLessonPlan, settleRemainingIssues, getSectionItems, replaceSectionItems, isLevelOnlyIssue, LessonItemIssue, LessonItemSection } from "../utils/contentValidator";
+import { getLessonSection, setLessonSection, withFreshIds, LESSON_SECTIONS } from "../utils/lessonSections";
+import { CEFR_LEVELS, LEVEL_LIMITS } from "../utils/lessonLevels";
+import { BLUEPRINT_ITEMS, DEFAULT_BLUEPRINT } from "../utils/testBlueprint";
+import { renderPrompt, getPromptVersion } from "./promptTemplates";
+import { UsageEvent, withUsageTracking, keyIdOf, createLessonUsageCollector } from "./usageTracker";
+import { getApiKeys, withKeyRotation } from "./apiKeyPool";
+import { attachMediaCues, subtitlesToSourceText } from "../utils/subtitles";
+import { FieldSpec, SchemaProblem, coerceToSchema, formatSchemaProblems, requiredFieldsSpec, ITEM_SPECS, SECTION_SPECS, VOCABULARY_ITEM_SPEC, GRAMMAR_SPEC, READING_SPEC, COMPREHENSION_SPEC } from "../utils/lessonSchema";
+import { BlueprintItemId, CEFRLevel, LessonPlan, LessonSectionId, TestBlueprint, GenerationProgress, GenerationStageId, GenerationStageState, GenerationStageResults, MindMapData, MindMapMode, PresentationScript, ContentResult, CharacterProfile, AppMode, ImageRatio, SpeechEvaluation, UploadedImage, LessonMediaSource } from "../types";
 
 // ===== API KEY MANAGEMENT =====
-// Priority: localStorage > environment variable
-const API_KEY_STORAGE = 'mrs_dung_api_key';
+// Keys live in the pool (services/apiKeyPool.ts); only the model choice is stored here
 const MODEL_STORAGE = 'mrs_dung_selected_model';
 
 // Model fallback order as per AI_INSTRUCTIONS.md
@@ -16,19 +27,6 @@ export const AVAILABLE_MODELS = [
   { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
 ];
 
-export const getApiKey = (): string | null => {
-  if (typeof window !== 'undefined') {
-    return localStorage.getItem(API_KEY_STORAGE);
-  }
-  return null;
-};
-
-export const setApiKey = (key: string): void => {
-  if (typeof window !== 'undefined') {
-    localStorage.setItem(API_KEY_STORAGE, key);
-  }
-};
-
 export const getSelectedModel = (): string => {
   if (typeof window !== 'undefined') {
     return localStorage.getItem(MODEL_STORAGE) || AVAILABLE_MODELS[0].id;
@@ -43,41 +41,86 @@ export const setSelectedModel = (modelId: string): void => {
 };
 
 export const hasApiKey = (): boolean => {
-  return !!getApiKey();
+  return getApiKeys().length > 0;
+};
+
+// Whether the selected provider has enough configuration to make calls
+export const isAIReady = (): boolean => {
+  if (getRecordMode() === 'replay') return true; // fixtures only, no key needed
+  if (getProviderId() === 'openai') {
+    const local = getLocalServerConfig();
+    return !!local.baseUrl.trim() && !!local.model.trim();
+  }
+  return hasApiKey();
 };
 
-// Create AI instance with API key from localStorage
-const getAI = () => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
+// Create the AI provider selected in settings (Gemini key pool, or local server),
+// wrapped for record/replay when that mode is on
+const getAI = (): AIProvider => withRecordReplay(() => {
+  if (getProviderId() === 'openai') {
+    return withUsageTracking(createOpenAICompatibleProvider(getLocalServerConfig()), 'local');
+  }
+  const keys = getApiKeys();
+  if (!keys.length) {
     throw new Error('API_KEY_REQUIRED: Vui lòng nhập API key để sử dụng ứng dụng');
   }
-  return new GoogleGenAI({ apiKey });
+  return withKeyRotation(keys, entry => withUsageTracking(createGeminiProvider(entry.key), keyIdOf(entry.key)));
+});
+
+// Models to try in order. A local server usually has a single model loaded,
+// so the OpenAI-compatible provider has a one-entry chain.
+export const getModelChain = (): Array<{ id: string; name: string }> => {
+  if (getProviderId() === 'openai') {
+    const { model } = getLocalServerConfig();
+    return [{ id: model, name: model }];
+  }
+  return AVAILABLE_MODELS;
 };
 
-// Retry with model fallback
+const MAX_TRANSIENT_RETRIES = 2;
+const BACKOFF_BASE_MS = 1500;
+
+// Backoff pause that ends early (with a cancelled error) when the signal fires
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(createCancelledError()); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Retry with model fallback. Errors are classified first:
+// - auth / safety / config: stop at once, another model would fail the same way
+// - overload / network: retry the same model with exponential backoff, then move on
+// - quota / parse / unknown: move on to the next model (quota only once every key in the pool is resting)
 export const callWithFallback = async <T>(
   fn: (model: string) => Promise<T>,
+  signal?: AbortSignal,
   startModelIndex: number = 0
 ): Promise<T> => {
-  const models = AVAILABLE_MODELS.slice(startModelIndex);
-  let lastError: Error | null = null;
+  const models = getModelChain().slice(startModelIndex);
+  let lastError: AIServiceError | null = null;
 
   for (const model of models) {
-    try {
-      return await fn(model.id);
-    } catch (error: any) {
-      lastError = error;
-      console.warn(`Model ${model.id} failed, trying next...`, error.message);
-      // Continue to next model
+    for (let attempt = 0; ; attempt++) {
+      throwIfCancelled(signal);
+      try {
+        return await fn(model.id);
+      } catch (error: any) {
+        lastError = toAIServiceError(error, model.id);
+        if (FATAL_AI_ERRORS.includes(lastError.kind)) throw lastError;
+        if (!TRANSIENT_AI_ERRORS.includes(lastError.kind) || attempt >= MAX_TRANSIENT_RETRIES) break;
+        const delay = BACKOFF_BASE_MS * 2 ** attempt;
+        console.warn(`Model ${model.id} ${lastError.kind}, thử lại sau ${delay}ms...`, lastError.detail);
+        await sleep(delay, signal);
+      }
     }
+    console.warn(`Model ${model.id} failed (${lastError.kind}), trying next...`, lastError.detail);
   }
 
   // All models failed
-  throw lastError || new Error('Tất cả các model đều thất bại');
+  throw lastError || createAIError('unknown', 'Tất cả các model đều thất bại');
 };
 
-export const fileToBase64 = (file: File): Promise<string> => {
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -282,10 +325,12 @@ export const stopTTS = () => {
 };
 
 // Optional: Gemini TTS for high-quality audio (can be used as enhancement)
-export const generateAudioFromContent = async (text: string): Promise<string> => {
+export const generateAudioFromContent = async (text: string, signal?: AbortSignal): Promise<string> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: "gemini-2.5-flash-preview-tts",
+    signal,
+    feature: 'tts',
     contents: [{ parts: [{ text }] }],
     config: {
       responseModalities: [Modality.AUDIO],
@@ -296,586 +341,386 @@ export const generateAudioFromContent = async (text: string): Promise<string> =>
       }
     },
   });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+  return response.parts[0]?.inlineData?.data || "";
 };
 
-export const generateLessonPlan = async (topicInput?: string, textInput?: string, images: string[] = []): Promise<LessonPlan> => {
-  const ai = getAI();
-  const imageParts = images.map(data => ({ inlineData: { data, mimeType: 'image/jpeg' } }));
-  const prompt = `MRS. DUNG AI - EXPERT PEDAGOGY MODE (CHUYÊN GIA TIẾNG ANH).
-  TASK: Analyze the provided content (text/images) and create a comprehensive lesson plan.
-  
-  ===== ⚠️⚠️⚠️ CRITICAL WARNING: ZERO TOLERANCE FOR GRADING ERRORS ⚠️⚠️⚠️ =====
-  
-  🚨 BẠN ĐANG TẠO BÀI KIỂM TRA CHO HỌC SINH THẬT! 🚨
-  - Nếu đáp án SAI → Học sinh bị chấm SAI → Học sinh mất niềm tin → THẤT BẠI!
-  - Mỗi câu hỏi PHẢI được kiểm tra 2 LẦN trước khi output
-  - KHÔNG ĐƯỢC phép ra đề 1 kiểu, đáp án 1 kiểu khác!
-  
-  ===== CRITICAL: 100% CONTENT EXTRACTION =====
-  ⚠️ QUAN TRỌNG NHẤT: Phải trích xuất CHÍNH XÁC và ĐẦY ĐỦ 100% nội dung từ nguồn!
-  - Nếu ảnh/văn bản có 10 từ vựng → tạo ĐÚNG 10 từ vựng, KHÔNG được bỏ sót
-  - Nếu ảnh/văn bản có 5 từ vựng → tạo ĐÚNG 5 từ vựng
-  - KHÔNG được tự thêm từ vựng mà nguồn không có
-  - KHÔNG được bỏ sót bất kỳ từ vựng nào trong nguồn
-  - Từ vựng phải GIỐNG HỆT với nội dung gốc (word, IPA, meaning, example)
-  
-  CRITICAL LANGUAGE REQUIREMENTS:
-  - GRAMMAR section:
-    * "topic": Keep in English (the grammar rule name)
-    * "explanation": MUST be in VIETNAMESE (giải thích bằng tiếng Việt, dễ hiểu cho học sinh)
-    * "examples": Each example MUST include Vietnamese translation in format: "English sentence" → "bản dịch tiếng việt viết thường"
-  
-  - VOCABULARY section (EXTRACT ALL FROM SOURCE):
-    * Extract EVERY SINGLE vocabulary word from the source - DO NOT SKIP ANY
-    * "word": English word (EXACTLY as shown in source)
-    * "ipa": IPA pronunciation (EXACTLY as shown in source if available)
-    * "meaning": Vietnamese meaning (EXACTLY as shown in source, lowercase)
-    * "example": English example sentence (EXACTLY as shown in source)
-    * "sentenceMeaning": Vietnamese translation of example (EXACTLY as shown in source, lowercase)
-  
-  ===== MEGATEST EXERCISE REQUIREMENTS (CHẤT LƯỢNG CHUYÊN GIA - 20 NĂM KINH NGHIỆM) =====
-  
-  🎓 YOU ARE A PROFESSIONAL ENGLISH TEACHER WITH 20 YEARS EXPERIENCE
-  You must create exercises with 100% grammatical accuracy. Every answer key must be verified.
-  
-  ===== ⚠️ CRITICAL: 80% CONTENT MUST USE INPUT VOCABULARY/GRAMMAR =====
-  
-  MANDATORY RULE: At least 80% of ALL exercises (32/40 questions) MUST directly use the vocabulary, 
-  grammar patterns, and concepts from the INPUT SOURCE provided by the user.
-  
-  EXAMPLE: If user provides these adverbs: "Always, Usually, Often, Sometimes, Never, Every day..."
-  Then 80% of your exercises MUST:
-  ✓ Multiple Choice: "I ____ go to school on foot." (A) always (B) tomorrow (C) yesterday (D) last week
-  ✓ Fill-blank: "She ____ drinks coffee in the morning." → Answer: usually/always/often
-  ✓ Scramble: "always / I / breakfast / have / at 7 AM / ." → "I always have breakfast at 7 AM."
-  ✓ Error ID: "He (A) go (B) always (C) to school (D) late." → Error at (A) or (B) based on grammar rules
-  
-  ❌ DO NOT create exercises about random topics unrelated to the input!
-  ❌ DO NOT ignore the input vocabulary and create exercises about colors when user gave time adverbs!
-  
-  HOW TO CALCULATE 80%:
-  - Total exercises = 10 MC + 10 Fill + 10 Scramble + 10 Error = 40 questions
-  - 80% = At least 32 questions MUST use input vocabulary/grammar
-  - Remaining 20% (8 questions) can introduce related/supporting concepts
-  
-  VERIFICATION CHECKLIST:
-  □ Did I use at least 8/10 Multiple Choice questions with input vocabulary?
-  □ Did I use at least 8/10 Fill-blank questions with input vocabulary?
-  □ Did I use at least 8/10 Scramble sentences with input vocabulary?
-  □ Did I use at least 8/10 Error ID sentences with input vocabulary?
-  
-  ===== ⚠️ CRITICAL: MATCH DIFFICULTY LEVEL WITH INPUT =====
-  
-  🎯 GOLDEN RULE: Exercise difficulty MUST match the input example sentences!
-  
-  STEP 1: Analyze the input sentences complexity:
-  - Simple: "He has a bat." (Subject + verb + object) = 4-5 words, basic verbs
-  - Medium: "I usually go to school by bus." = 6-8 words, more structure
-  - Complex: "She wants to buy a new dress for the party." = 8+ words, infinitives, clauses
-  
-  STEP 2: Create exercises at the SAME complexity level!
-  
-  ❌ WRONG EXAMPLE (INPUT IS SIMPLE BUT EXERCISE IS COMPLEX):
-  Input vocabulary: Bat - "He has a bat."
-  ❌ Exercise: "She wants to use the map to find her way." (TOO COMPLEX!)
-  ❌ Exercise: "I hit the ball with a bat." (MORE COMPLEX THAN INPUT!)
-  ❌ Exercise: "The map shows the way to the city." (TOO COMPLEX!)
-  
-  ✓ CORRECT EXAMPLE (MATCHING DIFFICULTY):
-  Input vocabulary: Bat - "He has a bat.", Map - "I need a map.", Bed - "The bed is big."
-  ✓ Multiple Choice: "He has a ____." (A) bat (B) car (C) book (D) pen
-  ✓ Fill-blank: "I need a ____." → map
-  ✓ Scramble: "has / He / a / bat / ." → "He has a bat."
-  ✓ Error ID: "He (A) have (B) a (C) bat (D) ." → Error at (A): "have" should be "has"
-  
-  DIFFICULTY MATCHING RULES:
-  1. If input uses 3-5 word sentences → Exercises use 3-5 word sentences
-  2. If input uses simple verbs (has, is, need) → Exercises use same simple verbs
-  3. If input uses basic structures (S + V + O) → Exercises use same basic structures
-  4. DO NOT add infinitives (to + verb) if input doesn't have them
-  5. DO NOT add complex clauses if input only has simple sentences
-  6. PREFER using the EXACT example sentences from input as exercise base
-  
-  VERIFICATION: Before submitting, check each exercise:
-  □ Is this sentence complexity similar to input examples?
-  □ Am I using vocabulary from the input, not new complex words?
-  □ Would a student who learned the input vocabulary understand this exercise?
-  
-  ===== FUNDAMENTAL GRAMMAR RULES CHECKLIST =====
-  Before creating ANY exercise, verify these 15 grammar rules:
-  
-  1. SUBJECT-VERB AGREEMENT:
-     - He/She/It + V-s/es: "She walks" ✓, "She walk" ❌
-     - I/You/We/They + V: "They walk" ✓, "They walks" ❌
-     - There is + singular, There are + plural
-  
-  2. VERB vs NOUN FORMS (CRITICAL!):
-     - VERB → NOUN examples:
-       * complain → complaint ("make a complaint" ✓, "make a complain" ❌)
-       * advise → advice ("give advice" ✓, "give advise" ❌)
-       * believe → belief ("have a belief" ✓)
-       * choose → choice ("make a choice" ✓)
-       * succeed → success ("achieve success" ✓)
-       * decide → decision ("make a decision" ✓)
-       * explain → explanation ("give an explanation" ✓)
-       * describe → description ("write a description" ✓)
-  
-  3. TENSE CONSISTENCY:
-     - Past markers (yesterday, last week, ago) → Past tense
-     - Present markers (every day, usually, always) → Present tense
-     - Now, at the moment → Present continuous
-     - Since, for + duration → Present perfect
-  
-  4. ARTICLES (a/an/the):
-     - a + consonant sound: "a book", "a university" (yoo-sound)
-     - an + vowel sound: "an apple", "an hour" (silent h)
-     - the = specific/known item
-     - No article: plural general, uncountable general
-  
-  5. PREPOSITIONS:
-     - listen TO music ✓ (not "listen music")
-     - depend ON ✓ (not "depend of")
-     - interested IN ✓ (not "interested on")
-     - good AT ✓ (not "good in")
-     - arrive AT (place) / arrive IN (city/country)
-     - on Monday, in January, at 5 o'clock
-  
-  6. PRONOUN FORMS:
-     - Subject: I, you, he, she, it, we, they
-     - Object: me, you, him, her, it, us, them
-     - Possessive adj: my, your, his, her, its, our, their
-     - Possessive pronoun: mine, yours, his, hers, ours, theirs
-     - "Him went home" ❌ → "He went home" ✓
-  
-  7. COMPARATIVE & SUPERLATIVE:
-     - Short adj: -er/-est (big → bigger → biggest)
-     - Long adj: more/most (beautiful → more beautiful)
-     - NEVER combine: "more bigger" ❌, "most biggest" ❌
-     - Irregular: good → better → best, bad → worse → worst
-  
-  8. ADVERB WORD ORDER:
-     - Frequency adverbs (always, usually, often, sometimes, never):
-       * Before main verb: "I always eat" ✓
-       * After BE verb: "She is always late" ✓, "She always is late" ❌
-  
-  9. INFINITIVE vs GERUND:
-     - want/need/decide/hope + TO + V: "want to go" ✓
-     - enjoy/finish/avoid/mind + V-ing: "enjoy swimming" ✓
-     - stop + to (purpose) vs stop + -ing (end activity)
-  
-  10. COUNTABLE vs UNCOUNTABLE:
-      - Uncountable: water, information, advice, furniture, news, homework
-      - "informations" ❌, "advices" ❌, "furnitures" ❌
-      - much/little + uncountable, many/few + countable
-  
-  11. RELATIVE PRONOUNS:
-      - who/that = people, which/that = things
-      - whose = possession, where = place, when = time
-  
-  12. CONDITIONALS:
-      - Type 0: If + present, present (general truth)
-      - Type 1: If + present, will + V (real future)
-      - Type 2: If + past, would + V (unreal present)
-      - Type 3: If + had + PP, would have + PP (unreal past)
-  
-  13. MODAL VERBS:
-      - Modal + base verb: "can swim" ✓, "can swims" ❌, "can to swim" ❌
-      - must/should/can/could/may/might/will/would
-  
-  14. PASSIVE VOICE:
-      - be + past participle: "is written", "was built", "has been done"
-      - "The book was wrote" ❌ → "The book was written" ✓
-  
-  15. THERE vs THEIR vs THEY'RE:
-      - there = location/existence, their = possession, they're = they are
-  
-  ===== EXERCISE-SPECIFIC REQUIREMENTS =====
-  
-  📝 MULTIPLE CHOICE (multipleChoice):
-  - "question": A sentence with ONE blank using "____" for the gap
-  - "options": 4 options [A, B, C, D] - only ONE grammatically correct
-  - "correctAnswer": Index of correct option (0-3)
-  - ⚠️ VERIFY: Check the correct answer against grammar rules above
-  - ⚠️ VERIFY: Ensure 3 wrong options are clearly grammatically incorrect
-  - "explanation": Vietnamese explanation with grammar rule reference
-  
-  MULTIPLE CHOICE VALIDATION EXAMPLE:
-  Question: "She ____ to school every day."
-  Options: ["go", "goes", "going", "went"]
-  ✓ Check: Subject "She" (3rd person singular) + "every day" (present habit)
-  ✓ Rule 1: She + V-s = "goes"
-  ✓ correctAnswer: 1 (index of "goes")
-
-  📝 FILL-IN-THE-BLANK (fillBlank):
-  ⚠️ CRITICAL: ONLY 1 WORD ANSWER, ONLY 1 BLANK
-  - "question": Complete sentence with exactly ONE blank "____"
-  - "correctAnswer": EXACTLY 1 WORD (no phrases like "am eating")
-  - "alternativeAnswers": Array of alternative correct answers (if multiple words are equally correct)
-    ⚠️ IMPORTANT: If input teaches that multiple words are interchangeable (e.g., "although/though", "because/since"),
-    then include ALL valid alternatives! Example:
-    - If prompt says "although/though are interchangeable" → Use "correctAnswer": "although", "alternativeAnswers": ["though"]
-    - If prompt says "because/since/as can be used" → Use "correctAnswer": "because", "alternativeAnswers": ["since", "as"]
-  - "explanation": Vietnamese explanation
-  - ⚠️ VERIFY: The completed sentence must be 100% grammatically correct
-  
-  FILL-BLANK VALIDATION EXAMPLE:
-  Question: "____ it rained, they went to the cinema." → Answer: "Although"
-  ✓ If input teaches both "although" and "though" are correct:
-    correctAnswer: "Although", alternativeAnswers: ["Though"]
-  ✓ Both answers will be accepted as correct!
-  
-  ===== 🚨🚨🚨 ERROR IDENTIFICATION - MANDATORY DOUBLE-CHECK PROTOCOL 🚨🚨🚨 =====
-  
-  📝 ERROR IDENTIFICATION (errorId):
-  ⚠️ ĐÂY LÀ PHẦN DỄ SAI NHẤT! PHẢI KIỂM TRA THẬT KỸ!
-  
-  🔴🔴🔴 CRITICAL - ĐỌC KỸ VÀ LÀM ĐÚNG 🔴🔴🔴
-  
-  INDEX MAPPING TABLE - HỌC THUỘC LÒNG:
-  ┌─────────┬─────────────────────┐
-  │ CHỮ CÁI │ correctOptionIndex  │
-  ├─────────┼─────────────────────┤
-  │   (A)   │         0           │
-  │   (B)   │         1           │
-  │   (C)   │         2           │
-  │   (D)   │         3           │
-  └─────────┴─────────────────────┘
-  
-  📋 QUY TRÌNH BẮT BUỘC 5 BƯỚC:
-  
-  BƯỚC 1 - TẠO CÂU:
-  Viết câu có ĐÚNG 1 lỗi ngữ pháp. Đánh dấu 4 phần (A), (B), (C), (D).
-  
-  BƯỚC 2 - TÌM LỖI:
-  Xác định CHỮ CÁI của phần có lỗi. Ví dụ: "Lỗi ở phần (A)"
-  
-  BƯỚC 3 - CHUYỂN ĐỔI CHỮ CÁI SANG INDEX:
-  Dùng bảng trên: A→0, B→1, C→2, D→3
-  Ví dụ: Lỗi ở (A) → correctOptionIndex = 0
-  
-  BƯỚC 4 - GHI VÀO JSON:
-  "correctOptionIndex": [số đã tính ở bước 3]
-  
-  BƯỚC 5 - KIỂM TRA NGƯỢC (BẮT BUỘC!):
-  Đọc lại explanation và xem phần có lỗi có khớp với options[correctOptionIndex] không.
-  Nếu explanation nói "lỗi ở go" thì options[correctOptionIndex] PHẢI chứa "go"!
-  
-  ===== VÍ DỤ THỰC TẾ - LÀM THEO Y HỆT =====
-  
-  📌 VÍ DỤ 1 - LỖI Ở (A):
-  sentence: "She (A) have (B) a (C) table (D) ."
-  options: ["(A) have", "(B) a", "(C) table", "(D) ."]
-  
-  Bước 2: Lỗi ở "have" → Đây là phần (A)
-  Bước 3: (A) → index 0
-  Bước 4: correctOptionIndex: 0
-  Bước 5: options[0] = "(A) have" ✓ KHỚP VỚI LỖI!
-  
-  explanation: "Lỗi ở (A). 'She' là ngôi 3 số ít → dùng 'has', không phải 'have'."
-  
-  📌 VÍ DỤ 2 - LỖI Ở (B):
-  sentence: "The (A) bananas (B) is (C) yellow (D) ."
-  options: ["(A) bananas", "(B) is", "(C) yellow", "(D) ."]
-  
-  Bước 2: Lỗi ở "is" → Đây là phần (B)
-  Bước 3: (B) → index 1
-  Bước 4: correctOptionIndex: 1
-  Bước 5: options[1] = "(B) is" ✓ KHỚP VỚI LỖI!
-  
-  explanation: "Lỗi ở (B). 'bananas' là số nhiều → dùng 'are', không phải 'is'."
-  
-  📌 VÍ DỤ 3 - LỖI Ở (A) VỚI THÌ QUÁ KHỨ:
-  sentence: "I (A) go (B) to (C) the aquarium (D) yesterday."
-  options: ["(A) go", "(B) to", "(C) the aquarium", "(D) yesterday"]
-  
-  Bước 2: "yesterday" = thời gian quá khứ → lỗi ở "go" cần đổi thành "went"
-          "go" nằm ở phần (A)
-  Bước 3: (A) → index 0
-  Bước 4: correctOptionIndex: 0
-  Bước 5: options[0] = "(A) go" ✓ KHỚP! 
-          ❌ KHÔNG PHẢI options[1] = "(B) to"!
-  
-  explanation: "Lỗi ở (A). 'yesterday' là thời gian quá khứ → 'go' phải đổi thành 'went'."
-  
-  ⚠️ LƯU Ý: Trong ví dụ trên, "to" KHÔNG có lỗi! "go to" là đúng ngữ pháp.
-  Lỗi là ở THÌ của động từ (go → went), không phải ở giới từ "to".
-  
-  📌 VÍ DỤ 4 - LỖI Ở (D):
-  sentence: "He (A) put (B) the (C) cup (D) in the table."
-  options: ["(A) put", "(B) the", "(C) cup", "(D) in the table"]
-  
-  Bước 2: Lỗi ở "in the table" → phải dùng "on" (vật ở TRÊN bề mặt)
-          "in the table" nằm ở phần (D)
-  Bước 3: (D) → index 3
-  Bước 4: correctOptionIndex: 3
-  Bước 5: options[3] = "(D) in the table" ✓ KHỚP VỚI LỖI!
-  
-  explanation: "Lỗi ở (D). Vật ở TRÊN bề mặt → dùng 'on', không phải 'in'."
-  
-  📌 VÍ DỤ 5 - LỖI Ở (C):
-  sentence: "They (A) went (B) to (C) school yesterday (D) ."
-  options: ["(A) went", "(B) to", "(C) school yesterday", "(D) ."]
-  
-  Giả sử câu này đúng ngữ pháp, KHÔNG có lỗi → ĐỔI thành câu khác!
-  
-  sentence: "She (A) can (B) swims (C) very fast (D) ."
-  options: ["(A) can", "(B) swims", "(C) very fast", "(D) ."]
-  
-  Bước 2: "can" là modal verb → động từ theo sau phải ở dạng nguyên
-          "swims" sai, phải là "swim" → Lỗi ở (B)
-  Bước 3: (B) → index 1
-  Bước 4: correctOptionIndex: 1
-  Bước 5: options[1] = "(B) swims" ✓ KHỚP VỚI LỖI!
-  
-  explanation: "Lỗi ở (B). Sau 'can' động từ phải ở dạng nguyên → 'swim', không phải 'swims'."
-  
-  ===== ❌ SAI LẦM THƯỜNG GẶP - TUYỆT ĐỐI KHÔNG LÀM ❌ =====
-  
-  ❌ SAI LẦM 1: Explanation nói lỗi ở "go" nhưng correctOptionIndex = 1
-  Vì "go" ở phần (A) → correctOptionIndex PHẢI = 0, không phải 1!
-  
-  ❌ SAI LẦM 2: Nhầm lẫn giữa vị trí xuất hiện và chữ cái
-  "go" xuất hiện đầu tiên NHƯNG nó có thể là (A), (B), (C) hoặc (D) tùy câu
-  → Luôn xem chữ cái trong ngoặc đơn, KHÔNG đếm vị trí!
-  
-  ===== KIỂM TRA CUỐI CÙNG CHO ERROR ID =====
-  
-  🔍 FINAL CHECK - ĐỌC TO VÀ TRẢ LỜI:
-  
-  1. Explanation nói lỗi ở từ/cụm từ nào? → Ghi ra: "__________"
-  2. Từ/cụm từ đó nằm ở chữ cái nào (A/B/C/D)? → Ghi ra: "(___)"
-  3. Chữ cái đó tương ứng với index mấy? → A=0, B=1, C=2, D=3 → Index: ___
-  4. correctOptionIndex trong JSON có = index ở bước 3 không? → CÓ ✓ / KHÔNG ❌
-  
-  Nếu bước 4 = KHÔNG → SỬA LẠI correctOptionIndex!
-  
-  ===== 🚨🚨🚨 SCRAMBLE - MANDATORY WORD MATCH VALIDATION 🚨🚨🚨 =====
-
-  📝 SCRAMBLE (scramble):
-  ⚠️ LỖI THƯỜNG GẶP NHẤT: TỪ TRONG SCRAMBLED KHÔNG KHỚP VỚI CORRECTSENTENCE!
-  
-  🔴 QUY TẮC VÀNG: scrambled PHẢI chứa CHÍNH XÁC các từ trong correctSentence!
-  
-  📋 QUY TRÌNH BẮT BUỘC CHO MỖI CÂU SCRAMBLE:
-  
-  BƯỚC 1 - VIẾT CORRECTSENTENCE TRƯỚC:
-  Viết câu hoàn chỉnh, kiểm tra ngữ pháp 100% đúng.
-  Ví dụ: "He has a bat."
-  
-  BƯỚC 2 - TÁCH TỪ:
-  Tách correctSentence thành mảng từ (bao gồm cả dấu câu).
-  Ví dụ: ["He", "has", "a", "bat", "."] → 5 phần tử
-  
-  BƯỚC 3 - XÁO TRỘN:
-  Xáo trộn mảng từ để tạo scrambled.
-  Ví dụ: ["bat", "a", "He", "has", "."] → 5 phần tử
-  
-  BƯỚC 4 - XÁC MINH:
-  ĐẾM SỐ PHẦN TỬ: scrambled.length === correctSentence (đã tách).length?
-  SO SÁNH TỪ: Mỗi từ trong scrambled có trong correctSentence không?
-  
-  ===== VÍ DỤ ĐÚNG =====
-  
-  VÍ DỤ 1:
-  ✓ correctSentence: "He has a bat."
-  ✓ Tách từ: ["He", "has", "a", "bat", "."] (5 từ)
-  ✓ scrambled: ["bat", "a", "He", "has", "."] (5 từ) ✓ KHỚP!
-  
-  VÍ DỤ 2:
-  ✓ correctSentence: "This is a green apple."
-  ✓ Tách từ: ["This", "is", "a", "green", "apple", "."] (6 từ)
-  ✓ scrambled: ["green", "a", "apple", "This", "is", "."] (6 từ) ✓ KHỚP!
-  
-  ===== VÍ DỤ SAI - TUYỆT ĐỐI KHÔNG LÀM =====
-  
-  ❌ SAI - THỪA TỪ:
-  correctSentence: "I like pizza."
-  scrambled: ["to", "I", "pizza", "like", "."] ← Thừa "to"! WRONG!
-  
-  ❌ SAI - THIẾU TỪ:
-  correctSentence: "This is a green apple."
-  scrambled: ["green", "apple", "This", "is", "."] ← Thiếu "a"! WRONG!
-  
-  ❌ SAI - TỪ KHÁC:
-  correctSentence: "This is a green apple."
-  scrambled: ["green", "an", "apple", "This", "is", "."] ← "an" thay vì "a"! WRONG!
-  
-  ===== KIỂM TRA CUỐI CÙNG CHO SCRAMBLE =====
-  Trước khi submit mỗi câu Scramble, TRẢ LỜI các câu hỏi:
-  □ correctSentence có đúng ngữ pháp 100% không?
-  □ Tôi đã tách correctSentence thành từng từ chưa?
-  □ scrambled có ĐÚNG số từ như correctSentence không?
-  □ Mỗi từ trong scrambled có xuất hiện trong correctSentence không?
-  □ Không có từ thừa, từ thiếu, hay từ bị thay đổi?
-
-  MANDATORY REQUIREMENTS:
-  1. Extract 100% of vocabulary and grammar from source
-  2. Create EXACTLY 10 Multiple Choice Questions
-  3. Create EXACTLY 10 Scramble Questions
-  4. Create EXACTLY 10 Fill-in-the-blank Questions
-  5. Create EXACTLY 10 Vocabulary Translation Questions (vocabTranslation)
-  6. Create EXACTLY 5 True/False Reading Comprehension Questions (trueFalse)
-  7. Create EXACTLY 5 Listening Comprehension Questions (listening)
-  NOTE: Do NOT create Error Identification Questions.
-  TOTAL: 10 + 10 + 10 + 10 + 5 + 5 = 50 questions (graded on 10-point scale)
-  
-  ===== 📝 VOCABULARY TRANSLATION (vocabTranslation) =====
-  Bài tập từ vựng Anh-Việt: Cho từ tiếng Anh, chọn 1 trong 4 nghĩa tiếng Việt đúng.
-  
-  STRUCTURE:
-  {
-    "id": "vocab_1",
-    "word": "apple",
-    "options": ["quả táo", "quả cam", "quả chuối", "quả lê"],
-    "correctAnswer": 0,
-    "explanation": "'apple' nghĩa là 'quả táo'"
+// ===== LESSON GENERATION PIPELINE =====
+// The lesson is built in steps (AI_INSTRUCTIONS.md §1/§3): each step has its own prompt and
+// schema, runs through the model fallback chain, and its result is kept in GenerationProgress
+// so a retry after a failure resumes from the failed step instead of starting over.
+
+export const GENERATION_STAGES: Array<{ id: GenerationStageId; label: string; icon: string }> = [
+  { id: 'extract', label: 'Bước 1: Trích xuất từ vựng & ngữ pháp', icon: '🔍' },
+  { id: 'exercises', label: 'Bước 2: Soạn bài tập', icon: '✏️' },
+  { id: 'reading', label: 'Bước 3: Bài đọc & nghe', icon: '📖' },
+  { id: 'verify', label: 'Kiểm tra đáp án', icon: '✅' },
+];
+
+export const createGenerationProgress = (): GenerationProgress => ({
+  stages: Object.fromEntries(GENERATION_STAGES.map(s => [s.id, { status: 'pending' }])) as GenerationProgress['stages'],
+  results: {},
+});
+
+export interface LessonGenerationOptions {
+  resumeFrom?: GenerationProgress;          // progress of a failed run; finished steps are not repeated
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;                     // Cancel button: stops the current step and the ones after it
+  level?: CEFRLevel;                        // teacher's choice; undefined = detect from the source
+  grade?: number;
+  blueprint?: TestBlueprint;                // exercise types/counts; defaults to the full 50-question test
+  media?: LessonMediaSource;                // subtitle/lyric lines; replaces textInput as the source
+}
+
+// Subtitle lessons: the items the media player can cue must quote the timed lines
+const MEDIA_EXERCISE_RULES = [
+  'fillBlank: every sentence MUST be one line of the SOURCE TEXT (song lyric / subtitle) copied word for word, without the [mm:ss] time, with ONE key word replaced by ___ (lyric gap-fill)',
+];
+const MEDIA_READING_RULES = [
+  'listening: every audioText MUST be one or two consecutive lines of the SOURCE TEXT copied word for word, without the [mm:ss] time',
+];
+
+const sourceParts = (topicInput?: string, textInput?: string): any[] => {
+  const parts: any[] = [];
+  if (textInput) parts.push({ text: `SOURCE TEXT:\n${textInput}` });
+  if (topicInput) parts.push({ text: `TOPIC FOCUS:\n${topicInput}` });
+  return parts;
+};
+
+// The chosen (or detected) level replaces the model's own guess in the difficulty rules
+const buildLevelBlock = (level?: CEFRLevel, grade?: number): string => level
+  ? `===== 🎯 TARGET LEVEL: ${level}${grade ? ` (LỚP ${grade})` : ''} =====
+  - ${LEVEL_LIMITS[level].description}
+  - Every exercise sentence/statement: at most ${LEVEL_LIMITS[level].maxSentenceWords} words
+  - Apart from the lesson vocabulary, use only words a ${level} learner already knows
+  - This level OVERRIDES the automatic difficulty analysis in the rules below.`
+  : `===== 🎯 TARGET LEVEL =====
+  - Not chosen by the teacher: analyze the source (sentence length, vocabulary, tenses) and return it as "level" (${CEFR_LEVELS.join(', ')}).`;
+
+const BLUEPRINT_INSTRUCTIONS: Record<BlueprintItemId, (count: number) => string> = {
+  multipleChoice: n => `Create EXACTLY ${n} Multiple Choice Questions (multipleChoice)`,
+  scramble: n => `Create EXACTLY ${n} Scramble Questions (scramble)`,
+  fillBlank: n => `Create EXACTLY ${n} Fill-in-the-blank Questions (fillBlank)`,
+  errorId: n => `Create EXACTLY ${n} Error Identification Questions (errorId), each with its "correction"`,
+  vocabTranslation: n => `Create EXACTLY ${n} Vocabulary Translation Questions (vocabTranslation)`,
+  matching: n => `Create EXACTLY ${n} matching pairs (matching): "left" = English word from the vocabulary, "right" = its Vietnamese meaning`,
+  trueFalse: n => `Create EXACTLY ${n} True/False Reading Comprehension Questions (trueFalse) with their trueFalsePassage`,
+  listening: n => `Create EXACTLY ${n} Listening Comprehension Questions (listening)`,
+};
+
+// Exercise types of one step that the blueprint keeps
+const stageItems = (blueprint: TestBlueprint, stage: 'exercises' | 'reading') =>
+  BLUEPRINT_ITEMS.filter(item => item.stage === stage && blueprint[item.id] > 0);
+
+// The numbered MANDATORY list for one step, taken from the blueprint
+const buildRequirements = (blueprint: TestBlueprint, stage: 'exercises' | 'reading', first: string[] = []): string => {
+  const lines = [...first, ...stageItems(blueprint, stage).map(item => BLUEPRINT_INSTRUCTIONS[item.id](blueprint[item.id]))];
+  const skipped = BLUEPRINT_ITEMS.filter(item => item.stage === stage && !(blueprint[item.id] > 0)).map(item => item.id);
+  return `MANDATORY REQUIREMENTS (the teacher's test blueprint - these counts OVERRIDE any number in the rules above):
+  ${lines.map((line, i) => `${i + 1}. ${line}`).join('\n  ')}
+  ${skipped.length ? `NOTE: Do NOT create ${skipped.join(', ')} - the teacher left them out. Ignore their rules above.` : ''}`;
+};
+
+// FNV-1a over everything the steps are built from: topic, source text, images, level, blueprint, media
+const fingerprintInputs = (parts: any[]): string => {
+  const text = JSON.stringify(parts);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
-  
-  RULES:
-  - "word": Từ tiếng Anh từ bài học vocabulary
-  - "options": 4 nghĩa tiếng Việt (1 đúng, 3 sai nhưng hợp lý)
-  - "correctAnswer": Index của đáp án đúng (0-3)
-  - ⚠️ 3 đáp án sai PHẢI là từ cùng chủ đề, KHÔNG quá dễ nhận ra
-  - ⚠️ PHẢI sử dụng từ vựng từ vocabulary section của bài học
-  
-  ===== 📝 TRUE/FALSE READING (trueFalse + trueFalsePassage) =====
-  Bài tập đọc hiểu True/False: MỘT bài đọc cố định + 5 câu hỏi True/False dựa trên bài đọc đó.
-  
-  ⚠️ QUAN TRỌNG: BẠN PHẢI TẠO 2 PHẦN:
-  1. "trueFalsePassage": Một đoạn văn tiếng Anh 100-150 từ về chủ đề bài học
-  2. "trueFalse": 5 câu hỏi True/False DỰA TRÊN đoạn văn đó
-  
-  🎯 CRITICAL: PASSAGE DIFFICULTY MUST MATCH INPUT VOCABULARY LEVEL 🎯
-  
-  STEP 1 - ANALYZE INPUT DIFFICULTY:
-  Xem xét từ vựng và câu ví dụ đầu vào để xác định trình độ:
-  
-  📗 BEGINNER (Cơ bản - A1/A2):
-  - Từ vựng đơn giản: apple, cat, dog, school, family, big, small
-  - Câu ví dụ ngắn: "He has a bat.", "I like pizza.", "She is happy."
-  - Cấu trúc: Subject + Verb + Object (3-6 từ)
-  → Tạo passage với câu ngắn 5-8 từ, từ vựng đơn giản, thì hiện tại đơn
-  
-  📘 INTERMEDIATE (Trung cấp - B1):
-  - Từ vựng phong phú hơn: environment, technology, experience
-  - Câu ví dụ dài hơn: "I usually go to school by bus every morning."
-  - Cấu trúc: Có trạng từ, giới từ (6-12 từ)
-  → Tạo passage với câu 8-15 từ, nhiều thì, từ nối đơn giản
-  
-  📙 ADVANCED (Nâng cao - B2+):
-  - Từ vựng học thuật: sustainable, consequence, phenomenon
-  - Câu phức tạp với mệnh đề phụ, infinitive, gerund
-  → Tạo passage với câu phức, từ nối logic, nhiều thì
-  
-  STEP 2 - USE INPUT VOCABULARY IN PASSAGE:
-  ⚠️ BẮT BUỘC: Passage PHẢI sử dụng ÍT NHẤT 5 từ vựng từ vocabulary section đầu vào!
-  Điều này giúp học sinh ôn tập từ vựng đã học qua ngữ cảnh đọc hiểu.
-  
-  EXAMPLE - BEGINNER LEVEL:
-  Input vocab: cat, dog, big, small, happy
-  → trueFalsePassage: "I have a cat. My cat is small. It is very happy. My friend has a dog. The dog is big. The cat and the dog are friends. They play together every day."
-  
-  EXAMPLE - INTERMEDIATE LEVEL:  
-  Input vocab: environment, protect, recycle, pollution, nature
-  → trueFalsePassage: "Today, many people want to protect the environment. They recycle paper, plastic, and glass. Pollution is a big problem in cities. We should take care of nature and plant more trees. Everyone can help protect our planet."
-  
-  STRUCTURE FOR trueFalsePassage:
-  "trueFalsePassage": "[Đoạn văn 150-200 từ PHÙ HỢP VỚI TRÌNH ĐỘ từ vựng đầu vào]"
-  
-  STRUCTURE FOR trueFalse:
-  {
-    "id": "tf_1",
-    "statement": "Tom is a teacher.",
-    "isTrue": false,
-    "explanation": "Sai. Theo bài đọc, Tom là học sinh (student), không phải giáo viên."
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+};
+
+export const generateLessonPlan = async (
+  topicInput?: string,
+  textInput?: string,
+  images: UploadedImage[] = [],
+  options: LessonGenerationOptions = {}
+): Promise<LessonPlan> => {
+  const ai = getAI();
+  const imageParts = images.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } }));
+
+  // Finished steps keep their results; anything else (failed or interrupted) runs again.
+  // Results of a run made from other inputs (the teacher edited the topic, pages, level...) are not reused.
+  const inputKey = fingerprintInputs([
+    topicInput, textInput, images.map(img => img.data), options.level, options.grade, options.blueprint, options.media,
+  ]);
+  const resumeFrom = options.resumeFrom?.inputKey === inputKey ? options.resumeFrom : undefined;
+  if (options.resumeFrom && !resumeFrom) console.warn('🔁 Nội dung đầu vào đã đổi, soạn lại từ bước đầu.');
+  let progress: GenerationProgress = { ...createGenerationProgress(), inputKey };
+  if (resumeFrom) {
+    progress.results = { ...resumeFrom.results };
+    GENERATION_STAGES.forEach(({ id }) => {
+      if (id !== 'verify' && resumeFrom.stages[id].status === 'done' && progress.results[id]) {
+        progress.stages[id] = { ...resumeFrom.stages[id] };
+      }
+    });
   }
-  
-  RULES:
-  - "trueFalsePassage": 150-200 từ, ĐỘ KHÓ TƯƠNG ĐƯƠNG với từ vựng đầu vào
-  - "trueFalsePassage": PHẢI sử dụng ít nhất 5 từ từ vocabulary section
-  - "statement": Một câu khẳng định VỀ NỘI DUNG BÀI ĐỌC (tiếng Anh)
-  - "isTrue": true hoặc false
-  - "explanation": Giải thích bằng tiếng Việt, trích dẫn thông tin từ bài đọc
-  - ⚠️ TẤT CẢ 5 statements PHẢI dựa trên trueFalsePassage
-  - ⚠️ 2-3 câu TRUE, 2-3 câu FALSE (cân bằng)
-  - ⚠️ KHÔNG được tạo statement về thông tin không có trong bài đọc
-  - ⚠️ Câu hỏi cũng phải PHÙ HỢP trình độ (câu hỏi đơn giản cho beginner)
-  
-  ===== 📝 LISTENING COMPREHENSION (listening) =====
-  Bài tập nghe hiểu: 5 câu hỏi nghe với Text-to-Speech.
-  
-  STRUCTURE:
-  {
-    "id": "listen_1",
-    "audioText": "I go to school every day.",
-    "options": ["I go to school every day.", "I go to work every day.", "I go to the park every day.", "I stay home every day."],
-    "correctAnswer": 0,
-    "explanation": "Câu nghe là 'I go to school every day.' - Tôi đi học mỗi ngày."
+
+  const updateStage = (stage: GenerationStageId, state: Partial<GenerationStageState>) => {
+    progress = { ...progress, stages: { ...progress.stages, [stage]: { ...progress.stages[stage], ...state } } };
+    options.onProgress?.(progress);
+  };
+  options.onProgress?.(progress);
+
+  // Tokens of every call (retries and repairs included) add up to the lesson's cost
+  const usage = createLessonUsageCollector(resumeFrom?.usage);
+  const onUsage = (event: UsageEvent) => {
+    usage.add(event);
+    progress = { ...progress, usage: usage.get() };
+  };
+
+  const STAGE_FEATURES = { extract: 'lessonExtract', exercises: 'lessonExercises', reading: 'lessonReading' } as const;
+
+  const runStage = async <K extends 'extract' | 'exercises' | 'reading'>(
+    stage: K,
+    contents: any[],
+    responseSchema: any | null,          // null = the blueprint has nothing for this step
+    spec: FieldSpec
+  ): Promise<GenerationStageResults[K]> => {
+    if (progress.stages[stage].status === 'done') return progress.results[stage];
+    if (!responseSchema) {
+      updateStage(stage, { status: 'skipped' });
+      return {} as GenerationStageResults[K];
+    }
+    updateStage(stage, { status: 'running', error: undefined });
+    try {
+      // Use fallback mechanism - automatically retry with next model if current fails
+      const result = await callWithFallback(async (modelId: string) => {
+        console.log(`🤖 [${stage}] Đang thử với model: ${modelId}`);
+        updateStage(stage, { model: modelId });
+        const request: AIGenerateRequest = {
+          model: modelId,
+          signal: options.signal,
+          feature: STAGE_FEATURES[stage],
+          onUsage,
+          contents: { parts: contents },
+          config: { responseMimeType: "application/json", responseSchema }
+        };
+        const response = await ai.generateContent(request);
+        if (response.servedBy) updateStage(stage, { servedBy: response.servedBy });
+        return parseWithSchema<GenerationStageResults[K]>(response.text, spec, request);
+      }, options.signal);
+      progress = { ...progress, results: { ...progress.results, [stage]: result } };
+      updateStage(stage, { status: 'done' });
+      return result;
+    } catch (error: any) {
+      updateStage(stage, { status: 'error', error: error.message });
+      throw error;
+    }
+  };
+
+  const blueprint = options.blueprint || DEFAULT_BLUEPRINT;
+  const source = sourceParts(topicInput, options.media ? subtitlesToSourceText(options.media) : textInput);
+  const mediaRules = (rules: string[]) => (options.media ? rules : []);
+  const extracted = await runStage('extract', [...source, ...imageParts, { text: renderPrompt('lessonExtract', { levelBlock: buildLevelBlock(options.level, options.grade), topic: topicInput, level: options.level }) }], extractStageSchema, extractStageSpec);
+  const level = options.level || (CEFR_LEVELS.includes(extracted.level) ? extracted.level : undefined);
+  // Later steps work from the extracted lesson, so the images are not sent again
+  const stageVariables = { lesson: JSON.stringify(extracted), levelBlock: buildLevelBlock(level, options.grade), topic: extracted.topic, level };
+  const exercises = await runStage('exercises', [...source, {
+    text: renderPrompt('lessonExercises', { ...stageVariables, requirements: buildRequirements(blueprint, 'exercises', mediaRules(MEDIA_EXERCISE_RULES)) }),
+  }], buildStageSchema(blueprint, 'exercises'), buildStageSpec(blueprint, 'exercises'));
+  const reading = await runStage('reading', [...source, {
+    text: renderPrompt('lessonReading', { ...stageVariables, requirements: buildRequirements(blueprint, 'reading', ['Create the reading passage with translation and comprehension questions (reading)', ...mediaRules(MEDIA_READING_RULES)]) }),
+  }], buildStageSchema(blueprint, 'reading'), buildStageSpec(blueprint, 'reading'));
+
+  const lesson: LessonPlan = {
+    ...extracted,
+    level,
+    grade: options.grade,
+    blueprint,
+    promptVersions: {
+      lessonExtract: getPromptVersion('lessonExtract'),
+      lessonExercises: getPromptVersion('lessonExercises'),
+      lessonReading: getPromptVersion('lessonReading'),
+    },
+    reading: reading.reading,
+    homework: undefined,
+    practice: {
+      listening: reading.listening || [],
+      megaTest: {
+        multipleChoice: exercises.multipleChoice || [],
+        scramble: exercises.scramble || [],
+        fillBlank: exercises.fillBlank || [],
+        vocabTranslation: exercises.vocabTranslation || [],
+        matching: exercises.matching || [],
+        errorId: exercises.errorId || [],
+        trueFalsePassage: reading.trueFalsePassage,
+        trueFalse: reading.trueFalse || [],
+      },
+    },
+  };
+
+  // The prompt asks for zero grading errors; verify the answer keys instead of trusting it
+  updateStage('verify', { status: 'running' });
+  try {
+    const verified = await verifyAndRepairLesson(lesson, options.signal, onUsage);
+    updateStage('verify', { status: 'done' });
+    // After the answer repair, which may have rewritten a sentence
+    return { ...attachMediaCues(verified, options.media), usage: usage.get() };
+  } catch (error: any) {
+    updateStage('verify', { status: 'error', error: error.message });
+    throw error;
   }
-  
-  RULES:
-  - "id": ID duy nhất (listen_1, listen_2, ...)
-  - "audioText": Câu tiếng Anh ngắn gọn (5-12 từ), SỬ DỤNG TỪ VỰNG ĐÃ HỌC
-  - "options": 4 lựa chọn text (1 đúng = audioText, 3 sai nhưng tương tự)
-  - "correctAnswer": Index của đáp án đúng (0-3)
-  - "explanation": Giải thích tiếng Việt + dịch nghĩa câu đúng
-  - ⚠️ Câu nghe PHẢI sử dụng từ vựng và ngữ pháp từ bài học
-  - ⚠️ 3 đáp án sai phải giống câu đúng nhưng thay đổi 1-2 từ
-  - ⚠️ Độ khó phải PHÙ HỢP với trình độ đầu vào
-  
-  ===== FINAL QUALITY ASSURANCE =====
-  Before submitting, verify EACH question:
-  
-  ✅ CHECKLIST FOR EVERY QUESTION:
-  □ Does the correct answer follow the 15 grammar rules?
-  □ Is there only ONE possible correct answer?
-  □ For Scramble: Does scrambled array contain EXACT same words as correctSentence?
-  □ For Scramble: No extra words, no missing words, no changed words?
-  □ For VocabTranslation: Is the word from the vocabulary section?
-  □ For VocabTranslation: Are all 4 options reasonable Vietnamese translations?
-  □ For TrueFalse: Is the statement based on the reading passage?
-  □ For TrueFalse: Is the explanation accurate in Vietnamese?
-  □ Is the explanation accurate and educational?
-  
-  ⚠️ IF UNSURE: Re-read the 15 grammar rules and apply them systematically
-  
-  All content must align strictly with the source provided. Do not invent unrelated topics.`;
-
-  const inputParts: any[] = [];
-  if (textInput) inputParts.push({ text: `SOURCE TEXT:\n${textInput}` });
-  if (topicInput) inputParts.push({ text: `TOPIC FOCUS:\n${topicInput}` });
-  inputParts.push(...imageParts);
-  inputParts.push({ text: prompt });
-
-  // Use fallback mechanism - automatically retry with next model if current fails
-  return callWithFallback(async (modelId: string) => {
-    console.log(`🤖 Đang thử với model: ${modelId}`);
-    const response = await ai.models.generateContent({
+};
+
+// ===== ANSWER KEY VERIFICATION & SELF-REPAIR =====
+// Validate every practice item, re-ask the model for the failing items only,
+// and drop whatever is still wrong after MAX_REPAIR_ROUNDS. Items that are only above the
+// chosen level are kept as they are and reported as warnings.
+
+const MAX_REPAIR_ROUNDS = 2;
+
+const repairLessonItems = async (lesson: LessonPlan, issues: LessonItemIssue[], signal?: AbortSignal, onUsage?: (event: UsageEvent) => void): Promise<LessonPlan> => {
+  const ai = getAI();
+  const sections = [...new Set(issues.map(i => i.section))];
+  const failing = Object.fromEntries(sections.map(section => [
+    section,
+    issues.filter(i => i.section === section).map(issue => ({
+      item: getSectionItems(lesson, section)[issue.index],
+      problems: issue.errors.filter(e => e.severity === 'error').map(e => e.message),
+    })),
+  ]));
+
+  const prompt = renderPrompt('answerRepair', {
+    topic: lesson.topic,
+    vocabulary: (lesson.vocabulary || []).map(v => `${v.word} = ${v.meaning}`).join('; '),
+    grammar: lesson.grammar?.topic || 'N/A',
+    levelLine: lesson.level ? `- Level: ${lesson.level} (at most ${LEVEL_LIMITS[lesson.level].maxSentenceWords} words per sentence)` : '',
+    passageLine: [
+      sections.includes('trueFalse') ? `- True/False passage: ${lesson.practice?.megaTest?.trueFalsePassage || 'N/A'}` : '',
+      sections.includes('comprehension') ? `- Reading passage: ${lesson.reading?.passage || 'N/A'}` : '',
+    ].filter(Boolean).join('\n  '),
+    items: JSON.stringify(failing, null, 2),
+  });
+
+  const repairSchema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(sections.map(section => [section, { type: Type.ARRAY, items: ITEM_SCHEMAS[section] }])),
+    required: sections,
+  };
+  const repairSpec = requiredFieldsSpec(Object.fromEntries(sections.map(section => [
+    section,
+    { type: 'array', items: section === 'comprehension' ? COMPREHENSION_SPEC : ITEM_SPECS[section] } as FieldSpec,
+  ])));
+
+  const repaired = await callWithFallback(async (modelId: string) => {
+    const request: AIGenerateRequest = {
       model: modelId,
-      contents: { parts: inputParts },
-      config: { responseMimeType: "application/json", responseSchema: lessonSchema }
+      signal,
+      feature: 'answerRepair',
+      onUsage,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseSchema: repairSchema }
+    };
+    const response = await ai.generateContent(request);
+    return parseWithSchema<Partial<Record<LessonItemSection, any[]>>>(response.text, repairSpec, request);
+  }, signal);
+
+  let result = lesson;
+  sections.forEach(section => {
+    const sectionIssues = issues.filter(i => i.section === section);
+    const items = [...getSectionItems(result, section)];
+    (repaired[section] || []).forEach((fixed, k) => {
+      const target = sectionIssues.find(i => i.id === fixed?.id) || sectionIssues[k];
+      if (target && fixed) items[target.index] = { ...fixed, id: target.id };
     });
-    return safeJsonParse<LessonPlan>(response.text);
+    result = replaceSectionItems(result, section, items);
+  });
+  return result;
+};
+
+export const verifyAndRepairLesson = async (lesson: LessonPlan, signal?: AbortSignal, onUsage?: (event: UsageEvent) => void): Promise<LessonPlan> => {
+  let current = lesson;
+  for (let round = 1; round <= MAX_REPAIR_ROUNDS; round++) {
+    const issues = validateLessonPlan(current).filter(issue => !isLevelOnlyIssue(issue));
+    if (issues.length === 0) break;
+    console.warn(`🔧 Sửa đáp án vòng ${round}: ${issues.length} câu chưa đạt`, issues);
+    try {
+      current = await repairLessonItems(current, issues, signal, onUsage);
+    } catch (error: any) {
+      if (toAIServiceError(error).kind === 'cancelled') throw error;
+      console.warn('Không sửa được đáp án tự động:', error.message);
+      break;
+    }
+  }
+  const remaining = validateLessonPlan(current);
+  const levelOnly = remaining.filter(isLevelOnlyIssue);
+  if (levelOnly.length) console.warn(`⚠️ ${levelOnly.length} câu khó hơn trình độ đã chọn (giữ nguyên):`, levelOnly);
+  return settleRemainingIssues(current, remaining);
+};
+
+// ===== SINGLE-SECTION REGENERATION =====
+// Regenerate one part of an existing lesson, sending the rest of the lesson as context,
+// and merge the result back (the "retry only the failed step" rule in AI_INSTRUCTIONS.md).
+
+const SECTION_GUIDES: Record<LessonSectionId, string> = {
+  vocabulary: 'Extract EVERY vocabulary word of the lesson with emoji, IPA, Vietnamese meaning (lowercase), English example and its Vietnamese translation (lowercase).',
+  grammar: '"topic" in English, "explanation" in VIETNAMESE, each example as "English sentence" → "bản dịch tiếng việt viết thường".',
+  reading: 'A short reading passage using the lesson vocabulary, its Vietnamese translation, and multiple-choice comprehension questions (4 options, 0-based correctAnswer).',
+  listening: 'Listening items: short "audioText" (5-12 words) using lesson vocabulary, 4 similar options where options[correctAnswer] is exactly the audioText, explanation in Vietnamese.',
+  multipleChoice: 'Multiple choice: one blank "____" per question, 4 options with exactly ONE grammatically correct, 0-based correctAnswer, Vietnamese explanation.',
+  scramble: 'Scramble: write correctSentence first, then "scrambled" = EXACTLY its tokens (words and punctuation) shuffled. No extra, missing or changed tokens.',
+  fillBlank: 'Fill-in-the-blank: exactly ONE blank "____", ONE-word correctAnswer, alternativeAnswers when several words are equally correct, clueEmoji, Vietnamese explanation.',
+  errorId: 'Error identification: a sentence with 4 underlined parts marked (A) (B) (C) (D), exactly ONE of them wrong, options "(A) word"..., 0-based correctOptionIndex, "correction" = the wrong part rewritten correctly, Vietnamese explanation.',
+  vocabTranslation: 'Vocabulary translation: "word" taken from the lesson vocabulary, 4 Vietnamese meanings from the same theme, 0-based correctAnswer.',
+  trueFalse: 'A new "trueFalsePassage" (100-150 words, same level as the vocabulary, using at least 5 lesson words) and True/False statements based ONLY on it, balanced 2-3 TRUE vs FALSE, explanations in Vietnamese.',
+  matching: 'Matching pairs: "left" is an English word/phrase from the lesson, "right" its Vietnamese meaning.',
+};
+
+export const regenerateLessonSection = async (lesson: LessonPlan, section: LessonSectionId, teacherNote?: string, signal?: AbortSignal): Promise<LessonPlan> => {
+  const ai = getAI();
+  const current = getLessonSection(lesson, section);
+  const currentCount = Array.isArray(current) ? current.length : current?.trueFalse?.length;
+  const label = LESSON_SECTIONS.find(s => s.id === section)?.label || section;
+
+  const prompt = renderPrompt('sectionRegenerate', {
+    section,
+    label,
+    guide: SECTION_GUIDES[section],
+    levelBlock: lesson.level ? buildLevelBlock(lesson.level, lesson.grade) : '',
+    countLine: currentCount ? `Create EXACTLY ${currentCount} items.` : '',
+    teacherNote: teacherNote?.trim() ? `TEACHER REQUEST: ${teacherNote.trim()}` : '',
+    lesson: JSON.stringify(setLessonSection(lesson, section, undefined)),
+    current: JSON.stringify(current),
   });
+
+  const responseSchema = { type: Type.OBJECT, properties: { content: SECTION_SCHEMAS[section] }, required: ["content"] };
+  const usage = createLessonUsageCollector(lesson.usage);
+  const result = await callWithFallback(async (modelId: string) => {
+    const request: AIGenerateRequest = {
+      model: modelId,
+      signal,
+      feature: 'sectionRegenerate',
+      onUsage: usage.add,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseSchema }
+    };
+    const response = await ai.generateContent(request);
+    return parseWithSchema<{ content: any }>(response.text, requiredFieldsSpec({ content: SECTION_SPECS[section] }), request);
+  }, signal);
+
+  let content = result.content;
+  if (section === 'trueFalse') {
+    content = { ...content, trueFalse: withFreshIds(content.trueFalse, 'tf') };
+  } else if (Array.isArray(content) && section !== 'vocabulary') {
+    content = withFreshIds(content, section);
+  }
+
+  const updated = setLessonSection(lesson, section, content);
+  const verified = await verifyAndRepairLesson({ ...updated, promptVersions: { ...lesson.promptVersions, sectionRegenerate: getPromptVersion('sectionRegenerate') } }, signal, usage.add);
+  return { ...attachMediaCues(verified, lesson.media), usage: usage.get() };
 };
 
-export const analyzeImageAndCreateContent = async (images: string[], mimeType: string, char: CharacterProfile, mode: AppMode, customPrompt?: string, topic?: string, text?: string): Promise<ContentResult> => {
+export const analyzeImageAndCreateContent = async (images: UploadedImage[], char: CharacterProfile, mode: AppMode, customPrompt?: string, topic?: string, text?: string, signal?: AbortSignal): Promise<ContentResult> => {
   const ai = getAI();
-  const imageParts = images.map(data => ({ inlineData: { data, mimeType } }));
-  const prompt = `MRS. DUNG AI - CREATIVE STORYTELLER.
-  
-  Analyze the input and create:
-  1. A magical story featuring ${char.name}.
-  2. EXACTLY 10 Comprehension Quiz questions.
-  3. EXACTLY 10 Speaking interaction prompts.
-  4. A SCIENTIFIC WRITING PROMPT for the student in BOTH English and Vietnamese.
-  
-  Source material: Topic: ${topic || "N/A"}, Text: ${text || "N/A"}.
-  Character context: ${char.promptContext}.`;
-
-  const response = await ai.models.generateContent({
+  const imageParts = images.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } }));
+  const prompt = renderPrompt('story', { characterName: char.name, topic: topic || "N/A", text: text || "N/A", characterContext: char.promptContext });
+
+  const response = await ai.generateContent({
     model: getSelectedModel(),
+    signal,
+    feature: 'story',
     contents: { parts: [...imageParts, { text: prompt }] },
     config: { responseMimeType: "application/json", responseSchema: contentResultSchema }
   });
@@ -889,10 +734,116 @@ const safeJsonParse = <T>(text: string): T => {
     const end = Math.max(cleanText.lastIndexOf('}'), cleanText.lastIndexOf(']'));
     if (start !== Infinity && end !== -1) cleanText = cleanText.substring(start, end + 1);
     return JSON.parse(cleanText) as T;
-  } catch (e) { throw new Error("Lỗi xử lý dữ liệu AI."); }
+  } catch (e) { throw createAIError('parse', "Lỗi xử lý dữ liệu AI."); }
+};
+
+// ===== SCHEMA-CHECKED PARSING =====
+// Lesson JSON is coerced to the shape in types.ts (utils/lessonSchema.ts) instead of being cast.
+// What cannot be fixed locally goes back to the same model once, listing only the broken paths;
+// items still broken after that are dropped, and a broken top level moves on to the next model.
+
+const buildSchemaRepairPrompt = (data: any, problems: SchemaProblem[]): string => renderPrompt('jsonRepair', {
+  problems: problems.slice(0, 30).map(p => `- ${p.path || '(root)'}: ${p.message}`).join('\n  '),
+  previous: JSON.stringify(data),
+});
+
+// `request` is the call that produced `text`; the repair call reuses its model, schema, signal and usage tracking
+const parseWithSchema = async <T>(text: string, spec: FieldSpec, request: AIGenerateRequest): Promise<T> => {
+  const modelId = request.model;
+  const raw = safeJsonParse<any>(text);
+  let result = coerceToSchema<T>(raw, spec);
+  if (result.problems.length) {
+    console.warn(`🩹 [${modelId}] JSON sai cấu trúc, nhờ AI sửa ${result.problems.length} chỗ:`, result.problems);
+    const response = await getAI().generateContent({ ...request, contents: buildSchemaRepairPrompt(raw, result.problems) });
+    result = coerceToSchema<T>(safeJsonParse<any>(response.text), spec, { dropInvalidItems: true });
+    if (result.problems.length) {
+      throw createAIError('parse', `Dữ liệu AI thiếu hoặc sai cấu trúc: ${formatSchemaProblems(result.problems)}`, { model: modelId });
+    }
+  }
+  if (result.fixes.length) console.log(`🩹 [${modelId}] Đã tự sửa ${result.fixes.length} chỗ trong JSON:`, result.fixes);
+  return result.value;
+};
+
+// Item schemas are shared by the full lesson schema and the targeted repair/regeneration calls
+const vocabularyItemSchema = { type: Type.OBJECT, properties: { word: { type: Type.STRING }, emoji: { type: Type.STRING }, ipa: { type: Type.STRING }, meaning: { type: Type.STRING }, example: { type: Type.STRING }, sentenceMeaning: { type: Type.STRING }, type: { type: Type.STRING } }, required: ["word", "ipa", "meaning", "example", "type", "emoji"] };
+const grammarSchema = { type: Type.OBJECT, properties: { topic: { type: Type.STRING }, explanation: { type: Type.STRING }, examples: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["topic", "explanation", "examples"] };
+const multipleChoiceItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "question", "options", "correctAnswer"] };
+const readingSchema = { type: Type.OBJECT, properties: { title: { type: Type.STRING }, passage: { type: Type.STRING }, translation: { type: Type.STRING }, comprehension: { type: Type.ARRAY, items: multipleChoiceItemSchema } }, required: ["title", "passage", "translation", "comprehension"] };
+const listeningItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, audioText: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "audioText", "options", "correctAnswer"] };
+const scrambleItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, scrambled: { type: Type.ARRAY, items: { type: Type.STRING } }, correctSentence: { type: Type.STRING }, translation: { type: Type.STRING } }, required: ["id", "scrambled", "correctSentence"] };
+const fillBlankItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, correctAnswer: { type: Type.STRING }, alternativeAnswers: { type: Type.ARRAY, items: { type: Type.STRING } }, clueEmoji: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["id", "question", "correctAnswer"] };
+const errorIdItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, sentence: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctOptionIndex: { type: Type.INTEGER }, correction: { type: Type.STRING }, alternativeCorrections: { type: Type.ARRAY, items: { type: Type.STRING } }, explanation: { type: Type.STRING } }, required: ["id", "sentence", "options", "correctOptionIndex", "correction"] };
+const vocabTranslationItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, word: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "word", "options", "correctAnswer"] };
+const trueFalseItemSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, statement: { type: Type.STRING }, isTrue: { type: Type.BOOLEAN }, explanation: { type: Type.STRING } }, required: ["id", "statement", "isTrue", "explanation"] };
+const matchingPairSchema = { type: Type.OBJECT, properties: { id: { type: Type.STRING }, left: { type: Type.STRING }, right: { type: Type.STRING } }, required: ["id", "left", "right"] };
+
+const ITEM_SCHEMAS: Record<LessonItemSection, any> = {
+  multipleChoice: multipleChoiceItemSchema,
+  scramble: scrambleItemSchema,
+  fillBlank: fillBlankItemSchema,
+  errorId: errorIdItemSchema,
+  vocabTranslation: vocabTranslationItemSchema,
+  trueFalse: trueFalseItemSchema,
+  listening: listeningItemSchema,
+  matching: matchingPairSchema,
+  comprehension: multipleChoiceItemSchema,
+};
+
+const SECTION_SCHEMAS: Record<LessonSectionId, any> = {
+  vocabulary: { type: Type.ARRAY, items: vocabularyItemSchema },
+  grammar: grammarSchema,
+  reading: readingSchema,
+  listening: { type: Type.ARRAY, items: listeningItemSchema },
+  multipleChoice: { type: Type.ARRAY, items: multipleChoiceItemSchema },
+  scramble: { type: Type.ARRAY, items: scrambleItemSchema },
+  fillBlank: { type: Type.ARRAY, items: fillBlankItemSchema },
+  errorId: { type: Type.ARRAY, items: errorIdItemSchema },
+  vocabTranslation: { type: Type.ARRAY, items: vocabTranslationItemSchema },
+  trueFalse: { type: Type.OBJECT, properties: { trueFalsePassage: { type: Type.STRING }, trueFalse: { type: Type.ARRAY, items: trueFalseItemSchema } }, required: ["trueFalsePassage", "trueFalse"] },
+  matching: { type: Type.ARRAY, items: matchingPairSchema },
+};
+
+const extractStageSchema = { type: Type.OBJECT, properties: { topic: { type: Type.STRING }, vocabulary: { type: Type.ARRAY, items: vocabularyItemSchema }, grammar: grammarSchema, teacherTips: { type: Type.STRING }, level: { type: Type.STRING, enum: CEFR_LEVELS } }, required: ["topic", "vocabulary", "grammar", "teacherTips"] };
+const BLUEPRINT_ITEM_SCHEMAS: Record<BlueprintItemId, any> = {
+  multipleChoice: multipleChoiceItemSchema,
+  scramble: scrambleItemSchema,
+  fillBlank: fillBlankItemSchema,
+  errorId: errorIdItemSchema,
+  vocabTranslation: vocabTranslationItemSchema,
+  matching: matchingPairSchema,
+  trueFalse: trueFalseItemSchema,
+  listening: listeningItemSchema,
+};
+
+const extractStageSpec = requiredFieldsSpec({
+  topic: { type: 'string' },
+  vocabulary: { type: 'array', items: VOCABULARY_ITEM_SPEC },
+  grammar: GRAMMAR_SPEC,
+  teacherTips: { type: 'string', fallback: '' },
+  level: { type: 'string', optional: true },
+});
+
+// Only the exercise types kept by the blueprint appear in the schema; null when a step has none
+const buildStageSchema = (blueprint: TestBlueprint, stage: 'exercises' | 'reading'): any | null => {
+  const items = stageItems(blueprint, stage);
+  if (items.length === 0) return null;
+  const properties: Record<string, any> = Object.fromEntries(items.map(item => [item.id, { type: Type.ARRAY, items: BLUEPRINT_ITEM_SCHEMAS[item.id] }]));
+  if (stage === 'reading') {
+    properties.reading = readingSchema;
+    if (blueprint.trueFalse > 0) properties.trueFalsePassage = { type: Type.STRING };
+  }
+  return { type: Type.OBJECT, properties, required: Object.keys(properties) };
 };
 
-const lessonSchema = { type: Type.OBJECT, properties: { topic: { type: Type.STRING }, vocabulary: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { word: { type: Type.STRING }, emoji: { type: Type.STRING }, ipa: { type: Type.STRING }, meaning: { type: Type.STRING }, example: { type: Type.STRING }, sentenceMeaning: { type: Type.STRING }, type: { type: Type.STRING } }, required: ["word", "ipa", "meaning", "example", "type", "emoji"] } }, grammar: { type: Type.OBJECT, properties: { topic: { type: Type.STRING }, explanation: { type: Type.STRING }, examples: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["topic", "explanation", "examples"] }, reading: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, passage: { type: Type.STRING }, translation: { type: Type.STRING }, comprehension: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "question", "options", "correctAnswer"] } } }, required: ["title", "passage", "translation", "comprehension"] }, practice: { type: Type.OBJECT, properties: { listening: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, audioText: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "audioText", "options", "correctAnswer"] } }, megaTest: { type: Type.OBJECT, properties: { multipleChoice: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "question", "options", "correctAnswer"] } }, scramble: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, scrambled: { type: Type.ARRAY, items: { type: Type.STRING } }, correctSentence: { type: Type.STRING }, translation: { type: Type.STRING } }, required: ["id", "scrambled", "correctSentence"] } }, fillBlank: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, correctAnswer: { type: Type.STRING }, alternativeAnswers: { type: Type.ARRAY, items: { type: Type.STRING } }, clueEmoji: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["id", "question", "correctAnswer"] } }, errorId: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, sentence: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctOptionIndex: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "sentence", "correctOptionIndex"] } }, vocabTranslation: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, word: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.INTEGER }, explanation: { type: Type.STRING } }, required: ["id", "word", "options", "correctAnswer"] } }, trueFalsePassage: { type: Type.STRING }, trueFalse: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, statement: { type: Type.STRING }, isTrue: { type: Type.BOOLEAN }, explanation: { type: Type.STRING } }, required: ["id", "statement", "isTrue", "explanation"] } }, matching: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, left: { type: Type.STRING }, right: { type: Type.STRING } }, required: ["id", "left", "right"] } } }, required: ["multipleChoice", "scramble", "fillBlank", "vocabTranslation", "trueFalsePassage", "trueFalse", "matching"] } }, required: ["listening", "megaTest"] }, teacherTips: { type: Type.STRING } }, required: ["topic", "vocabulary", "grammar", "reading", "practice", "teacherTips"] };
+// Runtime counterpart of buildStageSchema (an empty spec when the step is skipped)
+const buildStageSpec = (blueprint: TestBlueprint, stage: 'exercises' | 'reading'): FieldSpec => {
+  const fields: Record<string, FieldSpec> = Object.fromEntries(stageItems(blueprint, stage).map(item => [item.id, { type: 'array', items: ITEM_SPECS[item.id] } as FieldSpec]));
+  if (stage === 'reading' && Object.keys(fields).length) {
+    fields.reading = READING_SPEC;
+    if (blueprint.trueFalse > 0) fields.trueFalsePassage = { type: 'string' };
+  }
+  return requiredFieldsSpec(fields);
+};
 
 const contentResultSchema = {
   type: Type.OBJECT,
@@ -909,77 +860,74 @@ const contentResultSchema = {
   required: ["storyEnglish", "translatedText", "writingPromptEn", "writingPromptVi", "vocabulary", "imagePrompt", "comprehensionQuestions", "speakingQuestions"]
 };
 
-export const generateMindMap = async (content: any, mode: MindMapMode): Promise<MindMapData> => {
+export const generateMindMap = async (content: any, mode: MindMapMode, signal?: AbortSignal): Promise<MindMapData> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: `Create a professional Mind Map following Tony Buzan's principles for: ${JSON.stringify(content)}. 
-    Structure: Root node is the main topic. Child nodes are key sub-concepts with emojis. 
-    Output strictly in JSON format matching the schema.`,
+    signal,
+    feature: 'mindMap',
+    contents: renderPrompt('mindMap', { content: JSON.stringify(content) }),
     config: { responseMimeType: "application/json", responseSchema: mindMapSchema }
   });
   return safeJsonParse<MindMapData>(response.text);
 };
 
-export const evaluateSpeech = async (base64Audio: string): Promise<SpeechEvaluation> => {
+export const evaluateSpeech = async (base64Audio: string, signal?: AbortSignal): Promise<SpeechEvaluation> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: { parts: [{ inlineData: { data: base64Audio, mimeType: 'audio/wav' } }, { text: "Evaluate the student's speaking performance on a scale of 0-10. Provide encouraging feedback in Vietnamese." }] },
+    signal,
+    feature: 'speechEvaluation',
+    contents: { parts: [{ inlineData: { data: base64Audio, mimeType: 'audio/wav' } }, { text: renderPrompt('speechEvaluation') }] },
     config: { responseMimeType: "application/json", responseSchema: speechEvaluationSchema }
   });
   return safeJsonParse<SpeechEvaluation>(response.text);
 };
 
-export const generateStoryImage = async (prompt: string, style: string, ratio: ImageRatio): Promise<string> => {
+export const generateStoryImage = async (prompt: string, style: string, ratio: ImageRatio, signal?: AbortSignal): Promise<string> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-2.5-flash-image',
-    contents: { parts: [{ text: `A high-quality educational illustration for kids: ${prompt}. Artistic Style: ${style}. High resolution, 8k, vibrant colors.` }] },
+    signal,
+    feature: 'storyImage',
+    contents: { parts: [{ text: renderPrompt('storyImage', { prompt, style }) }] },
     config: { imageConfig: { aspectRatio: ratio } }
   });
-  for (const part of response.candidates[0].content.parts) { if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`; }
+  for (const part of response.parts) { if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`; }
   throw new Error("Image generation failed");
 };
 
-export const correctWriting = async (userText: string, creativePrompt: string): Promise<any> => {
+export const correctWriting = async (userText: string, creativePrompt: string, signal?: AbortSignal): Promise<any> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: `Evaluate and correct this student writing: "${userText}". The topic was: "${creativePrompt}". Provide a score (0-10), feedback, fixed text, and detailed error list.`,
+    signal,
+    feature: 'writingCorrection',
+    contents: renderPrompt('writingCorrection', { text: userText, topic: creativePrompt }),
     config: { responseMimeType: "application/json", responseSchema: writingCorrectionSchema }
   });
   return safeJsonParse<any>(response.text);
 };
 
-export const generatePresentation = async (data: MindMapData): Promise<PresentationScript> => {
+export const generatePresentation = async (data: MindMapData, signal?: AbortSignal): Promise<PresentationScript> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: `Create a professional English presentation script for a student based on this Mind Map data: ${JSON.stringify(data)}. 
-    Include a warm introduction, body sections for each node, and a polite conclusion. 
-    Provide both English script and Vietnamese translation.`,
+    signal,
+    feature: 'presentation',
+    contents: renderPrompt('presentation', { data: JSON.stringify(data) }),
     config: { responseMimeType: "application/json", responseSchema: presentationSchema }
   });
   return safeJsonParse<PresentationScript>(response.text);
 };
 
-export const generateMindMapPrompt = async (content: any, mode: MindMapMode): Promise<string> => {
+export const generateMindMapPrompt = async (content: any, mode: MindMapMode, signal?: AbortSignal): Promise<string> => {
   const ai = getAI();
-  const response = await ai.models.generateContent({
+  const response = await ai.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: `TASK: Generate a single, highly detailed English prompt for drawing a professional Tony Buzan Mind Map using AI art tools (like Midjourney or DALL-E). 
-    CONTENT SOURCE: ${JSON.stringify(content)}. 
-    
-    PROMPT SPECIFICATIONS:
-    - Style: 3D Organic Tony Buzan Mind Map, Pixar-style animation render.
-    - Central Theme: A clear 3D icon representing the lesson topic at the center.
-    - Branches: Curvy, organic, thick-to-thin colorful branches spreading outwards.
-    - Elements: Floating keywords in English, cute 3D emojis/icons next to branches.
-    - Environment: Clean bright studio background, 8k resolution, cinematic lighting, vibrant pedagogical colors.
-    - Exclude: No text other than the keywords. 
-    
-    JUST PROVIDE THE RAW PROMPT STRING.`
+    signal,
+    feature: 'mindMapPrompt',
+    contents: renderPrompt('mindMapPrompt', { content: JSON.stringify(content) })
   });
   return response.text;
 };
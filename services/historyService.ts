@@ -14,6 +14,15 @@ export function saveLessonRecord(record: LessonRecord): void {
     localStorage.setItem(HISTORY_KEY, JSON.stringify(filtered));
 }
 
+// For what is only known after the record was saved, e.g. the mastery score of later retry rounds
+export function updateLessonRecord(id: string, changes: Partial<LessonRecord>): void {
+    const all = getLessonHistory();
+    const index = all.findIndex(r => r.id === id);
+    if (index < 0) return;
+    all[index] = { ...all[index], ...changes };
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(all));
+}
+
 export function getLessonHistory(): LessonRecord[] {
     try {
         const raw = localStorage.getItem(HISTORY_KEY);
@@ -0,0 +1,70 @@
+// ===== INDEXEDDB HELPERS =====
+// Thin promise wrappers around a single app database. Every object store uses `id` as keyPath.
+// To add a store: append it to OBJECT_STORES and bump DB_VERSION.
+
+const DB_NAME = 'mrs_dung_db';
+const DB_VERSION = 2;
+
+export const OBJECT_STORES = {
+    AI_FIXTURES: 'ai_fixtures',
+    LESSONS: 'lessons',
+} as const;
+
+export type ObjectStoreName = typeof OBJECT_STORES[keyof typeof OBJECT_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            Object.values(OBJECT_STORES).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    db.createObjectStore(name, { keyPath: 'id' });
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const runRequest = async <T>(
+    store: ObjectStoreName,
+    mode: IDBTransactionMode,
+    fn: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = fn(db.transaction(store, mode).objectStore(store));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const idbGet = <T>(store: ObjectStoreName, id: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const idbGetAll = <T>(store: ObjectStoreName): Promise<T[]> =>
+    runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = async <T extends { id: string }>(store: ObjectStoreName, value: T): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.put(value));
+};
+
+export const idbDelete = async (store: ObjectStoreName, id: string): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.delete(id));
+};
+
+export const idbClear = async (store: ObjectStoreName): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.clear());
+};
+
+export const idbCount = (store: ObjectStoreName): Promise<number> =>
+    runRequest<number>(store, 'readonly', s => s.count());
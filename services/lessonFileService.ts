@@ -0,0 +1,131 @@
+import { LessonPlan } from '../types';
+import { CEFR_LEVELS } from '../utils/lessonLevels';
+import { LESSON_SPEC, coerceToSchema, formatSchemaProblems } from '../utils/lessonSchema';
+
+// ===== LESSON FILES (.mrsdung.json) =====
+// A lesson is shared between teachers (or kept in Git) as a JSON file wrapping the LessonPlan
+// with a schema version. Importing migrates older shapes step by step up to the current
+// version, so a file exported today keeps opening after types.ts changes again.
+// To change the lesson shape: bump LESSON_SCHEMA_VERSION and add a migration from the old version.
+
+export const LESSON_FILE_FORMAT = 'mrs-dung-lesson';
+export const LESSON_FILE_EXTENSION = '.mrsdung.json';
+
+// 1: megaTest = multipleChoice / scramble / fillBlank / errorId
+// 2: + vocabTranslation, trueFalse (+ trueFalsePassage), matching
+//    (errorId items gained correction / alternativeCorrections later; items without one load with correction '')
+export const LESSON_SCHEMA_VERSION = 2;
+
+export interface LessonFile {
+    format: typeof LESSON_FILE_FORMAT;
+    schemaVersion: number;
+    exportedAt: string;      // ISO
+    title: string;
+    lesson: LessonPlan;
+}
+
+export interface ImportedLesson {
+    title: string;
+    lesson: LessonPlan;
+    migratedFrom: number | null;   // schema version the file was upgraded from, null when already current
+}
+
+// ─── Migrations ─────────────────────────────────────────────
+// MIGRATIONS[n] turns a version-n lesson into a version n+1 lesson
+
+const MIGRATIONS: Record<number, (lesson: any) => any> = {
+    1: (lesson) => {
+        const mega = lesson.practice?.megaTest || {};
+        return {
+            ...lesson,
+            practice: {
+                ...lesson.practice,
+                listening: lesson.practice?.listening || [],
+                megaTest: {
+                    ...mega,
+                    errorId: mega.errorId || [],
+                    vocabTranslation: mega.vocabTranslation || [],
+                    trueFalse: mega.trueFalse || [],
+                    trueFalsePassage: mega.trueFalsePassage,
+                    matching: mega.matching || [],
+                },
+            },
+        };
+    },
+};
+
+// Bare LessonPlan JSON (no wrapper) carries no version: guess it from the exercise types present
+const detectSchemaVersion = (lesson: any): number =>
+    lesson?.practice?.megaTest?.vocabTranslation || lesson?.practice?.megaTest?.trueFalse ? 2 : 1;
+
+export const migrateLesson = (lesson: any, fromVersion: number): LessonPlan => {
+    let current = lesson;
+    for (let v = fromVersion; v < LESSON_SCHEMA_VERSION; v++) {
+        const migrate = MIGRATIONS[v];
+        if (!migrate) throw new Error(`Không có bước chuyển đổi từ phiên bản ${v} của file bài học.`);
+        current = migrate(current);
+    }
+    return current as LessonPlan;
+};
+
+// ─── Validation ─────────────────────────────────────────────
+
+// Coerce to the current LessonPlan shape; broken items are dropped, a broken lesson is refused
+const validateLesson = (lesson: any): LessonPlan => {
+    const { value, fixes, problems } = coerceToSchema<LessonPlan>(lesson, LESSON_SPEC, { dropInvalidItems: true });
+    if (problems.length) throw new Error(`File bài học bị lỗi: ${formatSchemaProblems(problems, 5)}`);
+    if (fixes.length) console.log(`🩹 Đã tự sửa ${fixes.length} chỗ trong file bài học:`, fixes);
+    return { ...value, level: CEFR_LEVELS.includes(value.level) ? value.level : undefined };
+};
+
+// ─── Export / import ────────────────────────────────────────
+
+export const createLessonFile = (lesson: LessonPlan, title?: string): LessonFile => ({
+    format: LESSON_FILE_FORMAT,
+    schemaVersion: LESSON_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: title || lesson.topic,
+    lesson,
+});
+
+export const downloadLessonFile = (lesson: LessonPlan, title?: string): void => {
+    const file = createLessonFile(lesson, title);
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const safeName = file.title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D')
+        .replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'bai-hoc';
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${safeName}${LESSON_FILE_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// Accepts a .mrsdung.json file or a bare LessonPlan JSON; throws a message the teacher can read
+export const parseLessonFile = (raw: string): ImportedLesson => {
+    let data: any;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        throw new Error('File không phải JSON hợp lệ.');
+    }
+
+    const wrapped = data?.format === LESSON_FILE_FORMAT;
+    const lesson = wrapped ? data.lesson : data;
+    const version = wrapped ? Number(data.schemaVersion) : detectSchemaVersion(lesson);
+    if (!Number.isInteger(version) || version < 1) throw new Error('File bài học không ghi rõ phiên bản (schemaVersion).');
+    if (version > LESSON_SCHEMA_VERSION) {
+        throw new Error(`File được tạo bởi phiên bản app mới hơn (phiên bản ${version}). Cô hãy cập nhật app rồi nhập lại nhé!`);
+    }
+
+    if (!lesson || typeof lesson !== 'object' || Array.isArray(lesson)) throw new Error('File không chứa bài học.');
+
+    const migrated = validateLesson(migrateLesson(lesson, version));
+    return {
+        title: (wrapped && typeof data.title === 'string' && data.title.trim()) || migrated.topic,
+        lesson: migrated,
+        migratedFrom: version < LESSON_SCHEMA_VERSION ? version : null,
+    };
+};
+
+export const importLessonFile = async (file: File): Promise<ImportedLesson> => parseLessonFile(await file.text());
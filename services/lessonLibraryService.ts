@@ -0,0 +1,84 @@
+import { LessonPlan } from '../types';
+import { OBJECT_STORES, idbGet, idbGetAll, idbPut, idbDelete } from './indexedDb';
+import { countLessonQuestions } from '../utils/lessonSections';
+import { formatLessonLevel } from '../utils/lessonLevels';
+
+// ===== LESSON LIBRARY =====
+// Generated lessons are kept in IndexedDB so a refresh does not lose them and a teacher
+// can reopen yesterday's lesson for a new class without spending API quota again.
+
+export interface SavedLesson {
+    id: string;
+    title: string;          // defaults to the lesson topic, the teacher can rename it
+    createdAt: string;      // ISO
+    updatedAt: string;      // ISO
+    lesson: LessonPlan;
+}
+
+export interface SavedLessonSummary {
+    topic: string;
+    levelLabel: string | null;
+    questionCount: number;
+    matchingPairs: number;
+    vocabularyCount: number;
+    promptVersions: string[];   // templates the lesson was generated with, to compare prompt changes
+}
+
+export const generateLibraryId = (): string =>
+    `saved_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+export const getSavedLesson = (id: string): Promise<SavedLesson | undefined> =>
+    idbGet<SavedLesson>(OBJECT_STORES.LESSONS, id);
+
+// Most recently changed first
+export const listSavedLessons = async (): Promise<SavedLesson[]> => {
+    const all = await idbGetAll<SavedLesson>(OBJECT_STORES.LESSONS);
+    return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Insert or update: an existing entry keeps its title and creation date
+export const saveLessonToLibrary = async (lesson: LessonPlan, id: string = generateLibraryId(), title?: string): Promise<SavedLesson> => {
+    const now = new Date().toISOString();
+    const existing = await getSavedLesson(id);
+    const saved: SavedLesson = {
+        id,
+        title: existing?.title || title || lesson.topic || 'Bài học chưa đặt tên',
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        lesson,
+    };
+    await idbPut<SavedLesson>(OBJECT_STORES.LESSONS, saved);
+    return saved;
+};
+
+export const renameSavedLesson = async (id: string, title: string): Promise<void> => {
+    const saved = await getSavedLesson(id);
+    if (!saved || !title.trim()) return;
+    await idbPut<SavedLesson>(OBJECT_STORES.LESSONS, { ...saved, title: title.trim(), updatedAt: new Date().toISOString() });
+};
+
+export const duplicateSavedLesson = async (id: string): Promise<SavedLesson | undefined> => {
+    const saved = await getSavedLesson(id);
+    if (!saved) return undefined;
+    const now = new Date().toISOString();
+    const copy: SavedLesson = {
+        id: generateLibraryId(),
+        title: `${saved.title} (bản sao)`,
+        createdAt: now,
+        updatedAt: now,
+        lesson: structuredClone(saved.lesson),
+    };
+    await idbPut<SavedLesson>(OBJECT_STORES.LESSONS, copy);
+    return copy;
+};
+
+export const deleteSavedLesson = (id: string): Promise<void> => idbDelete(OBJECT_STORES.LESSONS, id);
+
+export const summarizeSavedLesson = ({ lesson }: SavedLesson): SavedLessonSummary => ({
+    topic: lesson.topic,
+    levelLabel: lesson.level ? formatLessonLevel(lesson.level, lesson.grade) : null,
+    questionCount: countLessonQuestions(lesson),
+    matchingPairs: lesson.practice?.megaTest?.matching?.length || 0,
+    vocabularyCount: lesson.vocabulary?.length || 0,
+    promptVersions: Object.values(lesson.promptVersions || {}),
+});
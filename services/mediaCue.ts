@@ -0,0 +1,32 @@
+import { MediaCue } from '../types';
+
+// ===== MEDIA CUE PLAYER =====
+// Subtitle lessons keep the timestamps of each line. The matching video or song is opened
+// from the teacher's computer (nothing is uploaded); exercise buttons then play just that line.
+// Like the TTS player, there is one shared element for the whole page.
+
+let mediaElement: HTMLMediaElement | null = null;
+let stopAt: number | null = null;
+
+const handleTimeUpdate = () => {
+    if (mediaElement && stopAt !== null && mediaElement.currentTime >= stopAt) {
+        mediaElement.pause();
+        stopAt = null;
+    }
+};
+
+export const setCueMediaElement = (element: HTMLMediaElement | null): void => {
+    mediaElement?.removeEventListener('timeupdate', handleTimeUpdate);
+    mediaElement = element;
+    stopAt = null;
+    mediaElement?.addEventListener('timeupdate', handleTimeUpdate);
+};
+
+// false when no media file is open yet
+export const playCue = (cue: MediaCue): boolean => {
+    if (!mediaElement) return false;
+    mediaElement.currentTime = cue.start;
+    stopAt = cue.end ?? null;
+    mediaElement.play().catch(err => console.warn('Không phát được đoạn media:', err));
+    return true;
+};
@@ -0,0 +1,779 @@
+import { PromptTemplateId } from "../types";
+
+// ===== PROMPT TEMPLATES =====
+// Every prompt sent to the AI lives here as a named template with {{variables}}.
+// The teacher can replace a template's text or add instructions for all prompts (Settings);
+// the version string of each template used is recorded on the generated lesson
+// (LessonPlan.promptVersions) so lessons made with different prompts can be compared.
+// Changing a default text: bump its `version`.
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;              // shown in the editor
+  version: number;
+  variables: string[];        // {{name}} placeholders filled by the caller
+  teacherInstructions: boolean; // whether the teacher's custom instructions are appended
+  text: string;
+}
+
+export interface PromptCustomizations {
+  instructions: string;       // e.g. "Always use British spelling"
+  templates: Partial<Record<PromptTemplateId, string>>; // replaced template texts
+}
+
+const CUSTOM_PROMPTS_STORAGE = 'mrs_dung_prompt_customizations';
+
+// ===== LESSON RULES =====
+// Shared blocks of the three lesson generation steps
+
+const LESSON_PROMPT_HEADER = `MRS. DUNG AI - EXPERT PEDAGOGY MODE (CHUYÊN GIA TIẾNG ANH).
+  
+  ===== ⚠️⚠️⚠️ CRITICAL WARNING: ZERO TOLERANCE FOR GRADING ERRORS ⚠️⚠️⚠️ =====
+  
+  🚨 BẠN ĐANG TẠO BÀI KIỂM TRA CHO HỌC SINH THẬT! 🚨
+  - Nếu đáp án SAI → Học sinh bị chấm SAI → Học sinh mất niềm tin → THẤT BẠI!
+  - Mỗi câu hỏi PHẢI được kiểm tra 2 LẦN trước khi output
+  - KHÔNG ĐƯỢC phép ra đề 1 kiểu, đáp án 1 kiểu khác!`;
+
+const EXTRACTION_RULES = `===== CRITICAL: 100% CONTENT EXTRACTION =====
+  ⚠️ QUAN TRỌNG NHẤT: Phải trích xuất CHÍNH XÁC và ĐẦY ĐỦ 100% nội dung từ nguồn!
+  - Nếu ảnh/văn bản có 10 từ vựng → tạo ĐÚNG 10 từ vựng, KHÔNG được bỏ sót
+  - Nếu ảnh/văn bản có 5 từ vựng → tạo ĐÚNG 5 từ vựng
+  - KHÔNG được tự thêm từ vựng mà nguồn không có
+  - KHÔNG được bỏ sót bất kỳ từ vựng nào trong nguồn
+  - Từ vựng phải GIỐNG HỆT với nội dung gốc (word, IPA, meaning, example)
+  
+  CRITICAL LANGUAGE REQUIREMENTS:
+  - GRAMMAR section:
+    * "topic": Keep in English (the grammar rule name)
+    * "explanation": MUST be in VIETNAMESE (giải thích bằng tiếng Việt, dễ hiểu cho học sinh)
+    * "examples": Each example MUST include Vietnamese translation in format: "English sentence" → "bản dịch tiếng việt viết thường"
+  
+  - VOCABULARY section (EXTRACT ALL FROM SOURCE):
+    * Extract EVERY SINGLE vocabulary word from the source - DO NOT SKIP ANY
+    * "word": English word (EXACTLY as shown in source)
+    * "ipa": IPA pronunciation (EXACTLY as shown in source if available)
+    * "meaning": Vietnamese meaning (EXACTLY as shown in source, lowercase)
+    * "example": English example sentence (EXACTLY as shown in source)
+    * "sentenceMeaning": Vietnamese translation of example (EXACTLY as shown in source, lowercase)`;
+
+const EXERCISE_RULES = `===== MEGATEST EXERCISE REQUIREMENTS (CHẤT LƯỢNG CHUYÊN GIA - 20 NĂM KINH NGHIỆM) =====
+  
+  🎓 YOU ARE A PROFESSIONAL ENGLISH TEACHER WITH 20 YEARS EXPERIENCE
+  You must create exercises with 100% grammatical accuracy. Every answer key must be verified.
+  
+  ===== ⚠️ CRITICAL: 80% CONTENT MUST USE INPUT VOCABULARY/GRAMMAR =====
+  
+  MANDATORY RULE: At least 80% of ALL exercises (32/40 questions) MUST directly use the vocabulary, 
+  grammar patterns, and concepts from the INPUT SOURCE provided by the user.
+  
+  EXAMPLE: If user provides these adverbs: "Always, Usually, Often, Sometimes, Never, Every day..."
+  Then 80% of your exercises MUST:
+  ✓ Multiple Choice: "I ____ go to school on foot." (A) always (B) tomorrow (C) yesterday (D) last week
+  ✓ Fill-blank: "She ____ drinks coffee in the morning." → Answer: usually/always/often
+  ✓ Scramble: "always / I / breakfast / have / at 7 AM / ." → "I always have breakfast at 7 AM."
+  ✓ Error ID: "He (A) go (B) always (C) to school (D) late." → Error at (A) or (B) based on grammar rules
+  
+  ❌ DO NOT create exercises about random topics unrelated to the input!
+  ❌ DO NOT ignore the input vocabulary and create exercises about colors when user gave time adverbs!
+  
+  HOW TO CALCULATE 80%:
+  - Total exercises = 10 MC + 10 Fill + 10 Scramble + 10 Error = 40 questions
+  - 80% = At least 32 questions MUST use input vocabulary/grammar
+  - Remaining 20% (8 questions) can introduce related/supporting concepts
+  
+  VERIFICATION CHECKLIST:
+  □ Did I use at least 8/10 Multiple Choice questions with input vocabulary?
+  □ Did I use at least 8/10 Fill-blank questions with input vocabulary?
+  □ Did I use at least 8/10 Scramble sentences with input vocabulary?
+  □ Did I use at least 8/10 Error ID sentences with input vocabulary?
+  
+  ===== ⚠️ CRITICAL: MATCH DIFFICULTY LEVEL WITH INPUT =====
+  
+  🎯 GOLDEN RULE: Exercise difficulty MUST match the input example sentences!
+  
+  STEP 1: Analyze the input sentences complexity:
+  - Simple: "He has a bat." (Subject + verb + object) = 4-5 words, basic verbs
+  - Medium: "I usually go to school by bus." = 6-8 words, more structure
+  - Complex: "She wants to buy a new dress for the party." = 8+ words, infinitives, clauses
+  
+  STEP 2: Create exercises at the SAME complexity level!
+  
+  ❌ WRONG EXAMPLE (INPUT IS SIMPLE BUT EXERCISE IS COMPLEX):
+  Input vocabulary: Bat - "He has a bat."
+  ❌ Exercise: "She wants to use the map to find her way." (TOO COMPLEX!)
+  ❌ Exercise: "I hit the ball with a bat." (MORE COMPLEX THAN INPUT!)
+  ❌ Exercise: "The map shows the way to the city." (TOO COMPLEX!)
+  
+  ✓ CORRECT EXAMPLE (MATCHING DIFFICULTY):
+  Input vocabulary: Bat - "He has a bat.", Map - "I need a map.", Bed - "The bed is big."
+  ✓ Multiple Choice: "He has a ____." (A) bat (B) car (C) book (D) pen
+  ✓ Fill-blank: "I need a ____." → map
+  ✓ Scramble: "has / He / a / bat / ." → "He has a bat."
+  ✓ Error ID: "He (A) have (B) a (C) bat (D) ." → Error at (A): "have" should be "has"
+  
+  DIFFICULTY MATCHING RULES:
+  1. If input uses 3-5 word sentences → Exercises use 3-5 word sentences
+  2. If input uses simple verbs (has, is, need) → Exercises use same simple verbs
+  3. If input uses basic structures (S + V + O) → Exercises use same basic structures
+  4. DO NOT add infinitives (to + verb) if input doesn't have them
+  5. DO NOT add complex clauses if input only has simple sentences
+  6. PREFER using the EXACT example sentences from input as exercise base
+  
+  VERIFICATION: Before submitting, check each exercise:
+  □ Is this sentence complexity similar to input examples?
+  □ Am I using vocabulary from the input, not new complex words?
+  □ Would a student who learned the input vocabulary understand this exercise?
+  
+  ===== FUNDAMENTAL GRAMMAR RULES CHECKLIST =====
+  Before creating ANY exercise, verify these 15 grammar rules:
+  
+  1. SUBJECT-VERB AGREEMENT:
+     - He/She/It + V-s/es: "She walks" ✓, "She walk" ❌
+     - I/You/We/They + V: "They walk" ✓, "They walks" ❌
+     - There is + singular, There are + plural
+  
+  2. VERB vs NOUN FORMS (CRITICAL!):
+     - VERB → NOUN examples:
+       * complain → complaint ("make a complaint" ✓, "make a complain" ❌)
+       * advise → advice ("give advice" ✓, "give advise" ❌)
+       * believe → belief ("have a belief" ✓)
+       * choose → choice ("make a choice" ✓)
+       * succeed → success ("achieve success" ✓)
+       * decide → decision ("make a decision" ✓)
+       * explain → explanation ("give an explanation" ✓)
+       * describe → description ("write a description" ✓)
+  
+  3. TENSE CONSISTENCY:
+     - Past markers (yesterday, last week, ago) → Past tense
+     - Present markers (every day, usually, always) → Present tense
+     - Now, at the moment → Present continuous
+     - Since, for + duration → Present perfect
+  
+  4. ARTICLES (a/an/the):
+     - a + consonant sound: "a book", "a university" (yoo-sound)
+     - an + vowel sound: "an apple", "an hour" (silent h)
+     - the = specific/known item
+     - No article: plural general, uncountable general
+  
+  5. PREPOSITIONS:
+     - listen TO music ✓ (not "listen music")
+     - depend ON ✓ (not "depend of")
+     - interested IN ✓ (not "interested on")
+     - good AT ✓ (not "good in")
+     - arrive AT (place) / arrive IN (city/country)
+     - on Monday, in January, at 5 o'clock
+  
+  6. PRONOUN FORMS:
+     - Subject: I, you, he, she, it, we, they
+     - Object: me, you, him, her, it, us, them
+     - Possessive adj: my, your, his, her, its, our, their
+     - Possessive pronoun: mine, yours, his, hers, ours, theirs
+     - "Him went home" ❌ → "He went home" ✓
+  
+  7. COMPARATIVE & SUPERLATIVE:
+     - Short adj: -er/-est (big → bigger → biggest)
+     - Long adj: more/most (beautiful → more beautiful)
+     - NEVER combine: "more bigger" ❌, "most biggest" ❌
+     - Irregular: good → better → best, bad → worse → worst
+  
+  8. ADVERB WORD ORDER:
+     - Frequency adverbs (always, usually, often, sometimes, never):
+       * Before main verb: "I always eat" ✓
+       * After BE verb: "She is always late" ✓, "She always is late" ❌
+  
+  9. INFINITIVE vs GERUND:
+     - want/need/decide/hope + TO + V: "want to go" ✓
+     - enjoy/finish/avoid/mind + V-ing: "enjoy swimming" ✓
+     - stop + to (purpose) vs stop + -ing (end activity)
+  
+  10. COUNTABLE vs UNCOUNTABLE:
+      - Uncountable: water, information, advice, furniture, news, homework
+      - "informations" ❌, "advices" ❌, "furnitures" ❌
+      - much/little + uncountable, many/few + countable
+  
+  11. RELATIVE PRONOUNS:
+      - who/that = people, which/that = things
+      - whose = possession, where = place, when = time
+  
+  12. CONDITIONALS:
+      - Type 0: If + present, present (general truth)
+      - Type 1: If + present, will + V (real future)
+      - Type 2: If + past, would + V (unreal present)
+      - Type 3: If + had + PP, would have + PP (unreal past)
+  
+  13. MODAL VERBS:
+      - Modal + base verb: "can swim" ✓, "can swims" ❌, "can to swim" ❌
+      - must/should/can/could/may/might/will/would
+  
+  14. PASSIVE VOICE:
+      - be + past participle: "is written", "was built", "has been done"
+      - "The book was wrote" ❌ → "The book was written" ✓
+  
+  15. THERE vs THEIR vs THEY'RE:
+      - there = location/existence, their = possession, they're = they are
+  
+  ===== EXERCISE-SPECIFIC REQUIREMENTS =====
+  
+  📝 MULTIPLE CHOICE (multipleChoice):
+  - "question": A sentence with ONE blank using "____" for the gap
+  - "options": 4 options [A, B, C, D] - only ONE grammatically correct
+  - "correctAnswer": Index of correct option (0-3)
+  - ⚠️ VERIFY: Check the correct answer against grammar rules above
+  - ⚠️ VERIFY: Ensure 3 wrong options are clearly grammatically incorrect
+  - "explanation": Vietnamese explanation with grammar rule reference
+  
+  MULTIPLE CHOICE VALIDATION EXAMPLE:
+  Question: "She ____ to school every day."
+  Options: ["go", "goes", "going", "went"]
+  ✓ Check: Subject "She" (3rd person singular) + "every day" (present habit)
+  ✓ Rule 1: She + V-s = "goes"
+  ✓ correctAnswer: 1 (index of "goes")
+
+  📝 FILL-IN-THE-BLANK (fillBlank):
+  ⚠️ CRITICAL: ONLY 1 WORD ANSWER, ONLY 1 BLANK
+  - "question": Complete sentence with exactly ONE blank "____"
+  - "correctAnswer": EXACTLY 1 WORD (no phrases like "am eating")
+  - "alternativeAnswers": Array of alternative correct answers (if multiple words are equally correct)
+    ⚠️ IMPORTANT: If input teaches that multiple words are interchangeable (e.g., "although/though", "because/since"),
+    then include ALL valid alternatives! Example:
+    - If prompt says "although/though are interchangeable" → Use "correctAnswer": "although", "alternativeAnswers": ["though"]
+    - If prompt says "because/since/as can be used" → Use "correctAnswer": "because", "alternativeAnswers": ["since", "as"]
+  - "explanation": Vietnamese explanation
+  - ⚠️ VERIFY: The completed sentence must be 100% grammatically correct
+  
+  FILL-BLANK VALIDATION EXAMPLE:
+  Question: "____ it rained, they went to the cinema." → Answer: "Although"
+  ✓ If input teaches both "although" and "though" are correct:
+    correctAnswer: "Although", alternativeAnswers: ["Though"]
+  ✓ Both answers will be accepted as correct!
+  
+  ===== 🚨🚨🚨 ERROR IDENTIFICATION - MANDATORY DOUBLE-CHECK PROTOCOL 🚨🚨🚨 =====
+  
+  📝 ERROR IDENTIFICATION (errorId):
+  ⚠️ ĐÂY LÀ PHẦN DỄ SAI NHẤT! PHẢI KIỂM TRA THẬT KỸ!
+  
+  🔴🔴🔴 CRITICAL - ĐỌC KỸ VÀ LÀM ĐÚNG 🔴🔴🔴
+  
+  INDEX MAPPING TABLE - HỌC THUỘC LÒNG:
+  ┌─────────┬─────────────────────┐
+  │ CHỮ CÁI │ correctOptionIndex  │
+  ├─────────┼─────────────────────┤
+  │   (A)   │         0           │
+  │   (B)   │         1           │
+  │   (C)   │         2           │
+  │   (D)   │         3           │
+  └─────────┴─────────────────────┘
+  
+  📋 QUY TRÌNH BẮT BUỘC 5 BƯỚC:
+  
+  BƯỚC 1 - TẠO CÂU:
+  Viết câu có ĐÚNG 1 lỗi ngữ pháp. Đánh dấu 4 phần (A), (B), (C), (D).
+  
+  BƯỚC 2 - TÌM LỖI:
+  Xác định CHỮ CÁI của phần có lỗi. Ví dụ: "Lỗi ở phần (A)"
+  
+  BƯỚC 3 - CHUYỂN ĐỔI CHỮ CÁI SANG INDEX:
+  Dùng bảng trên: A→0, B→1, C→2, D→3
+  Ví dụ: Lỗi ở (A) → correctOptionIndex = 0
+  
+  BƯỚC 4 - GHI VÀO JSON:
+  "correctOptionIndex": [số đã tính ở bước 3]
+  
+  BƯỚC 5 - KIỂM TRA NGƯỢC (BẮT BUỘC!):
+  Đọc lại explanation và xem phần có lỗi có khớp với options[correctOptionIndex] không.
+  Nếu explanation nói "lỗi ở go" thì options[correctOptionIndex] PHẢI chứa "go"!
+  
+  BƯỚC 6 - GHI CÁCH SỬA:
+  "correction": CHỈ phần bị sai viết lại cho đúng (không kèm chữ cái, không chép cả câu).
+  "alternativeCorrections": các cách sửa khác cũng đúng (nếu có). Học sinh sẽ phải gõ cách sửa này.
+  
+  ===== VÍ DỤ THỰC TẾ - LÀM THEO Y HỆT =====
+  
+  📌 VÍ DỤ 1 - LỖI Ở (A):
+  sentence: "She (A) have (B) a (C) table (D) ."
+  options: ["(A) have", "(B) a", "(C) table", "(D) ."]
+  
+  Bước 2: Lỗi ở "have" → Đây là phần (A)
+  Bước 3: (A) → index 0
+  Bước 4: correctOptionIndex: 0
+  Bước 5: options[0] = "(A) have" ✓ KHỚP VỚI LỖI!
+  
+  correction: "has"
+  explanation: "Lỗi ở (A). 'She' là ngôi 3 số ít → dùng 'has', không phải 'have'."
+  
+  📌 VÍ DỤ 2 - LỖI Ở (B):
+  sentence: "The (A) bananas (B) is (C) yellow (D) ."
+  options: ["(A) bananas", "(B) is", "(C) yellow", "(D) ."]
+  
+  Bước 2: Lỗi ở "is" → Đây là phần (B)
+  Bước 3: (B) → index 1
+  Bước 4: correctOptionIndex: 1
+  Bước 5: options[1] = "(B) is" ✓ KHỚP VỚI LỖI!
+  
+  correction: "are"
+  explanation: "Lỗi ở (B). 'bananas' là số nhiều → dùng 'are', không phải 'is'."
+  
+  📌 VÍ DỤ 3 - LỖI Ở (A) VỚI THÌ QUÁ KHỨ:
+  sentence: "I (A) go (B) to (C) the aquarium (D) yesterday."
+  options: ["(A) go", "(B) to", "(C) the aquarium", "(D) yesterday"]
+  
+  Bước 2: "yesterday" = thời gian quá khứ → lỗi ở "go" cần đổi thành "went"
+          "go" nằm ở phần (A)
+  Bước 3: (A) → index 0
+  Bước 4: correctOptionIndex: 0
+  Bước 5: options[0] = "(A) go" ✓ KHỚP! 
+          ❌ KHÔNG PHẢI options[1] = "(B) to"!
+  
+  correction: "went"
+  explanation: "Lỗi ở (A). 'yesterday' là thời gian quá khứ → 'go' phải đổi thành 'went'."
+  
+  ⚠️ LƯU Ý: Trong ví dụ trên, "to" KHÔNG có lỗi! "go to" là đúng ngữ pháp.
+  Lỗi là ở THÌ của động từ (go → went), không phải ở giới từ "to".
+  
+  📌 VÍ DỤ 4 - LỖI Ở (D):
+  sentence: "He (A) put (B) the (C) cup (D) in the table."
+  options: ["(A) put", "(B) the", "(C) cup", "(D) in the table"]
+  
+  Bước 2: Lỗi ở "in the table" → phải dùng "on" (vật ở TRÊN bề mặt)
+          "in the table" nằm ở phần (D)
+  Bước 3: (D) → index 3
+  Bước 4: correctOptionIndex: 3
+  Bước 5: options[3] = "(D) in the table" ✓ KHỚP VỚI LỖI!
+  
+  correction: "on the table"
+  explanation: "Lỗi ở (D). Vật ở TRÊN bề mặt → dùng 'on', không phải 'in'."
+  
+  📌 VÍ DỤ 5 - LỖI Ở (C):
+  sentence: "They (A) went (B) to (C) school yesterday (D) ."
+  options: ["(A) went", "(B) to", "(C) school yesterday", "(D) ."]
+  
+  Giả sử câu này đúng ngữ pháp, KHÔNG có lỗi → ĐỔI thành câu khác!
+  
+  sentence: "She (A) can (B) swims (C) very fast (D) ."
+  options: ["(A) can", "(B) swims", "(C) very fast", "(D) ."]
+  
+  Bước 2: "can" là modal verb → động từ theo sau phải ở dạng nguyên
+          "swims" sai, phải là "swim" → Lỗi ở (B)
+  Bước 3: (B) → index 1
+  Bước 4: correctOptionIndex: 1
+  Bước 5: options[1] = "(B) swims" ✓ KHỚP VỚI LỖI!
+  
+  correction: "swim"
+  explanation: "Lỗi ở (B). Sau 'can' động từ phải ở dạng nguyên → 'swim', không phải 'swims'."
+  
+  ===== ❌ SAI LẦM THƯỜNG GẶP - TUYỆT ĐỐI KHÔNG LÀM ❌ =====
+  
+  ❌ SAI LẦM 1: Explanation nói lỗi ở "go" nhưng correctOptionIndex = 1
+  Vì "go" ở phần (A) → correctOptionIndex PHẢI = 0, không phải 1!
+  
+  ❌ SAI LẦM 2: Nhầm lẫn giữa vị trí xuất hiện và chữ cái
+  "go" xuất hiện đầu tiên NHƯNG nó có thể là (A), (B), (C) hoặc (D) tùy câu
+  → Luôn xem chữ cái trong ngoặc đơn, KHÔNG đếm vị trí!
+  
+  ===== KIỂM TRA CUỐI CÙNG CHO ERROR ID =====
+  
+  🔍 FINAL CHECK - ĐỌC TO VÀ TRẢ LỜI:
+  
+  1. Explanation nói lỗi ở từ/cụm từ nào? → Ghi ra: "__________"
+  2. Từ/cụm từ đó nằm ở chữ cái nào (A/B/C/D)? → Ghi ra: "(___)"
+  3. Chữ cái đó tương ứng với index mấy? → A=0, B=1, C=2, D=3 → Index: ___
+  4. correctOptionIndex trong JSON có = index ở bước 3 không? → CÓ ✓ / KHÔNG ❌
+  
+  Nếu bước 4 = KHÔNG → SỬA LẠI correctOptionIndex!
+  
+  ===== 🚨🚨🚨 SCRAMBLE - MANDATORY WORD MATCH VALIDATION 🚨🚨🚨 =====
+
+  📝 SCRAMBLE (scramble):
+  ⚠️ LỖI THƯỜNG GẶP NHẤT: TỪ TRONG SCRAMBLED KHÔNG KHỚP VỚI CORRECTSENTENCE!
+  
+  🔴 QUY TẮC VÀNG: scrambled PHẢI chứa CHÍNH XÁC các từ trong correctSentence!
+  
+  📋 QUY TRÌNH BẮT BUỘC CHO MỖI CÂU SCRAMBLE:
+  
+  BƯỚC 1 - VIẾT CORRECTSENTENCE TRƯỚC:
+  Viết câu hoàn chỉnh, kiểm tra ngữ pháp 100% đúng.
+  Ví dụ: "He has a bat."
+  
+  BƯỚC 2 - TÁCH TỪ:
+  Tách correctSentence thành mảng từ (bao gồm cả dấu câu).
+  Ví dụ: ["He", "has", "a", "bat", "."] → 5 phần tử
+  
+  BƯỚC 3 - XÁO TRỘN:
+  Xáo trộn mảng từ để tạo scrambled.
+  Ví dụ: ["bat", "a", "He", "has", "."] → 5 phần tử
+  
+  BƯỚC 4 - XÁC MINH:
+  ĐẾM SỐ PHẦN TỬ: scrambled.length === correctSentence (đã tách).length?
+  SO SÁNH TỪ: Mỗi từ trong scrambled có trong correctSentence không?
+  
+  ===== VÍ DỤ ĐÚNG =====
+  
+  VÍ DỤ 1:
+  ✓ correctSentence: "He has a bat."
+  ✓ Tách từ: ["He", "has", "a", "bat", "."] (5 từ)
+  ✓ scrambled: ["bat", "a", "He", "has", "."] (5 từ) ✓ KHỚP!
+  
+  VÍ DỤ 2:
+  ✓ correctSentence: "This is a green apple."
+  ✓ Tách từ: ["This", "is", "a", "green", "apple", "."] (6 từ)
+  ✓ scrambled: ["green", "a", "apple", "This", "is", "."] (6 từ) ✓ KHỚP!
+  
+  ===== VÍ DỤ SAI - TUYỆT ĐỐI KHÔNG LÀM =====
+  
+  ❌ SAI - THỪA TỪ:
+  correctSentence: "I like pizza."
+  scrambled: ["to", "I", "pizza", "like", "."] ← Thừa "to"! WRONG!
+  
+  ❌ SAI - THIẾU TỪ:
+  correctSentence: "This is a green apple."
+  scrambled: ["green", "apple", "This", "is", "."] ← Thiếu "a"! WRONG!
+  
+  ❌ SAI - TỪ KHÁC:
+  correctSentence: "This is a green apple."
+  scrambled: ["green", "an", "apple", "This", "is", "."] ← "an" thay vì "a"! WRONG!
+  
+  ===== KIỂM TRA CUỐI CÙNG CHO SCRAMBLE =====
+  Trước khi submit mỗi câu Scramble, TRẢ LỜI các câu hỏi:
+  □ correctSentence có đúng ngữ pháp 100% không?
+  □ Tôi đã tách correctSentence thành từng từ chưa?
+  □ scrambled có ĐÚNG số từ như correctSentence không?
+  □ Mỗi từ trong scrambled có xuất hiện trong correctSentence không?
+  □ Không có từ thừa, từ thiếu, hay từ bị thay đổi?
+
+  ===== 📝 VOCABULARY TRANSLATION (vocabTranslation) =====
+  Bài tập từ vựng Anh-Việt: Cho từ tiếng Anh, chọn 1 trong 4 nghĩa tiếng Việt đúng.
+  
+  STRUCTURE:
+  {
+    "id": "vocab_1",
+    "word": "apple",
+    "options": ["quả táo", "quả cam", "quả chuối", "quả lê"],
+    "correctAnswer": 0,
+    "explanation": "'apple' nghĩa là 'quả táo'"
+  }
+  
+  RULES:
+  - "word": Từ tiếng Anh từ bài học vocabulary
+  - "options": 4 nghĩa tiếng Việt (1 đúng, 3 sai nhưng hợp lý)
+  - "correctAnswer": Index của đáp án đúng (0-3)
+  - ⚠️ 3 đáp án sai PHẢI là từ cùng chủ đề, KHÔNG quá dễ nhận ra
+  - ⚠️ PHẢI sử dụng từ vựng từ vocabulary section của bài học`;
+
+const READING_RULES = `===== 📝 TRUE/FALSE READING (trueFalse + trueFalsePassage) =====
+  Bài tập đọc hiểu True/False: MỘT bài đọc cố định + 5 câu hỏi True/False dựa trên bài đọc đó.
+  
+  ⚠️ QUAN TRỌNG: BẠN PHẢI TẠO 2 PHẦN:
+  1. "trueFalsePassage": Một đoạn văn tiếng Anh 100-150 từ về chủ đề bài học
+  2. "trueFalse": 5 câu hỏi True/False DỰA TRÊN đoạn văn đó
+  
+  🎯 CRITICAL: PASSAGE DIFFICULTY MUST MATCH INPUT VOCABULARY LEVEL 🎯
+  
+  STEP 1 - ANALYZE INPUT DIFFICULTY:
+  Xem xét từ vựng và câu ví dụ đầu vào để xác định trình độ:
+  
+  📗 BEGINNER (Cơ bản - A1/A2):
+  - Từ vựng đơn giản: apple, cat, dog, school, family, big, small
+  - Câu ví dụ ngắn: "He has a bat.", "I like pizza.", "She is happy."
+  - Cấu trúc: Subject + Verb + Object (3-6 từ)
+  → Tạo passage với câu ngắn 5-8 từ, từ vựng đơn giản, thì hiện tại đơn
+  
+  📘 INTERMEDIATE (Trung cấp - B1):
+  - Từ vựng phong phú hơn: environment, technology, experience
+  - Câu ví dụ dài hơn: "I usually go to school by bus every morning."
+  - Cấu trúc: Có trạng từ, giới từ (6-12 từ)
+  → Tạo passage với câu 8-15 từ, nhiều thì, từ nối đơn giản
+  
+  📙 ADVANCED (Nâng cao - B2+):
+  - Từ vựng học thuật: sustainable, consequence, phenomenon
+  - Câu phức tạp với mệnh đề phụ, infinitive, gerund
+  → Tạo passage với câu phức, từ nối logic, nhiều thì
+  
+  STEP 2 - USE INPUT VOCABULARY IN PASSAGE:
+  ⚠️ BẮT BUỘC: Passage PHẢI sử dụng ÍT NHẤT 5 từ vựng từ vocabulary section đầu vào!
+  Điều này giúp học sinh ôn tập từ vựng đã học qua ngữ cảnh đọc hiểu.
+  
+  EXAMPLE - BEGINNER LEVEL:
+  Input vocab: cat, dog, big, small, happy
+  → trueFalsePassage: "I have a cat. My cat is small. It is very happy. My friend has a dog. The dog is big. The cat and the dog are friends. They play together every day."
+  
+  EXAMPLE - INTERMEDIATE LEVEL:  
+  Input vocab: environment, protect, recycle, pollution, nature
+  → trueFalsePassage: "Today, many people want to protect the environment. They recycle paper, plastic, and glass. Pollution is a big problem in cities. We should take care of nature and plant more trees. Everyone can help protect our planet."
+  
+  STRUCTURE FOR trueFalsePassage:
+  "trueFalsePassage": "[Đoạn văn 150-200 từ PHÙ HỢP VỚI TRÌNH ĐỘ từ vựng đầu vào]"
+  
+  STRUCTURE FOR trueFalse:
+  {
+    "id": "tf_1",
+    "statement": "Tom is a teacher.",
+    "isTrue": false,
+    "explanation": "Sai. Theo bài đọc, Tom là học sinh (student), không phải giáo viên."
+  }
+  
+  RULES:
+  - "trueFalsePassage": 150-200 từ, ĐỘ KHÓ TƯƠNG ĐƯƠNG với từ vựng đầu vào
+  - "trueFalsePassage": PHẢI sử dụng ít nhất 5 từ từ vocabulary section
+  - "statement": Một câu khẳng định VỀ NỘI DUNG BÀI ĐỌC (tiếng Anh)
+  - "isTrue": true hoặc false
+  - "explanation": Giải thích bằng tiếng Việt, trích dẫn thông tin từ bài đọc
+  - ⚠️ TẤT CẢ 5 statements PHẢI dựa trên trueFalsePassage
+  - ⚠️ 2-3 câu TRUE, 2-3 câu FALSE (cân bằng)
+  - ⚠️ KHÔNG được tạo statement về thông tin không có trong bài đọc
+  - ⚠️ Câu hỏi cũng phải PHÙ HỢP trình độ (câu hỏi đơn giản cho beginner)
+  
+  ===== 📝 LISTENING COMPREHENSION (listening) =====
+  Bài tập nghe hiểu: 5 câu hỏi nghe với Text-to-Speech.
+  
+  STRUCTURE:
+  {
+    "id": "listen_1",
+    "audioText": "I go to school every day.",
+    "options": ["I go to school every day.", "I go to work every day.", "I go to the park every day.", "I stay home every day."],
+    "correctAnswer": 0,
+    "explanation": "Câu nghe là 'I go to school every day.' - Tôi đi học mỗi ngày."
+  }
+  
+  RULES:
+  - "id": ID duy nhất (listen_1, listen_2, ...)
+  - "audioText": Câu tiếng Anh ngắn gọn (5-12 từ), SỬ DỤNG TỪ VỰNG ĐÃ HỌC
+  - "options": 4 lựa chọn text (1 đúng = audioText, 3 sai nhưng tương tự)
+  - "correctAnswer": Index của đáp án đúng (0-3)
+  - "explanation": Giải thích tiếng Việt + dịch nghĩa câu đúng
+  - ⚠️ Câu nghe PHẢI sử dụng từ vựng và ngữ pháp từ bài học
+  - ⚠️ 3 đáp án sai phải giống câu đúng nhưng thay đổi 1-2 từ
+  - ⚠️ Độ khó phải PHÙ HỢP với trình độ đầu vào`;
+
+const QUALITY_ASSURANCE = `===== FINAL QUALITY ASSURANCE =====
+  Before submitting, verify EACH question:
+  
+  ✅ CHECKLIST FOR EVERY QUESTION:
+  □ Does the correct answer follow the 15 grammar rules?
+  □ Is there only ONE possible correct answer?
+  □ For Scramble: Does scrambled array contain EXACT same words as correctSentence?
+  □ For Scramble: No extra words, no missing words, no changed words?
+  □ For VocabTranslation: Is the word from the vocabulary section?
+  □ For VocabTranslation: Are all 4 options reasonable Vietnamese translations?
+  □ For TrueFalse: Is the statement based on the reading passage?
+  □ For TrueFalse: Is the explanation accurate in Vietnamese?
+  □ Is the explanation accurate and educational?
+  
+  ⚠️ IF UNSURE: Re-read the 15 grammar rules and apply them systematically`;
+
+const SOURCE_ALIGNMENT = `All content must align strictly with the source provided. Do not invent unrelated topics.`;
+
+// ===== TEMPLATE REGISTRY =====
+
+const LESSON_EXTRACT = `${LESSON_PROMPT_HEADER}
+  STEP 1/3 TASK: Analyze the provided content (text/images) and extract the lesson foundation:
+  "topic", "vocabulary", "grammar" and "teacherTips" (short Vietnamese tips for the teacher).
+  Exercises and reading are created in the next steps FROM YOUR OUTPUT, so nothing from the source may be missing.
+
+  {{levelBlock}}
+
+  ${EXTRACTION_RULES}
+
+  ${SOURCE_ALIGNMENT}`;
+
+const LESSON_EXERCISES = `${LESSON_PROMPT_HEADER}
+  STEP 2/3 TASK: Create the MegaTest exercises for the lesson extracted in step 1.
+
+  LESSON FROM STEP 1 (input vocabulary & grammar):
+  {{lesson}}
+
+  {{levelBlock}}
+
+  ${EXERCISE_RULES}
+
+  {{requirements}}
+
+  ${QUALITY_ASSURANCE}
+
+  ${SOURCE_ALIGNMENT}`;
+
+const LESSON_READING = `${LESSON_PROMPT_HEADER}
+  STEP 3/3 TASK: Create the reading and listening parts for the lesson extracted in step 1.
+
+  LESSON FROM STEP 1 (input vocabulary & grammar):
+  {{lesson}}
+
+  {{levelBlock}}
+
+  ===== 📖 READING ADVENTURE (reading) =====
+  - "title", "passage": a short English passage using the lesson vocabulary, "translation": its Vietnamese translation
+  - "comprehension": multiple-choice questions about the passage (4 options, 0-based "correctAnswer", Vietnamese explanation)
+
+  ${READING_RULES}
+
+  {{requirements}}
+
+  ${QUALITY_ASSURANCE}
+
+  ${SOURCE_ALIGNMENT}`;
+
+const ANSWER_REPAIR = `MRS. DUNG AI - ANSWER KEY REPAIR.
+  The following exercise items failed automatic answer-key verification. Rewrite ONLY these items so every problem listed is fixed.
+
+  LESSON CONTEXT:
+  - Topic: {{topic}}
+  - Vocabulary: {{vocabulary}}
+  - Grammar: {{grammar}}
+  {{levelLine}}
+  {{passageLine}}
+
+  FAILING ITEMS (with problems):
+  {{items}}
+
+  RULES:
+  - Return each section with the SAME number of items, in the SAME order, keeping the SAME "id".
+  - multipleChoice / listening / vocabTranslation: exactly 4 distinct options, "correctAnswer" is the 0-based index of the ONLY correct option.
+  - listening: options[correctAnswer] must be exactly the audioText.
+  - vocabTranslation: "word" must be one of the lesson vocabulary words; the correct option is its Vietnamese meaning.
+  - scramble: "scrambled" must contain EXACTLY the tokens of "correctSentence" (words and punctuation), shuffled.
+  - fillBlank: exactly ONE blank "____" and a ONE-word "correctAnswer".
+  - errorId: "sentence" marks 4 parts (A)-(D) with exactly ONE grammar error, options[correctOptionIndex] is that part, "correction" is that part rewritten correctly.
+  - trueFalse: statements must be checkable against the passage; follow the TRUE/FALSE direction asked in the problems.
+  - matching: "left" is a lesson word, "right" its Vietnamese meaning; no word or meaning may repeat one used by another pair.
+  - comprehension: 4 distinct options, "correctAnswer" is the 0-based index of the ONLY option the reading passage supports.
+  - level problems: shorten the sentence or swap the listed words for simpler ones, keeping the answer key correct.
+  - Explanations in Vietnamese.`;
+
+const SECTION_REGENERATE = `MRS. DUNG AI - REGENERATE ONE LESSON SECTION.
+  The teacher wants a NEW, better version of the "{{section}}" section ({{label}}) of the lesson below.
+  Keep everything consistent with the rest of the lesson (same topic, vocabulary, grammar and difficulty level).
+
+  SECTION RULES: {{guide}}
+  {{levelBlock}}
+  {{countLine}}
+  {{teacherNote}}
+
+  CURRENT LESSON (context):
+  {{lesson}}
+
+  CURRENT VERSION OF THIS SECTION (to be replaced, do not copy it):
+  {{current}}
+
+  Return the new section in "content".`;
+
+const JSON_REPAIR = `MRS. DUNG AI - JSON REPAIR.
+  Your previous JSON answer does not match the required structure. Fix ONLY the paths listed below and return the COMPLETE JSON again.
+  Keep every other value exactly as it is (same items, same order, same ids).
+
+  PROBLEMS (path → what is wrong):
+  {{problems}}
+
+  RULES:
+  - Multiple choice / listening / vocabulary translation: exactly 4 options and "correctAnswer" as a 0-based INTEGER.
+  - "isTrue" is a JSON boolean, ids are strings, lists are JSON arrays.
+
+  PREVIOUS ANSWER:
+  {{previous}}`;
+
+const STORY = `MRS. DUNG AI - CREATIVE STORYTELLER.
+  
+  Analyze the input and create:
+  1. A magical story featuring {{characterName}}.
+  2. EXACTLY 10 Comprehension Quiz questions.
+  3. EXACTLY 10 Speaking interaction prompts.
+  4. A SCIENTIFIC WRITING PROMPT for the student in BOTH English and Vietnamese.
+  
+  Source material: Topic: {{topic}}, Text: {{text}}.
+  Character context: {{characterContext}}.`;
+
+const MIND_MAP = `Create a professional Mind Map following Tony Buzan's principles for: {{content}}. 
+    Structure: Root node is the main topic. Child nodes are key sub-concepts with emojis. 
+    Output strictly in JSON format matching the schema.`;
+
+const SPEECH_EVALUATION = `Evaluate the student's speaking performance on a scale of 0-10. Provide encouraging feedback in Vietnamese.`;
+
+const STORY_IMAGE = `A high-quality educational illustration for kids: {{prompt}}. Artistic Style: {{style}}. High resolution, 8k, vibrant colors.`;
+
+const WRITING_CORRECTION = `Evaluate and correct this student writing: "{{text}}". The topic was: "{{topic}}". Provide a score (0-10), feedback, fixed text, and detailed error list.`;
+
+const PRESENTATION = `Create a professional English presentation script for a student based on this Mind Map data: {{data}}. 
+    Include a warm introduction, body sections for each node, and a polite conclusion. 
+    Provide both English script and Vietnamese translation.`;
+
+const MIND_MAP_PROMPT = `TASK: Generate a single, highly detailed English prompt for drawing a professional Tony Buzan Mind Map using AI art tools (like Midjourney or DALL-E). 
+    CONTENT SOURCE: {{content}}. 
+    
+    PROMPT SPECIFICATIONS:
+    - Style: 3D Organic Tony Buzan Mind Map, Pixar-style animation render.
+    - Central Theme: A clear 3D icon representing the lesson topic at the center.
+    - Branches: Curvy, organic, thick-to-thin colorful branches spreading outwards.
+    - Elements: Floating keywords in English, cute 3D emojis/icons next to branches.
+    - Environment: Clean bright studio background, 8k resolution, cinematic lighting, vibrant pedagogical colors.
+    - Exclude: No text other than the keywords. 
+    
+    JUST PROVIDE THE RAW PROMPT STRING.`;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  { id: 'lessonExtract', label: 'Soạn bài - Bước 1: Trích xuất', version: 1, variables: ['levelBlock', 'topic', 'level'], teacherInstructions: true, text: LESSON_EXTRACT },
+  { id: 'lessonExercises', label: 'Soạn bài - Bước 2: Bài tập', version: 2, variables: ['lesson', 'levelBlock', 'requirements', 'topic', 'level'], teacherInstructions: true, text: LESSON_EXERCISES },
+  { id: 'lessonReading', label: 'Soạn bài - Bước 3: Đọc & nghe', version: 1, variables: ['lesson', 'levelBlock', 'requirements', 'topic', 'level'], teacherInstructions: true, text: LESSON_READING },
+  { id: 'answerRepair', label: 'Sửa đáp án sai', version: 3, variables: ['topic', 'vocabulary', 'grammar', 'levelLine', 'passageLine', 'items'], teacherInstructions: true, text: ANSWER_REPAIR },
+  { id: 'sectionRegenerate', label: 'Tạo lại một phần bài học', version: 1, variables: ['section', 'label', 'guide', 'levelBlock', 'countLine', 'teacherNote', 'lesson', 'current'], teacherInstructions: true, text: SECTION_REGENERATE },
+  { id: 'jsonRepair', label: 'Sửa JSON sai cấu trúc', version: 1, variables: ['problems', 'previous'], teacherInstructions: false, text: JSON_REPAIR },
+  { id: 'story', label: 'Truyện sáng tạo', version: 1, variables: ['characterName', 'topic', 'text', 'characterContext'], teacherInstructions: true, text: STORY },
+  { id: 'mindMap', label: 'Sơ đồ tư duy', version: 1, variables: ['content'], teacherInstructions: true, text: MIND_MAP },
+  { id: 'mindMapPrompt', label: 'Lời nhắc vẽ sơ đồ tư duy', version: 1, variables: ['content'], teacherInstructions: false, text: MIND_MAP_PROMPT },
+  { id: 'speechEvaluation', label: 'Chấm phát âm', version: 1, variables: [], teacherInstructions: true, text: SPEECH_EVALUATION },
+  { id: 'storyImage', label: 'Vẽ tranh minh hoạ', version: 1, variables: ['prompt', 'style'], teacherInstructions: false, text: STORY_IMAGE },
+  { id: 'writingCorrection', label: 'Chấm bài viết', version: 1, variables: ['text', 'topic'], teacherInstructions: true, text: WRITING_CORRECTION },
+  { id: 'presentation', label: 'Bài thuyết trình', version: 1, variables: ['data'], teacherInstructions: true, text: PRESENTATION },
+];
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate =>
+  PROMPT_TEMPLATES.find(t => t.id === id);
+
+// ===== TEACHER CUSTOMIZATIONS =====
+
+export const getPromptCustomizations = (): PromptCustomizations => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_PROMPTS_STORAGE) || '{}');
+    return { instructions: saved.instructions || '', templates: saved.templates || {} };
+  } catch {
+    return { instructions: '', templates: {} };
+  }
+};
+
+export const savePromptCustomizations = (custom: PromptCustomizations): void => {
+  // A text identical to the default is not a customization
+  const templates = Object.fromEntries(Object.entries(custom.templates).filter(([id, text]) =>
+    text?.trim() && text !== getPromptTemplate(id as PromptTemplateId)?.text
+  ));
+  localStorage.setItem(CUSTOM_PROMPTS_STORAGE, JSON.stringify({ instructions: custom.instructions.trim(), templates }));
+};
+
+// Short stable hash so two lessons show whether they used the same customized text
+const shortHash = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36).slice(0, 6);
+};
+
+// e.g. "lessonExercises@v1", "lessonExercises@v1+custom.k3x9a+note.8fz2q"
+export const getPromptVersion = (id: PromptTemplateId): string => {
+  const template = getPromptTemplate(id);
+  const custom = getPromptCustomizations();
+  const text = custom.templates[id];
+  let version = `${id}@v${template.version}`;
+  if (text) version += `+custom.${shortHash(text)}`;
+  if (template.teacherInstructions && custom.instructions) version += `+note.${shortHash(custom.instructions)}`;
+  return version;
+};
+
+// Fill the {{variables}} of a template (customized text if the teacher replaced it);
+// values are inserted as-is, so a value containing "{{x}}" is not expanded again
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string | number | undefined> = {}): string => {
+  const template = getPromptTemplate(id);
+  const custom = getPromptCustomizations();
+  const text = (custom.templates[id] || template.text)
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(variables[name] ?? ''));
+  if (!template.teacherInstructions || !custom.instructions) return text;
+  return `${text}
+
+  ===== TEACHER'S CUSTOM INSTRUCTIONS (follow them unless they break the required JSON format or the answer keys) =====
+  ${custom.instructions}`;
+};
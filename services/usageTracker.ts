@@ -0,0 +1,180 @@
+import { AIProvider } from "./aiProvider";
+import { AIFeature, LessonUsage, UsageTotals } from "../types";
+
+// ===== TOKEN USAGE & COST =====
+// Every real AI response reports its token counts (usageMetadata). They are added up per
+// day, API key, model and feature in localStorage so the teacher can see how close a
+// free-tier key is to its daily limit before Google answers 429 RESOURCE_EXHAUSTED.
+// Replayed fixtures are not counted: the tracker wraps the real provider only.
+
+const USAGE_STORAGE = 'mrs_dung_usage_log';
+const RETENTION_DAYS = 30;
+
+export interface UsageEvent {
+  keyId: string;
+  model: string;
+  feature: AIFeature | 'other';
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageDayEntry extends UsageTotals {
+  date: string;            // YYYY-MM-DD, local time
+  keyId: string;           // "…abcd-1x2y3z" (last characters + hash of the key) or "local"
+  model: string;
+  feature: AIFeature | 'other';
+}
+
+// USD per 1M tokens (input, output) from the public Gemini price list - an estimate only
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+};
+
+// Requests per day on a free-tier key (estimate; Google changes these limits)
+export const FREE_TIER_DAILY_REQUESTS: Record<string, number> = {
+  'gemini-3-pro-preview': 50,
+  'gemini-3-flash-preview': 250,
+  'gemini-2.5-flash': 250,
+  'gemini-2.5-flash-preview-tts': 15,
+  'gemini-2.5-flash-image': 100,
+};
+
+export const FEATURE_LABELS: Record<AIFeature | 'other', string> = {
+  lessonExtract: 'Soạn bài - trích xuất',
+  lessonExercises: 'Soạn bài - bài tập',
+  lessonReading: 'Soạn bài - đọc & nghe',
+  answerRepair: 'Sửa đáp án',
+  sectionRegenerate: 'Tạo lại một phần',
+  story: 'Truyện',
+  storyImage: 'Tranh minh hoạ',
+  mindMap: 'Sơ đồ tư duy',
+  mindMapPrompt: 'Lời nhắc sơ đồ',
+  tts: 'Giọng đọc AI',
+  speechEvaluation: 'Chấm phát âm',
+  writingCorrection: 'Chấm bài viết',
+  presentation: 'Thuyết trình',
+  other: 'Khác',
+};
+
+// The last characters are for people; the hash of the whole key keeps two keys that end alike apart
+export const keyIdOf = (apiKey: string): string => {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < apiKey.length; i++) {
+    hash ^= apiKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `…${apiKey.slice(-4)}-${(hash >>> 0).toString(36)}`;
+};
+
+export const estimateCost = (model: string, promptTokens: number, outputTokens: number): number => {
+  const price = MODEL_PRICES[model];
+  return price ? (promptTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+};
+
+export const todayKey = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getUsageLog = (): UsageDayEntry[] => {
+  try {
+    const all: UsageDayEntry[] = JSON.parse(localStorage.getItem(USAGE_STORAGE) || '[]');
+    const cutoff = todayKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    return all.filter(e => e.date >= cutoff);
+  } catch {
+    return [];
+  }
+};
+
+export const clearUsageLog = (): void => {
+  localStorage.removeItem(USAGE_STORAGE);
+};
+
+const recordUsage = (event: UsageEvent): void => {
+  const log = getUsageLog();
+  const date = todayKey();
+  let entry = log.find(e => e.date === date && e.keyId === event.keyId && e.model === event.model && e.feature === event.feature);
+  if (!entry) {
+    entry = { date, keyId: event.keyId, model: event.model, feature: event.feature, requests: 0, promptTokens: 0, outputTokens: 0, costUsd: 0 };
+    log.push(entry);
+  }
+  entry.requests += 1;
+  entry.promptTokens += event.promptTokens;
+  entry.outputTokens += event.outputTokens;
+  entry.costUsd += event.costUsd;
+  try {
+    localStorage.setItem(USAGE_STORAGE, JSON.stringify(log));
+  } catch (error) {
+    console.warn('Không lưu được thống kê sử dụng AI:', error);
+  }
+};
+
+// Count the tokens of every call made through this provider; request.onUsage also gets them (per-lesson cost)
+export const withUsageTracking = (provider: AIProvider, keyId: string): AIProvider => ({
+  id: provider.id,
+  generateContent: async (request) => {
+    const response = await provider.generateContent(request);
+    const promptTokens = response.usageMetadata?.promptTokenCount || 0;
+    const outputTokens = response.usageMetadata?.candidatesTokenCount
+      ?? Math.max(0, (response.usageMetadata?.totalTokenCount || 0) - promptTokens);
+    const event: UsageEvent = {
+      keyId,
+      model: request.model,
+      feature: request.feature || 'other',
+      promptTokens,
+      outputTokens,
+      costUsd: provider.id === 'gemini' ? estimateCost(request.model, promptTokens, outputTokens) : 0,
+    };
+    recordUsage(event);
+    request.onUsage?.(event);
+    return response;
+  },
+});
+
+// ===== SUMMARIES =====
+
+export const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, outputTokens: 0, costUsd: 0 });
+
+export const addToTotals = (totals: UsageTotals, add: UsageTotals | UsageEvent): UsageTotals => ({
+  requests: totals.requests + ('requests' in add ? add.requests : 1),
+  promptTokens: totals.promptTokens + add.promptTokens,
+  outputTokens: totals.outputTokens + add.outputTokens,
+  costUsd: totals.costUsd + add.costUsd,
+});
+
+// Per-lesson accumulator: pass `collector.add` as onUsage to the calls that build a lesson
+export const createLessonUsageCollector = (start?: LessonUsage) => {
+  let usage: LessonUsage = start ? { ...start, byFeature: { ...start.byFeature } } : { ...emptyTotals(), byFeature: {} };
+  return {
+    add: (event: UsageEvent) => {
+      const feature = event.feature === 'other' ? null : event.feature;
+      usage = {
+        ...addToTotals(usage, event),
+        byFeature: feature
+          ? { ...usage.byFeature, [feature]: addToTotals(usage.byFeature[feature] || emptyTotals(), event) }
+          : usage.byFeature,
+      };
+    },
+    get: (): LessonUsage | undefined => (usage.requests ? usage : start),
+  };
+};
+
+// Group the log by any field, e.g. groupUsage(log, e => e.model)
+export const groupUsage = (log: UsageDayEntry[], keyOf: (entry: UsageDayEntry) => string): Record<string, UsageTotals> =>
+  log.reduce<Record<string, UsageTotals>>((groups, entry) => {
+    const key = keyOf(entry);
+    groups[key] = addToTotals(groups[key] || emptyTotals(), entry);
+    return groups;
+  }, {});
+
+// Requests left today per model for one key, for models with a known free-tier limit
+export const getRemainingQuota = (keyId: string): Array<{ model: string; used: number; limit: number }> => {
+  const today = todayKey();
+  const used = groupUsage(getUsageLog().filter(e => e.date === today && e.keyId === keyId), e => e.model);
+  return Object.entries(FREE_TIER_DAILY_REQUESTS).map(([model, limit]) => ({ model, used: used[model]?.requests || 0, limit }));
+};
+
+export const formatUsd = (usd: number): string => (usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`);
@@ -1,6 +1,8 @@
 
 export type QuizDifficulty = 'Easy' | 'Medium' | 'Hard';
 
+export type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2';
+
 export interface VocabularyItem {
   word: string;
   emoji: string;
@@ -23,6 +25,7 @@ export interface ListeningQ {
   options: string[];
   correctAnswer: number;
   explanation: string;
+  cue?: MediaCue;         // where audioText is heard in the teacher's video/song (subtitle lessons)
 }
 
 export interface MultipleChoiceQ {
@@ -53,13 +56,16 @@ export interface FillInputQ {
   alternativeAnswers?: string[];  // Alternative correct answers (e.g., ["though"] when correctAnswer is "although")
   clueEmoji: string;
   explanation?: string;
+  cue?: MediaCue;                 // line of the song/video the sentence comes from (subtitle lessons)
 }
 
 export interface ErrorIdQ {
   id: string;
-  sentence: string;
-  options: string[];
+  sentence: string;                 // parts marked "(A) ... (B) ... (C) ... (D) ..."
+  options: string[];                // "(A) have", "(B) a", ...
   correctOptionIndex: number;
+  correction: string;               // the wrong part rewritten, e.g. "has" ('' in lessons made before it was asked for)
+  alternativeCorrections?: string[];
   explanation: string;
 }
 
@@ -103,7 +109,7 @@ export interface PracticeContent {
     multipleChoice: MultipleChoiceQ[];
     scramble: ScrambleQ[];
     fillBlank: FillInputQ[];
-    errorId: ErrorIdQ[];             // deprecated, kept for backward compat
+    errorId: ErrorIdQ[];
     vocabTranslation: VocabTranslationQ[]; // NEW: 10 vocab questions
     trueFalse: TrueFalseQ[];               // NEW: 10 true/false questions
     trueFalsePassage?: string;             // Fixed reading passage for True/False questions
@@ -119,6 +125,120 @@ export interface LessonPlan {
   homework: HomeworkTask;
   practice: PracticeContent;
   teacherTips: string;
+  level?: CEFRLevel;      // chosen by the teacher, or detected from the source when left on "auto"
+  grade?: number;         // school grade (Lớp 3-9) when the teacher picked one
+  blueprint?: TestBlueprint; // exercise mix the lesson was generated with
+  promptVersions?: Partial<Record<PromptTemplateId, string>>; // prompt templates used, e.g. "lessonExercises@v1+custom.k3x9a"
+  usage?: LessonUsage;    // tokens and estimated cost of every AI call that built the lesson
+  media?: LessonMediaSource; // subtitle/lyric file the lesson was built from
+}
+
+// ─── Timed media (subtitles / lyrics) ───────────────────────
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc';
+
+export interface MediaCue {
+  start: number;          // seconds from the start of the video/song
+  end?: number;           // undefined = play on until paused
+}
+
+export interface TimedLine extends MediaCue {
+  text: string;
+}
+
+// The media file itself stays on the teacher's computer; only its timed lines are kept
+export interface LessonMediaSource {
+  fileName: string;
+  format: SubtitleFormat;
+  lines: TimedLine[];
+}
+
+// Named prompt templates (services/promptTemplates.ts)
+export type PromptTemplateId =
+  | 'lessonExtract'
+  | 'lessonExercises'
+  | 'lessonReading'
+  | 'answerRepair'
+  | 'sectionRegenerate'
+  | 'jsonRepair'
+  | 'story'
+  | 'mindMap'
+  | 'mindMapPrompt'
+  | 'speechEvaluation'
+  | 'storyImage'
+  | 'writingCorrection'
+  | 'presentation';
+
+// How many items of each exercise type a generated lesson gets (0 = type left out)
+export type BlueprintItemId =
+  | 'multipleChoice'
+  | 'scramble'
+  | 'fillBlank'
+  | 'errorId'
+  | 'vocabTranslation'
+  | 'matching'
+  | 'trueFalse'
+  | 'listening';
+
+export type TestBlueprint = Record<BlueprintItemId, number>;
+
+// Parts of a lesson that can be regenerated on their own
+export type LessonSectionId =
+  | 'vocabulary'
+  | 'grammar'
+  | 'reading'
+  | 'listening'
+  | 'multipleChoice'
+  | 'scramble'
+  | 'fillBlank'
+  | 'errorId'
+  | 'vocabTranslation'
+  | 'trueFalse'        // trueFalsePassage + trueFalse questions travel together
+  | 'matching';
+
+// ─── AI usage ───────────────────────────────────────────────
+// What an AI call was made for; the prompt template ids plus text-to-speech
+export type AIFeature = Exclude<PromptTemplateId, 'jsonRepair'> | 'tts';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;        // estimate from the public price list
+}
+
+export interface LessonUsage extends UsageTotals {
+  byFeature: Partial<Record<AIFeature, UsageTotals>>;
+}
+
+// ─── Lesson generation pipeline ─────────────────────────────
+// Step 1 extract → Step 2 exercises → Step 3 reading/listening → answer-key check
+export type GenerationStageId = 'extract' | 'exercises' | 'reading' | 'verify';
+export type GenerationStageStatus = 'pending' | 'running' | 'done' | 'error' | 'skipped';
+
+export interface GenerationStageState {
+  status: GenerationStageStatus;
+  model?: string;         // model that served (or is serving) the step
+  servedBy?: string;      // name of the API key that answered the step
+  error?: string;
+}
+
+export interface GenerationStageResults {
+  extract?: Pick<LessonPlan, 'topic' | 'vocabulary' | 'grammar' | 'teacherTips' | 'level'>;
+  exercises?: Pick<PracticeContent['megaTest'], 'multipleChoice' | 'scramble' | 'fillBlank' | 'errorId' | 'vocabTranslation' | 'matching'>;
+  reading?: {
+    reading: ReadingAdventure;
+    trueFalsePassage: string;
+    trueFalse: TrueFalseQ[];
+    listening: ListeningQ[];
+  };
+}
+
+export interface GenerationProgress {
+  stages: Record<GenerationStageId, GenerationStageState>;
+  results: GenerationStageResults; // completed steps are kept so a retry resumes from the failed one
+  usage?: LessonUsage;             // tokens spent so far, carried over by a retry
+  inputKey?: string;               // fingerprint of the run's inputs; a retry with edited inputs starts over
 }
 
 export enum AppMode {
@@ -197,6 +317,12 @@ export interface CharacterProfile {
 
 export type ImageRatio = '1:1' | '16:9' | '9:16';
 
+// An uploaded page, already preprocessed (utils/imagePreprocess.ts) and base64-encoded
+export interface UploadedImage {
+  data: string;       // base64 without the data: prefix
+  mimeType: string;   // real type of `data`, not the original file's
+}
+
 export interface AppState {
   selectedCharacter: CharacterProfile;
   selectedMode: AppMode;
@@ -212,6 +338,17 @@ export interface AppState {
 }
 
 // ─── Learning History ───────────────────────────────────────
+// One try at one MegaChallenge question, in the order they happened
+export interface QuestionAttempt {
+  questionId: string;
+  zone: string;            // MegaZoneId of utils/megaZones
+  givenAnswer: string;     // as the review shows it; '' when left blank
+  correctAnswer: string;
+  isCorrect: boolean;
+  timeMs: number;          // spent on the question since the previous answer
+  attempt: number;         // 1 = first try; wrong matches and retry rounds add more
+}
+
 export interface LessonRecord {
   id: string;
   date: string;           // ISO string
@@ -226,7 +363,17 @@ export interface LessonRecord {
     vocab: number;
     tf: number;
     listen: number;
+    match?: number;        // records saved before the matching zone was scored have none
+    error?: number;        // same for error identification
+  };
+  // After "practice my mistakes" rounds; score/totalCorrect above stay the first-try result
+  mastery?: {
+    totalCorrect: number;  // first-try correct + wrong items later answered right
+    score: number;         // 0-10, same scale as score
+    rounds: number;
   };
+  libraryId?: string;      // library entry of the lesson, to replay the attempts against it
+  attempts?: QuestionAttempt[];
   studentName: string;
 }
 
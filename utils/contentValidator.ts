@@ -4,6 +4,9 @@
  */
 
 import { joinTokensWithSpacing, compareTokenArrays } from './shuffleUtils';
+import { CEFRLevel, LessonPlan } from '../types';
+import { LEVEL_LIMITS } from './lessonLevels';
+import { isSameAsWrongPart, parseErrorSentence } from './errorIdentification';
 
 export interface ValidationError {
     field: string;
@@ -14,7 +17,7 @@ export interface ValidationError {
 export interface ArrangeWordsQuestion {
     id: string;
     type: 'arrange_words';
-    level?: 'A1' | 'A2' | 'B1';
+    level?: CEFRLevel;
     display_tokens: string[];
     correct_tokens: string[];
     word_bank_tokens: string[];
@@ -26,7 +29,7 @@ export interface ArrangeWordsQuestion {
 export interface FillBlanksQuestion {
     id: string;
     type: 'fill_blanks';
-    level?: 'A1' | 'A2' | 'B1';
+    level?: CEFRLevel;
     sentence_template: string; // e.g., "She ___ to school."
     blanks: number[]; // Indices of blanks
     display_tokens: string[];
@@ -137,8 +140,49 @@ const validateGrammarBasics = (sentence: string): ValidationError[] => {
     return errors;
 };
 
+// Field used for "above the chosen level" problems: the item stays usable, and they alone never start a repair round
+export const LEVEL_FIELD = 'level';
+
+// Lesson vocabulary is always allowed, including simple inflections (study → studying)
+const isLessonWord = (word: string, lessonWords?: Set<string>): boolean => {
+    if (!lessonWords) return false;
+    if (lessonWords.has(word)) return true;
+    for (const w of lessonWords) {
+        if (w.length >= 4 && word.startsWith(w)) return true;
+    }
+    return false;
+};
+
+// Keep sentences within the sentence-length and word-length limits of the level
+export const validateLevelBounds = (sentence: string, level?: CEFRLevel, lessonWords?: Set<string>): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    const limits = level && LEVEL_LIMITS[level];
+    if (!limits || !sentence) return errors;
+
+    const words = sentence.split(/\s+/).map(w => w.replace(/^[^A-Za-z']+|[^A-Za-z']+$/g, '')).filter(Boolean);
+    if (words.length > limits.maxSentenceWords) {
+        errors.push({
+            field: LEVEL_FIELD,
+            message: `Sentence has ${words.length} words, ${level} allows at most ${limits.maxSentenceWords}`,
+            severity: 'error'
+        });
+    }
+
+    // Capitalised words are names or the sentence start; neither says much about difficulty
+    const hardWords = words.filter(w => /^[a-z]/.test(w) && w.length > limits.maxWordLength && !isLessonWord(w.toLowerCase(), lessonWords));
+    if (hardWords.length > 0) {
+        errors.push({
+            field: LEVEL_FIELD,
+            message: `Words above ${level}: ${[...new Set(hardWords)].join(', ')}`,
+            severity: 'error'
+        });
+    }
+
+    return errors;
+};
+
 // Validate arrange_words question
-export const validateArrangeWordsQuestion = (q: ArrangeWordsQuestion): ValidationError[] => {
+export const validateArrangeWordsQuestion = (q: ArrangeWordsQuestion, lessonWords?: Set<string>): ValidationError[] => {
     const errors: ValidationError[] = [];
 
     // Required fields
@@ -167,11 +211,14 @@ export const validateArrangeWordsQuestion = (q: ArrangeWordsQuestion): Validatio
         });
     }
 
+    // Level bounds
+    errors.push(...validateLevelBounds(q.correct_answer_string, q.level, lessonWords));
+
     return errors;
 };
 
 // Validate fill_blanks question
-export const validateFillBlanksQuestion = (q: FillBlanksQuestion): ValidationError[] => {
+export const validateFillBlanksQuestion = (q: FillBlanksQuestion, lessonWords?: Set<string>): ValidationError[] => {
     const errors: ValidationError[] = [];
 
     // Required fields
@@ -198,6 +245,7 @@ export const validateFillBlanksQuestion = (q: FillBlanksQuestion): ValidationErr
     // Grammar basics on full answer
     if (q.correct_answer_string) {
         errors.push(...validateGrammarBasics(q.correct_answer_string));
+        errors.push(...validateLevelBounds(q.correct_answer_string, q.level, lessonWords));
     }
 
     return errors;
@@ -225,13 +273,14 @@ export const convertLegacyScramble = (legacy: {
     scrambled: string[];
     correctSentence: string;
     translation?: string;
-}): ArrangeWordsQuestion => {
+}, level?: CEFRLevel): ArrangeWordsQuestion => {
     // Parse correct sentence into tokens
     const correctTokens = parseIntoTokens(legacy.correctSentence);
 
     return {
         id: legacy.id,
         type: 'arrange_words',
+        level,
         display_tokens: correctTokens,
         correct_tokens: correctTokens,
         word_bank_tokens: legacy.scrambled,
@@ -278,23 +327,254 @@ export const convertLegacyFillBlank = (legacy: {
     correctAnswer: string;
     clueEmoji?: string;
     explanation?: string;
-}): FillBlanksQuestion => {
+}, level?: CEFRLevel): FillBlanksQuestion => {
     // Parse correct answers (may be comma-separated)
     const answers = legacy.correctAnswer.split(',').map(s => s.trim());
+    // Models write blanks as "____" or "______"; treat any run of underscores as one blank
+    const template = legacy.question.replace(/_{3,}/g, '___');
 
     // Generate word bank with correct answers + distractors
     const wordBank = [...answers];
+    // Separate copy consumed while filling the blanks (correct_tokens must stay intact)
+    const fillQueue = [...answers];
 
     return {
         id: legacy.id,
         type: 'fill_blanks',
-        sentence_template: legacy.question,
+        level,
+        sentence_template: template,
         blanks: [],
         display_tokens: [],
         correct_tokens: answers,
         word_bank_tokens: wordBank,
-        correct_answer_string: legacy.question.replace(/___/g, () => answers.shift() || '___'),
+        correct_answer_string: template.replace(/___/g, () => fillQueue.shift() || '___'),
         explanation_vi: legacy.explanation,
         clueEmoji: legacy.clueEmoji
     };
 };
+
+// ─── Lesson-level answer key verification ───────────────────
+
+export type LessonItemSection = 'multipleChoice' | 'scramble' | 'fillBlank' | 'errorId' | 'vocabTranslation' | 'trueFalse' | 'listening' | 'matching' | 'comprehension';
+
+export interface LessonItemIssue {
+    section: LessonItemSection;
+    id: string;
+    index: number;
+    errors: ValidationError[];
+}
+
+// Field used for T/F balance problems: they are worth a repair attempt but never make an item unusable
+export const BALANCE_FIELD = 'balance';
+const SOFT_FIELDS = [BALANCE_FIELD, LEVEL_FIELD];
+
+// Only difficulty problems: reported as warnings instead of paying for a repair call
+export const isLevelOnlyIssue = (issue: LessonItemIssue): boolean =>
+    issue.errors.every(e => e.severity !== 'error' || e.field === LEVEL_FIELD);
+
+const normalizeOption = (s: string) => String(s || '').toLowerCase().replace(/[.,!?;:'"]/g, '').replace(/\s+/g, ' ').trim();
+
+// Shared checks for single-answer option questions (MC, listening, vocab translation, error identification)
+const validateOptionQuestion = (options: string[], correctAnswer: number): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    const opts = options || [];
+
+    if (opts.length < 2) {
+        errors.push({ field: 'options', message: `Only ${opts.length} option(s), need 4`, severity: 'error' });
+        return errors;
+    }
+    if (opts.length !== 4) {
+        errors.push({ field: 'options', message: `Expected 4 options, got ${opts.length}`, severity: 'warning' });
+    }
+    if (!Number.isInteger(correctAnswer) || correctAnswer < 0 || correctAnswer >= opts.length) {
+        errors.push({ field: 'correctAnswer', message: `correctAnswer ${correctAnswer} is outside 0-${opts.length - 1}`, severity: 'error' });
+    }
+    if (opts.some(o => !normalizeOption(o))) {
+        errors.push({ field: 'options', message: 'Empty option', severity: 'error' });
+    }
+    const seen = new Set<string>();
+    opts.forEach(o => {
+        const key = normalizeOption(o);
+        if (key && seen.has(key)) {
+            errors.push({ field: 'options', message: `Duplicate option "${o}"`, severity: 'error' });
+        }
+        seen.add(key);
+    });
+
+    return errors;
+};
+
+// Run every practice item through the validators. Only items with problems are returned.
+export const validateLessonPlan = (lesson: LessonPlan): LessonItemIssue[] => {
+    const issues: LessonItemIssue[] = [];
+    const mega = lesson.practice?.megaTest;
+    const push = (section: LessonItemSection, id: string, index: number, errors: ValidationError[]) => {
+        if (errors.length > 0) issues.push({ section, id: id || `${section}_${index + 1}`, index, errors });
+    };
+    const { level } = lesson;
+    const lessonWords = new Set((lesson.vocabulary || []).flatMap(v => String(v.word || '').toLowerCase().split(/\s+/)).filter(Boolean));
+
+    (mega?.multipleChoice || []).forEach((q, i) => {
+        const errors = validateOptionQuestion(q.options, q.correctAnswer);
+        if (!q.question?.trim()) errors.push({ field: 'question', message: 'Missing question', severity: 'error' });
+        errors.push(...validateLevelBounds(q.question, level, lessonWords));
+        push('multipleChoice', q.id, i, errors);
+    });
+
+    (lesson.practice?.listening || []).forEach((q, i) => {
+        const errors = validateOptionQuestion(q.options, q.correctAnswer);
+        errors.push(...validateLevelBounds(q.audioText, level, lessonWords));
+        const correct = q.options?.[q.correctAnswer];
+        if (correct !== undefined && normalizeOption(correct) !== normalizeOption(q.audioText)) {
+            errors.push({ field: 'correctAnswer', message: `Correct option "${correct}" differs from audioText "${q.audioText}"`, severity: 'error' });
+        }
+        push('listening', q.id, i, errors);
+    });
+
+    const vocabWords = new Map((lesson.vocabulary || []).map(v => [normalizeOption(v.word), v]));
+    (mega?.vocabTranslation || []).forEach((q, i) => {
+        const errors = validateOptionQuestion(q.options, q.correctAnswer);
+        const vocab = vocabWords.get(normalizeOption(q.word));
+        if (!vocab) {
+            errors.push({ field: 'word', message: `"${q.word}" is not in the lesson vocabulary`, severity: 'error' });
+        } else {
+            const correct = q.options?.[q.correctAnswer];
+            if (correct !== undefined && normalizeOption(correct) !== normalizeOption(vocab.meaning)) {
+                errors.push({ field: 'correctAnswer', message: `Correct option "${correct}" differs from vocabulary meaning "${vocab.meaning}"`, severity: 'warning' });
+            }
+        }
+        push('vocabTranslation', q.id, i, errors);
+    });
+
+    (mega?.scramble || []).forEach((q, i) => {
+        if (!q.correctSentence?.trim()) {
+            push('scramble', q.id, i, [{ field: 'correctSentence', message: 'Missing correctSentence', severity: 'error' }]);
+            return;
+        }
+        push('scramble', q.id, i, validateArrangeWordsQuestion(convertLegacyScramble({ ...q, scrambled: q.scrambled || [] }, level), lessonWords));
+    });
+
+    (mega?.fillBlank || []).forEach((q, i) => {
+        if (!q.question?.trim() || !String(q.correctAnswer ?? '').trim()) {
+            push('fillBlank', q.id, i, [{ field: 'correctAnswer', message: 'Missing question or correctAnswer', severity: 'error' }]);
+            return;
+        }
+        const errors = validateFillBlanksQuestion(convertLegacyFillBlank({ ...q, correctAnswer: String(q.correctAnswer) }, level), lessonWords);
+        if (/\s/.test(String(q.correctAnswer).trim())) {
+            errors.push({ field: 'correctAnswer', message: `Answer "${q.correctAnswer}" must be exactly 1 word`, severity: 'error' });
+        }
+        const blankCount = (q.question.match(/_{3,}/g) || []).length;
+        if (blankCount !== 1) {
+            errors.push({ field: 'question', message: `Question must have exactly 1 blank, found ${blankCount}`, severity: 'error' });
+        }
+        push('fillBlank', q.id, i, errors);
+    });
+
+    (mega?.errorId || []).forEach((q, i) => {
+        const errors = validateOptionQuestion(q.options, q.correctOptionIndex);
+        const parts = parseErrorSentence(q.sentence);
+        const marked = new Set(parts.map(p => p.optionIndex).filter(index => index !== undefined));
+        const missing = (q.options || []).map((_, k) => k).filter(k => !marked.has(k));
+        if (missing.length) {
+            errors.push({ field: 'sentence', message: `Sentence has no marker for ${missing.map(k => `(${String.fromCharCode(65 + k)})`).join(', ')}`, severity: 'error' });
+        }
+        if (!String(q.correction || '').trim()) {
+            errors.push({ field: 'correction', message: 'Missing correction', severity: 'error' });
+        } else if (isSameAsWrongPart(q)) {
+            errors.push({ field: 'correction', message: `Correction "${q.correction}" is the same as the wrong part`, severity: 'error' });
+        }
+        errors.push(...validateLevelBounds(parts.map(p => p.text).join(' '), level, lessonWords));
+        push('errorId', q.id, i, errors);
+    });
+
+    const trueFalse = mega?.trueFalse || [];
+    const tfErrors: ValidationError[][] = trueFalse.map(q => {
+        const errors: ValidationError[] = [];
+        if (!q.statement?.trim()) errors.push({ field: 'statement', message: 'Missing statement', severity: 'error' });
+        if (typeof q.isTrue !== 'boolean') errors.push({ field: 'isTrue', message: 'isTrue must be true or false', severity: 'error' });
+        errors.push(...validateLevelBounds(q.statement, level, lessonWords));
+        return errors;
+    });
+    // Balance: the minority answer must cover at least 40% (2-3 split for 5 items)
+    if (trueFalse.length >= 2) {
+        const trueIdx = trueFalse.map((q, i) => q.isTrue === true ? i : -1).filter(i => i >= 0);
+        const falseIdx = trueFalse.map((q, i) => q.isTrue === false ? i : -1).filter(i => i >= 0);
+        const minNeeded = Math.floor(trueFalse.length * 0.4);
+        const [majority, minorityLabel] = trueIdx.length > falseIdx.length ? [trueIdx, 'FALSE'] : [falseIdx, 'TRUE'];
+        const missing = minNeeded - Math.min(trueIdx.length, falseIdx.length);
+        if (missing > 0) {
+            majority.slice(-missing).forEach(i => {
+                tfErrors[i].push({ field: BALANCE_FIELD, message: `Unbalanced True/False: rewrite this as a ${minorityLabel} statement`, severity: 'error' });
+            });
+        }
+    }
+    trueFalse.forEach((q, i) => push('trueFalse', q.id, i, tfErrors[i]));
+
+    // Matching: a word or meaning used twice leaves the board with two right cards for one word
+    const seenLeft = new Set<string>();
+    const seenRight = new Set<string>();
+    (mega?.matching || []).forEach((pair, i) => {
+        const errors: ValidationError[] = [];
+        const left = normalizeOption(pair.left);
+        const right = normalizeOption(pair.right);
+        if (!left) errors.push({ field: 'left', message: 'Missing left (English word)', severity: 'error' });
+        else if (seenLeft.has(left)) errors.push({ field: 'left', message: `Duplicate word "${pair.left}"`, severity: 'error' });
+        if (!right) errors.push({ field: 'right', message: 'Missing right (Vietnamese meaning)', severity: 'error' });
+        else if (seenRight.has(right)) errors.push({ field: 'right', message: `Duplicate meaning "${pair.right}"`, severity: 'error' });
+        seenLeft.add(left);
+        seenRight.add(right);
+        push('matching', pair.id, i, errors);
+    });
+
+    (lesson.reading?.comprehension || []).forEach((q, i) => {
+        const errors = validateOptionQuestion(q.options, q.correctAnswer);
+        if (!q.question?.trim()) errors.push({ field: 'question', message: 'Missing question', severity: 'error' });
+        push('comprehension', q.id, i, errors);
+    });
+
+    // Warnings alone are fine; only keep items with at least one error
+    return issues.filter(issue => issue.errors.some(e => e.severity === 'error'));
+};
+
+// Read / replace the item array of one section without mutating the lesson
+export const getSectionItems = (lesson: LessonPlan, section: LessonItemSection): any[] =>
+    (section === 'listening' ? lesson.practice?.listening
+        : section === 'comprehension' ? lesson.reading?.comprehension
+            : lesson.practice?.megaTest?.[section]) || [];
+
+export const replaceSectionItems = (lesson: LessonPlan, section: LessonItemSection, items: any[]): LessonPlan => {
+    if (section === 'comprehension') {
+        return { ...lesson, reading: { ...lesson.reading, comprehension: items } };
+    }
+    if (section === 'listening') {
+        return { ...lesson, practice: { ...lesson.practice, listening: items } };
+    }
+    return { ...lesson, practice: { ...lesson.practice, megaTest: { ...lesson.practice.megaTest, [section]: items } } };
+};
+
+// Last resort after repair rounds: rebuild scramble word banks from the sentence, keep
+// items whose only problems are T/F balance or level, and drop every other item whose answer key is still wrong.
+export const settleRemainingIssues = (lesson: LessonPlan, issues: LessonItemIssue[]): LessonPlan => {
+    let result = lesson;
+    const sections = [...new Set(issues.map(i => i.section))];
+
+    sections.forEach(section => {
+        const drop = new Set<number>();
+        const items = [...getSectionItems(result, section)];
+
+        issues.filter(i => i.section === section).forEach(issue => {
+            const blocking = issue.errors.filter(e => e.severity === 'error' && !SOFT_FIELDS.includes(e.field));
+            if (blocking.length === 0) return;
+
+            if (section === 'scramble' && blocking.every(e => e.field === 'word_bank_tokens')) {
+                items[issue.index] = { ...items[issue.index], scrambled: parseIntoTokens(items[issue.index].correctSentence) };
+                return;
+            }
+            drop.add(issue.index);
+        });
+
+        result = replaceSectionItems(result, section, items.filter((_, i) => !drop.has(i)));
+    });
+
+    return result;
+};
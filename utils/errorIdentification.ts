@@ -0,0 +1,56 @@
+/**
+ * Error identification - reads the "(A) ... (B) ... (C) ... (D) ..." markers of an errorId
+ * sentence and checks the correction a student types for the wrong part
+ */
+
+import { ErrorIdQ } from '../types';
+
+export interface ErrorSentencePart {
+    text: string;
+    optionIndex?: number;   // 0 for "(A)"...; undefined for the text before the first marker
+}
+
+const MARKER = /\(([A-D])\)/g;
+
+// "She (A) have (B) a ..." → [{ text: 'She' }, { text: 'have', optionIndex: 0 }, { text: 'a', optionIndex: 1 }, ...]
+export const parseErrorSentence = (sentence: string): ErrorSentencePart[] => {
+    const parts: ErrorSentencePart[] = [];
+    const text = String(sentence || '');
+    let lastEnd = 0;
+    let lastIndex: number | undefined;
+    const pushPart = (end: number) => {
+        const piece = text.slice(lastEnd, end).trim();
+        if (piece || lastIndex !== undefined) parts.push({ text: piece, optionIndex: lastIndex });
+    };
+    for (const match of text.matchAll(MARKER)) {
+        pushPart(match.index);
+        lastEnd = match.index + match[0].length;
+        lastIndex = match[1].charCodeAt(0) - 65;
+    }
+    pushPart(text.length);
+    return parts;
+};
+
+// "(A) have" → "have"
+export const stripOptionMarker = (option: string): string => String(option || '').replace(/^\s*\(?[A-D][).]\s*/, '').trim();
+
+const normalizeCorrection = (s: string) => String(s || '').toLowerCase().replace(/[.,!?;:"]/g, '').replace(/\s+/g, ' ').trim();
+
+export const isCorrectionAccepted = (question: ErrorIdQ, typed: string): boolean => {
+    const answer = normalizeCorrection(typed);
+    return !!answer && [question.correction, ...(question.alternativeCorrections || [])]
+        .some(correction => normalizeCorrection(correction) === answer);
+};
+
+// Same comparison as the grading: a correction equal to the wrong part would mark every copy as right
+export const isSameAsWrongPart = (question: ErrorIdQ): boolean =>
+    normalizeCorrection(question.correction) === normalizeCorrection(stripOptionMarker(question.options?.[question.correctOptionIndex]));
+
+// The stored answer of an errorId question; lessons without a correction grade the pick alone.
+// The correction is kept as typed: an exam grades every keystroke, and trimming there would eat the
+// space between the words of "has been" (isCorrectionAccepted ignores the outer spaces anyway).
+export const gradeErrorIdAnswer = (question: ErrorIdQ, optionIndex: number | undefined, correction: string) => {
+    const pickCorrect = optionIndex === question.correctOptionIndex;
+    const correctionCorrect = !String(question.correction || '').trim() || isCorrectionAccepted(question, correction);
+    return { optionIndex, correction, pickCorrect, correctionCorrect, isCorrect: pickCorrect && correctionCorrect };
+};
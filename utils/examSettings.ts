@@ -0,0 +1,40 @@
+/**
+ * Exam mode settings - the time limit the teacher sets for a MegaChallenge test,
+ * for the whole test or for each zone, kept in localStorage like the test blueprint
+ */
+
+export type ExamTiming = 'total' | 'perZone';
+
+export interface ExamSettings {
+    timing: ExamTiming;
+    minutes: number;     // for the whole test, or for every zone
+}
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = { timing: 'total', minutes: 30 };
+
+export const MIN_EXAM_MINUTES = 1;
+export const MAX_EXAM_MINUTES = 180;
+
+export const clampExamMinutes = (value: number): number =>
+    Math.max(MIN_EXAM_MINUTES, Math.min(MAX_EXAM_MINUTES, Math.round(Number(value) || 0)));
+
+const EXAM_SETTINGS_STORAGE = 'mrs_dung_exam_settings';
+
+export const getSavedExamSettings = (): ExamSettings => {
+    try {
+        const raw = localStorage.getItem(EXAM_SETTINGS_STORAGE);
+        return raw ? { ...DEFAULT_EXAM_SETTINGS, ...JSON.parse(raw) } : DEFAULT_EXAM_SETTINGS;
+    } catch {
+        return DEFAULT_EXAM_SETTINGS;
+    }
+};
+
+export const saveExamSettings = (settings: ExamSettings): void => {
+    localStorage.setItem(EXAM_SETTINGS_STORAGE, JSON.stringify(settings));
+};
+
+// 125 → "02:05"
+export const formatCountdown = (seconds: number): string => {
+    const safe = Math.max(0, Math.floor(seconds));
+    return `${String(Math.floor(safe / 60)).padStart(2, '0')}:${String(safe % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,143 @@
+/**
+ * Client-side preprocessing for uploaded textbook pages
+ * Phone photos are 5-10 MB and often HEIC; the model reads a page just as well at ~2000px,
+ * so images are decoded, turned upright (EXIF), downscaled and re-encoded before upload.
+ */
+
+import { UploadedImage } from '../types';
+
+export interface ImagePreprocessOptions {
+    maxDimension: number;     // longest side in px after downscaling
+    grayscale: boolean;       // for faded photocopies
+    boostContrast: boolean;
+}
+
+export interface PreparedImage extends UploadedImage {
+    name: string;
+    originalType: string;     // detected from the file bytes, not the extension
+    originalSize: number;     // bytes
+    processedSize: number;    // bytes of the data actually sent
+    width: number;
+    height: number;
+    previewUrl: string;       // data URL of the processed image
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePreprocessOptions = {
+    maxDimension: 2000,
+    grayscale: false,
+    boostContrast: false,
+};
+
+const JPEG_QUALITY = 0.85;
+const CONTRAST_FACTOR = 1.5;
+
+// Magic bytes → MIME type. Browsers report '' or 'application/octet-stream' for HEIC,
+// and a renamed file keeps its wrong extension.
+export const sniffImageType = async (file: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    if (ascii(0, 3) === 'GIF') return 'image/gif';
+    if (ascii(0, 2) === 'BM') return 'image/bmp';
+    if (ascii(4, 8) === 'ftyp') {
+        const brand = ascii(8, 12);
+        if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) return 'image/heic';
+        if (['mif1', 'msf1', 'heif'].includes(brand)) return 'image/heif';
+        if (brand === 'avif') return 'image/avif';
+    }
+    return file.type || 'application/octet-stream';
+};
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Only Safari decodes HEIC natively; elsewhere libheif (WASM) does it. Loaded on demand,
+// the decoder is large and most uploads are JPEG/PNG.
+const decodeHeic = async (file: Blob): Promise<ImageBitmap> => {
+    const { heicTo } = await import('heic-to');
+    return heicTo({ blob: file, type: 'bitmap', options: { imageOrientation: 'from-image' } });
+};
+
+// 'from-image' applies the EXIF orientation, so a sideways phone photo comes out upright
+const decodeImage = async (file: Blob, type: string): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (err) {
+        if (type === 'image/heic' || type === 'image/heif') return decodeHeic(file);
+        throw err;
+    }
+};
+
+// Luminance grayscale and/or a linear contrast stretch around mid-gray
+const applyFilters = (ctx: CanvasRenderingContext2D, width: number, height: number, options: ImagePreprocessOptions) => {
+    const image = ctx.getImageData(0, 0, width, height);
+    const px = image.data;
+    for (let i = 0; i < px.length; i += 4) {
+        let r = px[i], g = px[i + 1], b = px[i + 2];
+        if (options.grayscale) r = g = b = 0.299 * r + 0.587 * g + 0.114 * b;
+        if (options.boostContrast) {
+            r = (r - 128) * CONTRAST_FACTOR + 128;
+            g = (g - 128) * CONTRAST_FACTOR + 128;
+            b = (b - 128) * CONTRAST_FACTOR + 128;
+        }
+        px[i] = r; px[i + 1] = g; px[i + 2] = b;   // Uint8ClampedArray clamps to 0..255
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+const processImage = async (file: File, options: ImagePreprocessOptions): Promise<PreparedImage> => {
+    const originalType = await sniffImageType(file);
+    const base = { name: file.name, originalType, originalSize: file.size };
+
+    // Every image goes through the canvas: the OpenAI-compatible providers only take JPEG/PNG/WebP
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await decodeImage(file, originalType);
+    } catch {
+        throw new Error(`Không đọc được ảnh "${file.name}" (${originalType}). Cô hãy chụp lại hoặc lưu ảnh dưới dạng JPG/PNG nhé!`);
+    }
+
+    const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';          // transparent PNG areas become white paper, not black
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    if (options.grayscale || options.boostContrast) applyFilters(ctx, width, height, options);
+
+    const blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => (b ? resolve(b) : reject(new Error(`Không nén được ảnh "${file.name}"`))), 'image/jpeg', JPEG_QUALITY));
+
+    // Always re-encoded, even a small JPEG: its raw bytes may still carry a sideways EXIF orientation
+    const dataUrl = await blobToDataUrl(blob);
+    return { ...base, data: dataUrl.split(',')[1], mimeType: 'image/jpeg', processedSize: blob.size, width, height, previewUrl: dataUrl };
+};
+
+// The preview list and the generate button ask for the same file/options; do the work once
+const cache = new WeakMap<File, Map<string, Promise<PreparedImage>>>();
+
+export const preprocessImage = (file: File, options: ImagePreprocessOptions = DEFAULT_IMAGE_OPTIONS): Promise<PreparedImage> => {
+    const key = JSON.stringify(options);
+    if (!cache.has(file)) cache.set(file, new Map());
+    const byOptions = cache.get(file);
+    if (!byOptions.has(key)) {
+        const pending = processImage(file, options);
+        pending.catch(() => byOptions.delete(key));   // let a retry try again
+        byOptions.set(key, pending);
+    }
+    return byOptions.get(key);
+};
@@ -0,0 +1,41 @@
+/**
+ * Lesson levels - school grades and CEFR levels the teacher can target, with the
+ * limits used by the prompt and by the content validator
+ */
+
+import { CEFRLevel } from '../types';
+
+export interface LevelLimits {
+    maxSentenceWords: number;   // longest sentence allowed in exercises
+    maxWordLength: number;      // longer words are "above level" unless they are lesson vocabulary
+    description: string;        // how the level reads, for the prompt
+}
+
+export const CEFR_LEVELS: CEFRLevel[] = ['A1', 'A2', 'B1', 'B2'];
+
+export const LEVEL_LIMITS: Record<CEFRLevel, LevelLimits> = {
+    A1: { maxSentenceWords: 8, maxWordLength: 9, description: 'Beginner: short Subject + Verb + Object sentences, present simple, everyday words' },
+    A2: { maxSentenceWords: 12, maxWordLength: 11, description: 'Elementary: simple sentences with adverbs/prepositions, common tenses, familiar topics' },
+    B1: { maxSentenceWords: 16, maxWordLength: 13, description: 'Intermediate: compound sentences, simple linking words, several tenses' },
+    B2: { maxSentenceWords: 22, maxWordLength: 16, description: 'Upper-intermediate: complex sentences with clauses, gerunds/infinitives, academic words' },
+};
+
+export interface LessonLevelOption {
+    id: string;
+    label: string;
+    level: CEFRLevel;
+    grade?: number;
+}
+
+// Grades follow the national curriculum targets: primary ends at A1, lower secondary at A2
+export const LEVEL_OPTIONS: LessonLevelOption[] = [
+    ...[3, 4, 5].map(grade => ({ id: `grade-${grade}`, label: `Lớp ${grade} (A1)`, level: 'A1' as CEFRLevel, grade })),
+    ...[6, 7, 8, 9].map(grade => ({ id: `grade-${grade}`, label: `Lớp ${grade} (A2)`, level: 'A2' as CEFRLevel, grade })),
+    ...CEFR_LEVELS.map(level => ({ id: level, label: `CEFR ${level}`, level })),
+];
+
+export const findLevelOption = (id: string): LessonLevelOption | undefined =>
+    LEVEL_OPTIONS.find(o => o.id === id);
+
+export const formatLessonLevel = (level?: CEFRLevel, grade?: number): string =>
+    level ? (grade ? `Lớp ${grade} · ${level}` : level) : '';
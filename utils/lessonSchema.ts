@@ -0,0 +1,405 @@
+/**
+ * Lesson Schema - runtime mirror of the lesson types in types.ts
+ * Coerces AI / imported JSON into the shape the components expect: fixes what can be
+ * fixed safely (stringified numbers, missing ids, surplus options), fills defaults for
+ * optional parts and reports by path whatever still needs a human or a repair prompt
+ */
+
+import { BlueprintItemId, LessonSectionId } from '../types';
+
+export interface SchemaProblem {
+    path: string;      // e.g. "practice.megaTest.multipleChoice[3].options"
+    message: string;
+}
+
+export interface CoerceResult<T> {
+    value: T;
+    fixes: string[];           // what was changed automatically, for the console
+    problems: SchemaProblem[]; // what could not be fixed
+}
+
+export interface CoerceOptions {
+    dropInvalidItems?: boolean; // drop array items that still have problems instead of reporting them
+}
+
+export type FieldSpec =
+    | { type: 'string'; optional?: boolean; fallback?: string }
+    | { type: 'integer'; optional?: boolean }
+    | { type: 'boolean'; optional?: boolean }
+    | { type: 'id'; prefix: string }                       // generated from the item position when missing, kept unique
+    | { type: 'array'; items: FieldSpec; optional?: boolean; fallback?: any[]; split?: RegExp }
+    | {
+        type: 'object';
+        fields: Record<string, FieldSpec>;
+        optional?: boolean;
+        fallback?: () => any;
+        normalize?: (raw: any, fix: (message: string) => void) => any; // runs on the raw object before its fields
+        check?: (value: any) => SchemaProblem[];                        // runs after its fields, paths relative to the object
+    };
+
+interface CoerceContext extends CoerceOptions {
+    fixes: string[];
+    problems: SchemaProblem[];
+    ids: Set<string>;          // MegaChallenge keeps answers by id across all zones, so no two items may share one
+}
+
+const joinPath = (base: string, key: string | number) =>
+    typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const LETTER_INDEX = /^\s*\(?([A-Da-d])\)?\s*$/;
+const INTEGER_TEXT = /^\s*-?\d+\s*$/;
+const TRUE_WORDS = ['true', 't', 'yes', 'đúng', '1'];
+const FALSE_WORDS = ['false', 'f', 'no', 'sai', '0'];
+
+const missing = (value: any) => value === undefined || value === null;
+
+const coerceValue = (raw: any, spec: FieldSpec, path: string, ctx: CoerceContext, index = 0): any => {
+    const fix = (message: string) => ctx.fixes.push(`${path}: ${message}`);
+    const problem = (message: string) => ctx.problems.push({ path, message });
+
+    if (spec.type === 'id') {
+        const given = typeof raw === 'number' ? String(raw) : typeof raw === 'string' ? raw.trim() : '';
+        let id = given || `${spec.prefix}_${index + 1}`;
+        if (!given) fix(`missing id → "${id}"`);
+        // "1" in both the quiz and the fill-in section would share one answer; the prefix keeps sections apart
+        else if (!id.startsWith(`${spec.prefix}_`)) {
+            id = `${spec.prefix}_${id}`;
+            fix(`id "${given}" → "${id}"`);
+        }
+        if (ctx.ids.has(id)) {
+            const taken = id;
+            for (let n = index + 1; ctx.ids.has(id); n++) id = `${spec.prefix}_${n}`;
+            fix(`duplicate id "${taken}" → "${id}"`);
+        }
+        ctx.ids.add(id);
+        return id;
+    }
+
+    if (missing(raw)) {
+        if ('fallback' in spec && spec.fallback !== undefined) {
+            fix('missing → default');
+            return typeof spec.fallback === 'function' ? spec.fallback() : Array.isArray(spec.fallback) ? [...spec.fallback] : spec.fallback;
+        }
+        if (!spec.optional) problem('is required');
+        return undefined;
+    }
+
+    switch (spec.type) {
+        case 'string':
+            if (typeof raw === 'string') return raw;
+            if (typeof raw === 'number' || typeof raw === 'boolean') {
+                fix(`${typeof raw} → string`);
+                return String(raw);
+            }
+            if (Array.isArray(raw) && raw.every(v => typeof v === 'string')) {
+                fix('list of strings joined');
+                return raw.join(' ');
+            }
+            problem(`expected text, got ${Array.isArray(raw) ? 'array' : typeof raw}`);
+            return undefined;
+
+        case 'integer':
+            if (typeof raw === 'number' && Number.isInteger(raw)) return raw;
+            if (typeof raw === 'string' && INTEGER_TEXT.test(raw)) {
+                fix(`"${raw}" → ${Number(raw)}`);
+                return Number(raw);
+            }
+            if (typeof raw === 'string' && LETTER_INDEX.test(raw)) {
+                const value = LETTER_INDEX.exec(raw)[1].toUpperCase().charCodeAt(0) - 65;
+                fix(`"${raw}" → ${value}`);
+                return value;
+            }
+            problem(`expected a whole number, got ${JSON.stringify(raw)}`);
+            return undefined;
+
+        case 'boolean': {
+            if (typeof raw === 'boolean') return raw;
+            const text = String(raw).trim().toLowerCase();
+            if (TRUE_WORDS.includes(text) || FALSE_WORDS.includes(text)) {
+                fix(`${JSON.stringify(raw)} → ${TRUE_WORDS.includes(text)}`);
+                return TRUE_WORDS.includes(text);
+            }
+            problem(`expected true/false, got ${JSON.stringify(raw)}`);
+            return undefined;
+        }
+
+        case 'array': {
+            let list = raw;
+            if (!Array.isArray(list)) {
+                if (typeof list === 'string' && spec.split) {
+                    list = list.split(spec.split).filter(Boolean);
+                    fix('text split into a list');
+                } else {
+                    problem(`expected a list, got ${typeof raw}`);
+                    return spec.fallback ? [...spec.fallback] : [];
+                }
+            }
+            const result: any[] = [];
+            list.forEach((item: any, i: number) => {
+                const before = ctx.problems.length;
+                const value = coerceValue(item, spec.items, joinPath(path, i), ctx, result.length);
+                if (ctx.dropInvalidItems && ctx.problems.length > before) {
+                    const dropped = ctx.problems.splice(before);
+                    ctx.fixes.push(`${joinPath(path, i)}: dropped (${dropped.map(p => p.message).join('; ')})`);
+                    return;
+                }
+                result.push(value);
+            });
+            return result;
+        }
+
+        case 'object': {
+            if (typeof raw !== 'object' || Array.isArray(raw)) {
+                problem(`expected an object, got ${Array.isArray(raw) ? 'array' : typeof raw}`);
+                return spec.fallback ? spec.fallback() : undefined;
+            }
+            const source = spec.normalize ? spec.normalize(raw, fix) : raw;
+            const value: Record<string, any> = { ...source };
+            Object.entries(spec.fields).forEach(([key, fieldSpec]) => {
+                const coerced = coerceValue(source[key], fieldSpec, joinPath(path, key), ctx, index);
+                if (coerced === undefined) delete value[key];
+                else value[key] = coerced;
+            });
+            spec.check?.(value).forEach(p => ctx.problems.push({ path: joinPath(path, p.path), message: p.message }));
+            return value;
+        }
+    }
+};
+
+export const coerceToSchema = <T>(data: any, spec: FieldSpec, options: CoerceOptions = {}): CoerceResult<T> => {
+    const ctx: CoerceContext = { ...options, fixes: [], problems: [], ids: new Set() };
+    const value = coerceValue(data, spec, '', ctx);
+    return { value: value as T, fixes: ctx.fixes, problems: ctx.problems };
+};
+
+export const formatSchemaProblems = (problems: SchemaProblem[], limit = 10): string =>
+    problems.slice(0, limit).map(p => `${p.path || '(root)'} ${p.message}`).join('; ') +
+    (problems.length > limit ? ` (+${problems.length - limit} more)` : '');
+
+// ─── Choice questions: 4 options + 0-based index ────────────
+
+const OPTION_COUNT = 4;
+
+// correctAnswer written as the option text, or more than 4 options: keep the right one and the first distractors
+const normalizeChoice = (answerKey: string) => (raw: any, fix: (message: string) => void) => {
+    const item = { ...raw };
+    if (!Array.isArray(item.options)) return item;
+    const options = item.options.map((o: any) => (typeof o === 'string' ? o : String(o ?? '')));
+    const answer = item[answerKey];
+    if (typeof answer === 'string' && !INTEGER_TEXT.test(answer) && !LETTER_INDEX.test(answer)) {
+        const found = options.findIndex((o: string) => o.trim().toLowerCase() === answer.trim().toLowerCase());
+        if (found !== -1) {
+            item[answerKey] = found;
+            fix(`${answerKey} "${answer}" → ${found}`);
+        }
+    }
+    if (options.length > OPTION_COUNT) {
+        const correct = Number(item[answerKey]);
+        if (Number.isInteger(correct) && correct >= 0 && correct < options.length) {
+            const kept = [options[correct], ...options.filter((_: string, i: number) => i !== correct).slice(0, OPTION_COUNT - 1)];
+            const keepAt = Math.min(correct, OPTION_COUNT - 1);
+            [kept[0], kept[keepAt]] = [kept[keepAt], kept[0]];
+            item.options = kept;
+            item[answerKey] = keepAt;
+            fix(`${options.length} options trimmed to ${OPTION_COUNT}`);
+        }
+    }
+    return item;
+};
+
+const checkChoice = (answerKey: string) => (value: any): SchemaProblem[] => {
+    const problems: SchemaProblem[] = [];
+    if (Array.isArray(value.options) && value.options.length !== OPTION_COUNT) {
+        problems.push({ path: 'options', message: `needs exactly ${OPTION_COUNT} options, got ${value.options.length}` });
+    }
+    const answer = value[answerKey];
+    if (Number.isInteger(answer) && Array.isArray(value.options) && (answer < 0 || answer >= value.options.length)) {
+        problems.push({ path: answerKey, message: `index ${answer} is outside the options` });
+    }
+    return problems;
+};
+
+const choiceItem = (
+    prefix: string,
+    promptKey: string,
+    answerKey = 'correctAnswer',
+    explanationOptional = false,
+    extraFields: Record<string, FieldSpec> = {},
+): FieldSpec => ({
+    type: 'object',
+    fields: {
+        id: { type: 'id', prefix },
+        [promptKey]: { type: 'string' },
+        options: { type: 'array', items: { type: 'string' } },
+        [answerKey]: { type: 'integer' },
+        explanation: explanationOptional ? { type: 'string', optional: true } : { type: 'string', fallback: '' },
+        ...extraFields,
+    },
+    normalize: normalizeChoice(answerKey),
+    check: checkChoice(answerKey),
+});
+
+// ─── Item specs (one per type in types.ts) ──────────────────
+
+export const VOCABULARY_ITEM_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        word: { type: 'string' },
+        emoji: { type: 'string', fallback: '📘' },
+        ipa: { type: 'string', fallback: '' },
+        meaning: { type: 'string' },
+        example: { type: 'string', fallback: '' },
+        sentenceMeaning: { type: 'string', fallback: '' },
+        type: { type: 'string', fallback: '' },
+    },
+};
+
+export const GRAMMAR_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        topic: { type: 'string', fallback: '' },
+        explanation: { type: 'string', fallback: '' },
+        examples: { type: 'array', items: { type: 'string' }, fallback: [] },
+    },
+    fallback: () => ({ topic: '', explanation: '', examples: [] }),
+};
+
+export const MULTIPLE_CHOICE_SPEC = choiceItem('mc', 'question');
+export const LISTENING_SPEC = choiceItem('listen', 'audioText');
+export const VOCAB_TRANSLATION_SPEC = choiceItem('vocab', 'word', 'correctAnswer', true);
+export const ERROR_ID_SPEC = choiceItem('err', 'sentence', 'correctOptionIndex', false, {
+    correction: { type: 'string', fallback: '' },   // lessons saved before corrections were asked for have none
+    alternativeCorrections: { type: 'array', items: { type: 'string' }, optional: true, split: /\s*[,/]\s*/ },
+});
+
+export const COMPREHENSION_SPEC = choiceItem('read', 'question');
+
+export const READING_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        title: { type: 'string', fallback: '' },
+        passage: { type: 'string', fallback: '' },
+        translation: { type: 'string', fallback: '' },
+        comprehension: { type: 'array', items: COMPREHENSION_SPEC, fallback: [] },
+    },
+};
+
+export const SCRAMBLE_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        id: { type: 'id', prefix: 'scr' },
+        scrambled: { type: 'array', items: { type: 'string' }, split: /\s*\/\s*|\s+/ },
+        correctSentence: { type: 'string' },
+        translation: { type: 'string', fallback: '' },
+    },
+};
+
+export const FILL_BLANK_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        id: { type: 'id', prefix: 'fill' },
+        question: { type: 'string' },
+        correctAnswer: { type: 'string' },
+        alternativeAnswers: { type: 'array', items: { type: 'string' }, optional: true, split: /\s*[,/]\s*/ },
+        clueEmoji: { type: 'string', fallback: '✏️' },
+        explanation: { type: 'string', optional: true },
+    },
+};
+
+export const TRUE_FALSE_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        id: { type: 'id', prefix: 'tf' },
+        statement: { type: 'string' },
+        isTrue: { type: 'boolean' },
+        explanation: { type: 'string', fallback: '' },
+    },
+};
+
+export const MATCHING_PAIR_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        id: { type: 'id', prefix: 'match' },
+        left: { type: 'string' },
+        right: { type: 'string' },
+    },
+};
+
+// Keyed like BlueprintItemId / LessonItemSection
+export const ITEM_SPECS: Record<BlueprintItemId, FieldSpec> = {
+    multipleChoice: MULTIPLE_CHOICE_SPEC,
+    scramble: SCRAMBLE_SPEC,
+    fillBlank: FILL_BLANK_SPEC,
+    errorId: ERROR_ID_SPEC,
+    vocabTranslation: VOCAB_TRANSLATION_SPEC,
+    matching: MATCHING_PAIR_SPEC,
+    trueFalse: TRUE_FALSE_SPEC,
+    listening: LISTENING_SPEC,
+};
+
+// The id coerceToSchema would give the item at this position; code that builds items itself
+// uses it so a saved lesson re-imports with the same ids (attempt logs are keyed by them)
+export const itemIdFor = (section: BlueprintItemId, index: number): string => {
+    const spec = ITEM_SPECS[section];
+    const id = spec.type === 'object' ? spec.fields.id : undefined;
+    return id?.type === 'id' ? `${id.prefix}_${index + 1}` : String(index + 1);
+};
+
+// ─── Lesson ─────────────────────────────────────────────────
+
+const listOf = (items: FieldSpec, required = false): FieldSpec =>
+    required ? { type: 'array', items } : { type: 'array', items, fallback: [] };
+
+export const LESSON_SPEC: FieldSpec = {
+    type: 'object',
+    fields: {
+        topic: { type: 'string' },
+        vocabulary: listOf(VOCABULARY_ITEM_SPEC),
+        grammar: GRAMMAR_SPEC,
+        reading: { ...READING_SPEC, optional: true },
+        teacherTips: { type: 'string', fallback: '' },
+        practice: {
+            type: 'object',
+            fields: {
+                listening: listOf(LISTENING_SPEC),
+                megaTest: {
+                    type: 'object',
+                    fields: {
+                        multipleChoice: listOf(MULTIPLE_CHOICE_SPEC),
+                        scramble: listOf(SCRAMBLE_SPEC),
+                        fillBlank: listOf(FILL_BLANK_SPEC),
+                        errorId: listOf(ERROR_ID_SPEC),
+                        vocabTranslation: listOf(VOCAB_TRANSLATION_SPEC),
+                        trueFalse: listOf(TRUE_FALSE_SPEC),
+                        trueFalsePassage: { type: 'string', optional: true },
+                        matching: listOf(MATCHING_PAIR_SPEC),
+                    },
+                },
+            },
+        },
+    },
+};
+
+// Spec for an AI response object: every listed key is required (the model was asked for it)
+export const requiredFieldsSpec = (fields: Record<string, FieldSpec>): FieldSpec => ({
+    type: 'object',
+    fields: Object.fromEntries(Object.entries(fields).map(([key, spec]) => [
+        key,
+        spec.type === 'array' ? { ...spec, fallback: undefined, optional: false } : spec,
+    ])) as Record<string, FieldSpec>,
+});
+
+// Shape of each regenerable section as returned by the model (see getLessonSection)
+export const SECTION_SPECS: Record<LessonSectionId, FieldSpec> = {
+    vocabulary: { type: 'array', items: VOCABULARY_ITEM_SPEC },
+    grammar: GRAMMAR_SPEC,
+    reading: READING_SPEC,
+    listening: { type: 'array', items: LISTENING_SPEC },
+    multipleChoice: { type: 'array', items: MULTIPLE_CHOICE_SPEC },
+    scramble: { type: 'array', items: SCRAMBLE_SPEC },
+    fillBlank: { type: 'array', items: FILL_BLANK_SPEC },
+    errorId: { type: 'array', items: ERROR_ID_SPEC },
+    vocabTranslation: { type: 'array', items: VOCAB_TRANSLATION_SPEC },
+    trueFalse: requiredFieldsSpec({ trueFalsePassage: { type: 'string' }, trueFalse: { type: 'array', items: TRUE_FALSE_SPEC } }),
+    matching: { type: 'array', items: MATCHING_PAIR_SPEC },
+};
@@ -0,0 +1,70 @@
+/**
+ * Lesson section helpers - read one section out of a LessonPlan and merge a
+ * replacement back in without touching the rest of the lesson
+ */
+
+import { LessonPlan, LessonSectionId } from '../types';
+
+export const LESSON_SECTIONS: Array<{ id: LessonSectionId; label: string; icon: string }> = [
+    { id: 'vocabulary', label: 'Từ vựng', icon: '📖' },
+    { id: 'grammar', label: 'Ngữ pháp', icon: '✨' },
+    { id: 'reading', label: 'Bài đọc', icon: '📰' },
+    { id: 'multipleChoice', label: 'Quiz', icon: '📝' },
+    { id: 'fillBlank', label: 'Điền từ', icon: '✏️' },
+    { id: 'errorId', label: 'Tìm lỗi sai', icon: '🔍' },
+    { id: 'scramble', label: 'Sắp xếp', icon: '🧩' },
+    { id: 'vocabTranslation', label: 'Dịch nghĩa', icon: '📚' },
+    { id: 'trueFalse', label: 'True/False', icon: '✅' },
+    { id: 'matching', label: 'Nối từ', icon: '🔗' },
+    { id: 'listening', label: 'Nghe', icon: '🎧' },
+];
+
+export const getLessonSection = (lesson: LessonPlan, section: LessonSectionId): any => {
+    const mega = lesson.practice?.megaTest;
+    switch (section) {
+        case 'vocabulary': return lesson.vocabulary;
+        case 'grammar': return lesson.grammar;
+        case 'reading': return lesson.reading;
+        case 'listening': return lesson.practice?.listening;
+        case 'trueFalse': return { trueFalsePassage: mega?.trueFalsePassage, trueFalse: mega?.trueFalse };
+        default: return mega?.[section];
+    }
+};
+
+export const setLessonSection = (lesson: LessonPlan, section: LessonSectionId, value: any): LessonPlan => {
+    switch (section) {
+        case 'vocabulary': return { ...lesson, vocabulary: value };
+        case 'grammar': return { ...lesson, grammar: value };
+        case 'reading': return { ...lesson, reading: value };
+        case 'listening': return { ...lesson, practice: { ...lesson.practice, listening: value } };
+        case 'trueFalse':
+            return {
+                ...lesson,
+                practice: {
+                    ...lesson.practice,
+                    megaTest: { ...lesson.practice.megaTest, trueFalsePassage: value?.trueFalsePassage, trueFalse: value?.trueFalse },
+                },
+            };
+        default:
+            return { ...lesson, practice: { ...lesson.practice, megaTest: { ...lesson.practice.megaTest, [section]: value } } };
+    }
+};
+
+// Give regenerated items fresh ids so answers already given to the old items are not carried over
+export const withFreshIds = <T extends { id: string }>(items: T[], prefix: string): T[] => {
+    const stamp = Date.now().toString(36);
+    return (items || []).map((item, i) => ({ ...item, id: `${prefix}_${stamp}_${i + 1}` }));
+};
+
+// Scored questions in a lesson (each matching pair is one) - used for the score, the certificate and the library list
+export const countLessonQuestions = (lesson: LessonPlan): number => {
+    const mega = lesson.practice?.megaTest;
+    return (mega?.multipleChoice?.length || 0) +
+        (mega?.scramble?.length || 0) +
+        (mega?.fillBlank?.length || 0) +
+        (mega?.errorId?.length || 0) +
+        (mega?.vocabTranslation?.length || 0) +
+        (mega?.trueFalse?.length || 0) +
+        (mega?.matching?.length || 0) +
+        (lesson.practice?.listening?.length || 0);
+};
@@ -0,0 +1,159 @@
+/**
+ * MegaChallenge zones - the exercise types of the final challenge, the answer each one
+ * stores for a question and how that answer reads back when the work is reviewed
+ */
+
+import { ErrorIdQ, FillInputQ, PracticeContent, QuestionAttempt } from '../types';
+import { stripOptionMarker } from './errorIdentification';
+
+export type MegaZoneId = 'mc' | 'fill' | 'error' | 'scramble' | 'vocab' | 'match' | 'tf' | 'listen';
+
+export interface MegaZone {
+    id: MegaZoneId;
+    label: string;
+    icon: string;
+}
+
+export const MEGA_ZONES: MegaZone[] = [
+    { id: 'mc', label: 'Quiz', icon: '📝' },
+    { id: 'fill', label: 'Điền từ', icon: '✏️' },
+    { id: 'error', label: 'Tìm lỗi sai', icon: '🔍' },
+    { id: 'scramble', label: 'Sắp xếp', icon: '🧩' },
+    { id: 'vocab', label: 'Dịch nghĩa', icon: '📚' },
+    { id: 'match', label: 'Nối từ', icon: '🔗' },
+    { id: 'tf', label: 'True/False', icon: '✅' },
+    { id: 'listen', label: 'Nghe', icon: '🎧' },
+];
+
+export const getZoneItems = (zone: MegaZoneId, megaData?: PracticeContent['megaTest'], listeningData?: PracticeContent['listening']): any[] => {
+    switch (zone) {
+        case 'mc': return megaData?.multipleChoice || [];
+        case 'fill': return megaData?.fillBlank || [];
+        case 'error': return megaData?.errorId || [];
+        case 'scramble': return megaData?.scramble || [];
+        case 'vocab': return megaData?.vocabTranslation || [];
+        case 'match': return megaData?.matching || [];
+        case 'tf': return megaData?.trueFalse || [];
+        case 'listen': return listeningData || [];
+    }
+};
+
+// ─── Grading ────────────────────────────────────────────────
+
+const normalizeStrict = (s: string) => String(s || '')
+    .toLowerCase()
+    .replace(/[.,/#!$%^&*;:{}=\-_`~()?]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// correctAnswer or any of the alternativeAnswers, ignoring case and punctuation
+export const isFillAnswerCorrect = (question: FillInputQ, typed: string): boolean => {
+    const answer = normalizeStrict(typed);
+    return !!answer && [question.correctAnswer, ...(question.alternativeAnswers || [])].some(ans => normalizeStrict(ans) === answer);
+};
+
+// ─── Review ─────────────────────────────────────────────────
+
+export interface AnswerReview {
+    prompt: string;
+    givenAnswer: string;     // '' when the question was left blank
+    correctAnswer: string;
+    explanation: string;
+    isCorrect: boolean;
+}
+
+export interface ReviewItem extends AnswerReview {
+    zone: MegaZoneId;
+    id: string;
+    number: number;          // 1-based within its zone, as the zone shows it
+}
+
+const choiceText = (options: string[] = [], index: number): string =>
+    Number.isInteger(index) && options[index] !== undefined ? `${String.fromCharCode(65 + index)}. ${options[index]}` : '';
+
+// What a stored answer (option index, true/false or the zone's result object) means for one question
+export const describeAnswer = (zone: MegaZoneId, item: any, answer: any, matchingPairs: any[] = []): AnswerReview => {
+    switch (zone) {
+        case 'mc':
+        case 'vocab':
+        case 'listen': {
+            const prompt = zone === 'mc' ? item.question : zone === 'vocab' ? item.word : item.audioText;
+            const fallback = zone === 'vocab' ? `'${item.word}' nghĩa là '${item.options?.[item.correctAnswer]}'` : '';
+            return {
+                prompt,
+                givenAnswer: choiceText(item.options, answer),
+                correctAnswer: choiceText(item.options, item.correctAnswer),
+                explanation: item.explanation || fallback,
+                isCorrect: answer === item.correctAnswer,
+            };
+        }
+        case 'tf':
+            return {
+                prompt: item.statement,
+                givenAnswer: typeof answer === 'boolean' ? (answer ? 'TRUE' : 'FALSE') : '',
+                correctAnswer: item.isTrue ? 'TRUE' : 'FALSE',
+                explanation: item.explanation || '',
+                isCorrect: answer === item.isTrue,
+            };
+        case 'fill':
+            return {
+                prompt: item.question,
+                givenAnswer: answer?.userAnswer || '',
+                correctAnswer: [item.correctAnswer, ...(item.alternativeAnswers || [])].join(' / '),
+                explanation: item.explanation || '',
+                isCorrect: !!answer?.isCorrect,
+            };
+        case 'scramble':
+            return {
+                prompt: (item.scrambled || []).join(' / '),
+                givenAnswer: answer?.userAnswer || '',
+                correctAnswer: item.correctSentence,
+                explanation: item.translation ? `Nghĩa: ${item.translation}` : '',
+                isCorrect: !!answer?.isCorrect,
+            };
+        case 'error': {
+            const q = item as ErrorIdQ;
+            const letter = (i: number) => `(${String.fromCharCode(65 + i)})`;
+            const picked = Number.isInteger(answer?.optionIndex) ? letter(answer.optionIndex) : '';
+            return {
+                prompt: q.sentence,
+                givenAnswer: [picked, String(answer?.correction || '').trim()].filter(Boolean).join(' → '),
+                correctAnswer: [letter(q.correctOptionIndex), stripOptionMarker(q.options?.[q.correctOptionIndex]), q.correction && `→ ${q.correction}`].filter(Boolean).join(' '),
+                explanation: q.explanation || '',
+                isCorrect: !!answer?.isCorrect,
+            };
+        }
+        case 'match':
+            return {
+                prompt: item.left,
+                givenAnswer: matchingPairs.find(p => p.id === answer?.rightId)?.right || '',
+                correctAnswer: item.right,
+                explanation: '',
+                isCorrect: !!answer?.isCorrect,
+            };
+    }
+};
+
+export const buildAttempt = (
+    zone: MegaZoneId,
+    item: any,
+    answer: any,
+    attempt: number,
+    timeMs: number,
+    matchingPairs: any[] = [],
+): QuestionAttempt => {
+    const { givenAnswer, correctAnswer, isCorrect } = describeAnswer(zone, item, answer, matchingPairs);
+    return { questionId: item.id, zone, givenAnswer, correctAnswer, isCorrect, timeMs: Math.max(0, Math.round(timeMs)), attempt };
+};
+
+export const buildReviewItems = (
+    zones: MegaZoneId[],
+    megaData: PracticeContent['megaTest'] | undefined,
+    listeningData: PracticeContent['listening'] | undefined,
+    answers: Record<string, any>,
+): ReviewItem[] => zones.flatMap(zone => getZoneItems(zone, megaData, listeningData).map((item, i) => ({
+    zone,
+    id: item.id,
+    number: i + 1,
+    ...describeAnswer(zone, item, answers[item.id], megaData?.matching),
+})));
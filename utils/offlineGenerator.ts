@@ -0,0 +1,147 @@
+/**
+ * Offline exercise generator - builds a lesson from a vocabulary list with fixed rules,
+ * no AI call. Keeps the app usable without an API key or when every key is out of quota.
+ * Shuffles are seeded from the list itself, so the same list always gives the same lesson.
+ */
+
+import { LessonPlan, MatchingPair, PracticeContent, ScrambleQ, FillInputQ, TestBlueprint, VocabTranslationQ, VocabularyItem } from '../types';
+import { generateSeed, parseIntoTokens, shuffleWithRecheck } from './shuffleUtils';
+import { DEFAULT_BLUEPRINT } from './testBlueprint';
+import { itemIdFor } from './lessonSchema';
+
+const OPTION_COUNT = 4;            // vocabTranslation answers, like the AI-made ones
+export const MIN_OFFLINE_WORDS = OPTION_COUNT; // three other meanings are needed as distractors
+const MIN_SCRAMBLE_TOKENS = 3;     // "Hi." is not worth arranging
+
+// ─── Parsing the teacher's list ─────────────────────────────
+
+// Separators between word and meaning, tried in order; " - " keeps "T-shirt" whole
+const MEANING_SEPARATORS = ['\t', ' - ', ' – ', ' = ', ': '];
+
+const emptyItem = (word: string, meaning: string, example: string): VocabularyItem => ({
+    word, meaning, example, emoji: '', ipa: '', sentenceMeaning: '', type: '',
+});
+
+// One word per line: "apple - quả táo | I eat an apple every day." (the example is optional).
+// Numbering and bullets are ignored; a repeated word keeps its first line.
+export const parseVocabularyList = (raw: string): VocabularyItem[] => {
+    const seen = new Set<string>();
+    const items: VocabularyItem[] = [];
+    raw.split(/\r?\n/).forEach(line => {
+        const cleaned = line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim();
+        if (!cleaned) return;
+        // The example follows "|", or sits in a third column when pasted from a spreadsheet
+        let entry = cleaned;
+        let example = '';
+        const cells = cleaned.split('\t');
+        if (cleaned.includes('|')) {
+            [entry, example] = [cleaned.slice(0, cleaned.indexOf('|')), cleaned.slice(cleaned.indexOf('|') + 1)];
+        } else if (cells.length > 2) {
+            [entry, example] = [cells.slice(0, 2).join('\t'), cells.slice(2).join(' ')];
+        }
+        const separator = MEANING_SEPARATORS.find(sep => entry.includes(sep));
+        if (!separator) return;
+        const at = entry.indexOf(separator);
+        const word = entry.slice(0, at).trim();
+        const meaning = entry.slice(at + separator.length).trim();
+        if (!word || !meaning || seen.has(word.toLowerCase())) return;
+        seen.add(word.toLowerCase());
+        items.push(emptyItem(word, meaning, example.trim()));
+    });
+    return items;
+};
+
+// ─── Exercise rules ─────────────────────────────────────────
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The word as it appears in its example, allowing simple endings ("apples", "played", "running")
+const findWordInSentence = (word: string, sentence: string): RegExpMatchArray | null =>
+    sentence.match(new RegExp(`(?<![\\w'])${escapeRegExp(word)}(?:s|es|d|ed|ing)?(?![\\w'])`, 'i'));
+
+// Seeds come from the list content, not the session, so re-opening the list gives the same lesson
+const listSeed = (vocabulary: VocabularyItem[]): string =>
+    String(generateSeed(vocabulary.map(item => item.word.toLowerCase()).join('|'), 'offline'));
+
+const buildVocabTranslation = (vocabulary: VocabularyItem[], count: number, salt: string): VocabTranslationQ[] => {
+    const meanings = [...new Set(vocabulary.map(item => item.meaning))];
+    if (meanings.length < OPTION_COUNT) return [];
+    return vocabulary.slice(0, count).map((item, i) => {
+        const id = itemIdFor('vocabTranslation', i);
+        const distractors = shuffleWithRecheck(meanings.filter(m => m !== item.meaning), generateSeed(`${id}-d`, salt))
+            .slice(0, OPTION_COUNT - 1);
+        const options = shuffleWithRecheck([item.meaning, ...distractors], generateSeed(id, salt));
+        return { id, word: item.word, options, correctAnswer: options.indexOf(item.meaning) };
+    });
+};
+
+const buildScramble = (vocabulary: VocabularyItem[], count: number, salt: string): ScrambleQ[] => vocabulary
+    .filter(item => parseIntoTokens(item.example).length >= MIN_SCRAMBLE_TOKENS)
+    .slice(0, count)
+    .map((item, i) => {
+        const id = itemIdFor('scramble', i);
+        return {
+            id,
+            scrambled: shuffleWithRecheck(parseIntoTokens(item.example), generateSeed(id, salt)),
+            correctSentence: item.example.trim(),
+            translation: item.sentenceMeaning,
+        };
+    });
+
+const buildFillBlank = (vocabulary: VocabularyItem[], count: number): FillInputQ[] => vocabulary
+    .map(item => ({ item, match: item.example ? findWordInSentence(item.word, item.example) : null }))
+    .filter(({ match }) => match)
+    .slice(0, count)
+    .map(({ item, match }, i) => ({
+        id: itemIdFor('fillBlank', i),
+        question: item.example.slice(0, match.index) + '____' + item.example.slice(match.index + match[0].length),
+        correctAnswer: match[0],
+        clueEmoji: item.emoji || '✏️',
+        explanation: `${item.word}: ${item.meaning}`,
+    }));
+
+const buildMatching = (vocabulary: VocabularyItem[], count: number): MatchingPair[] => vocabulary
+    .slice(0, count)
+    .map((item, i) => ({ id: itemIdFor('matching', i), left: item.word, right: item.meaning }));
+
+// Only the types that can be made without AI; the rest of the blueprint is left empty
+export const generateOfflinePractice = (vocabulary: VocabularyItem[], blueprint: TestBlueprint = DEFAULT_BLUEPRINT): PracticeContent => {
+    const salt = listSeed(vocabulary);
+    return {
+        listening: [],
+        megaTest: {
+            multipleChoice: [],
+            scramble: buildScramble(vocabulary, blueprint.scramble || 0, salt),
+            fillBlank: buildFillBlank(vocabulary, blueprint.fillBlank || 0),
+            errorId: [],
+            vocabTranslation: buildVocabTranslation(vocabulary, blueprint.vocabTranslation || 0, salt),
+            trueFalse: [],
+            matching: buildMatching(vocabulary, blueprint.matching || 0),
+        },
+    };
+};
+
+export const buildOfflineLesson = (vocabulary: VocabularyItem[], topic: string, blueprint: TestBlueprint = DEFAULT_BLUEPRINT): LessonPlan => {
+    if (vocabulary.length < MIN_OFFLINE_WORDS) {
+        throw new Error(`Cần ít nhất ${MIN_OFFLINE_WORDS} từ (mỗi dòng: từ - nghĩa) để tạo bài tập.`);
+    }
+    const practice = generateOfflinePractice(vocabulary, blueprint);
+    const mega = practice.megaTest;
+    if (!mega.vocabTranslation.length && !mega.scramble.length && !mega.fillBlank.length && !mega.matching.length) {
+        throw new Error('Cấu trúc đề chưa có dạng bài nào làm được khi không dùng AI (Dịch nghĩa, Sắp xếp, Điền từ, Nối từ).');
+    }
+    return {
+        topic: topic.trim() || 'Ôn tập từ vựng',
+        vocabulary,
+        grammar: { topic: '', explanation: '', examples: [] },
+        reading: { title: '', passage: '', translation: '', comprehension: [] },
+        homework: {
+            title: 'Ôn từ vựng',
+            description: 'Học thuộc các từ trong bài.',
+            instructions: 'Đọc to từng từ và câu ví dụ, sau đó tự đặt một câu mới với mỗi từ.',
+        },
+        practice,
+        teacherTips: 'Bài tập được tạo tự động từ danh sách từ vựng (không dùng AI).',
+        blueprint,
+    };
+};
@@ -0,0 +1,95 @@
+/**
+ * Answer-position balancing for multiple-choice style questions
+ * Models put the right answer at A or B far more often than chance. When a lesson is loaded,
+ * the options of every choice question are put in a fixed order and then shuffled with a seed
+ * taken from the question itself - the result does not depend on where the model placed the
+ * answer, and loading the same lesson again gives the same order.
+ */
+
+import { LessonPlan } from '../types';
+import { deterministicShuffle, generateSeed } from './shuffleUtils';
+
+interface ChoiceQuestion {
+    id: string;
+    options: string[];
+    correctAnswer: number;
+}
+
+const compareText = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// stem = question text / audio text / word, so two lessons reusing "mc_1" still differ
+export const shuffleQuestionOptions = <T extends ChoiceQuestion>(question: T, stem: string): T => {
+    const options = question.options || [];
+    if (options.length < 2 || !(question.correctAnswer >= 0 && question.correctAnswer < options.length)) return question;
+    const canonical = options.map((_, i) => i).sort((a, b) => compareText(String(options[a]), String(options[b])) || a - b);
+    const order = deterministicShuffle(canonical, generateSeed(`${question.id}:${stem}`, 'options'));
+    return {
+        ...question,
+        options: order.map(i => options[i]),
+        correctAnswer: order.indexOf(question.correctAnswer),
+    };
+};
+
+export const shuffleLessonOptions = (lesson: LessonPlan): LessonPlan => {
+    const mega = lesson.practice?.megaTest;
+    return {
+        ...lesson,
+        reading: lesson.reading && {
+            ...lesson.reading,
+            comprehension: (lesson.reading.comprehension || []).map(q => shuffleQuestionOptions(q, q.question)),
+        },
+        practice: lesson.practice && {
+            ...lesson.practice,
+            listening: (lesson.practice.listening || []).map(q => shuffleQuestionOptions(q, q.audioText)),
+            megaTest: mega && {
+                ...mega,
+                multipleChoice: (mega.multipleChoice || []).map(q => shuffleQuestionOptions(q, q.question)),
+                vocabTranslation: (mega.vocabTranslation || []).map(q => shuffleQuestionOptions(q, q.word)),
+            },
+        },
+    };
+};
+
+// ─── Distribution report ────────────────────────────────────
+
+export const ANSWER_LETTERS = ['A', 'B', 'C', 'D'];
+
+export interface AnswerPositionRow {
+    id: 'multipleChoice' | 'listening' | 'vocabTranslation' | 'comprehension';
+    label: string;
+    counts: number[];   // how many correct answers sit at A, B, C, D
+}
+
+export interface AnswerPositionReport {
+    rows: AnswerPositionRow[];
+    total: number[];
+    questionCount: number;
+    isBalanced: boolean;
+}
+
+const MAX_POSITION_SHARE = 0.4;   // more than this at one letter reads as a pattern to students
+const MIN_QUESTIONS_TO_JUDGE = 8; // a handful of questions cannot be "unbalanced"
+
+const countPositions = (questions: ChoiceQuestion[] = []): number[] => {
+    const counts = ANSWER_LETTERS.map(() => 0);
+    questions.forEach(q => { if (q.correctAnswer >= 0 && q.correctAnswer < counts.length) counts[q.correctAnswer]++; });
+    return counts;
+};
+
+export const getAnswerPositionReport = (lesson: LessonPlan): AnswerPositionReport => {
+    const mega = lesson.practice?.megaTest;
+    const rows: AnswerPositionRow[] = [
+        { id: 'multipleChoice' as const, label: 'Quiz', counts: countPositions(mega?.multipleChoice) },
+        { id: 'vocabTranslation' as const, label: 'Dịch nghĩa', counts: countPositions(mega?.vocabTranslation) },
+        { id: 'listening' as const, label: 'Nghe', counts: countPositions(lesson.practice?.listening) },
+        { id: 'comprehension' as const, label: 'Đọc hiểu', counts: countPositions(lesson.reading?.comprehension) },
+    ].filter(row => row.counts.some(Boolean));
+    const total = ANSWER_LETTERS.map((_, i) => rows.reduce((sum, row) => sum + row.counts[i], 0));
+    const questionCount = total.reduce((sum, n) => sum + n, 0);
+    return {
+        rows,
+        total,
+        questionCount,
+        isBalanced: questionCount < MIN_QUESTIONS_TO_JUDGE || Math.max(...total) <= questionCount * MAX_POSITION_SHARE,
+    };
+};
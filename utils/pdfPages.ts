@@ -0,0 +1,107 @@
+/**
+ * PDF input for the planner
+ * Pages are rendered to JPEG in the browser (pdf.js) and/or their embedded text layer is
+ * read, so a textbook PDF can go through the same pipeline as photos and pasted text.
+ * pdf.js is loaded on demand; the other planner modes never download it.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { UploadedImage } from '../types';
+
+export const MAX_PDF_IMAGE_PAGES = 10;      // pages sent as images per lesson
+const PAGE_IMAGE_MAX_DIMENSION = 2000;       // same target as utils/imagePreprocess.ts
+const THUMBNAIL_WIDTH = 160;
+const JPEG_QUALITY = 0.85;
+
+export interface PdfSelection {
+    pages: number[];          // 1-based, in reading order
+    sendImages: boolean;      // render the pages and send them as images
+    sendText: boolean;        // send the embedded text layer as source text
+}
+
+export const DEFAULT_PDF_SELECTION: PdfSelection = { pages: [], sendImages: true, sendText: true };
+
+const loadPdfJs = async () => {
+    const [pdfjs, worker] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+    return pdfjs;
+};
+
+// One parsed document per File: the picker and the generate button share it
+const documents = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+export const loadPdf = (file: File): Promise<PDFDocumentProxy> => {
+    if (!documents.has(file)) {
+        const pending = (async () => {
+            const pdfjs = await loadPdfJs();
+            try {
+                return await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+            } catch (err: any) {
+                throw new Error(err?.name === 'PasswordException'
+                    ? `File "${file.name}" có mật khẩu. Cô hãy bỏ mật khẩu rồi chọn lại nhé!`
+                    : `Không mở được file PDF "${file.name}": ${err?.message || err}`);
+            }
+        })();
+        pending.catch(() => documents.delete(file));
+        documents.set(file, pending);
+    }
+    return documents.get(file);
+};
+
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number, targetWidth: (width: number, height: number) => number): Promise<HTMLCanvasElement> => {
+    const page = await pdf.getPage(pageNumber);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: targetWidth(base.width, base.height) / base.width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+    page.cleanup();
+    return canvas;
+};
+
+export const renderPdfThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+    const canvas = await renderPage(pdf, pageNumber, () => THUMBNAIL_WIDTH);
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Longest side at PAGE_IMAGE_MAX_DIMENSION, like a downscaled phone photo
+export const renderPdfPageImage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<UploadedImage> => {
+    const canvas = await renderPage(pdf, pageNumber, (width, height) => PAGE_IMAGE_MAX_DIMENSION * width / Math.max(width, height));
+    const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    return { data: dataUrl.split(',')[1], mimeType: 'image/jpeg' };
+};
+
+// Text items keep their line breaks (hasEOL); pages are separated so the model knows where each starts
+export const extractPdfText = async (pdf: PDFDocumentProxy, pages: number[]): Promise<string> => {
+    const texts = await Promise.all(pages.map(async pageNumber => {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const text = content.items
+            .map((item: any) => `${item.str || ''}${item.hasEOL ? '\n' : ''}`)
+            .join('')
+            .replace(/[ \t]+/g, ' ')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+        return text ? `--- Page ${pageNumber} ---\n${text}` : '';
+    }));
+    return texts.filter(Boolean).join('\n\n');
+};
+
+// Images and/or text for generateLessonPlan from the teacher's page choice
+export const preparePdfSource = async (file: File, selection: PdfSelection): Promise<{ text?: string; images: UploadedImage[] }> => {
+    const pdf = await loadPdf(file);
+    const pages = [...selection.pages].sort((a, b) => a - b);
+    const text = selection.sendText ? await extractPdfText(pdf, pages) : '';
+    const images: UploadedImage[] = [];
+    if (selection.sendImages) {
+        // One page at a time: a 2000px canvas per page is heavy on a school laptop
+        for (const pageNumber of pages.slice(0, MAX_PDF_IMAGE_PAGES)) {
+            images.push(await renderPdfPageImage(pdf, pageNumber));
+        }
+    }
+    return { text: text || undefined, images };
+};
@@ -0,0 +1,169 @@
+/**
+ * Subtitle and lyric files (SRT / WebVTT / LRC) as lesson source
+ * The file is parsed into timed lines; the model builds listening and gap-fill items from
+ * those lines, and each item gets the timestamps of the line it came from so the teacher's
+ * own video or song can be cued to it.
+ */
+
+import { LessonMediaSource, LessonPlan, MediaCue, SubtitleFormat, TimedLine } from '../types';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.lrc'];
+
+const MATCH_THRESHOLD = 0.7;   // token overlap needed to call a sentence "the same line"
+const MAX_WINDOW_LINES = 3;    // a sentence may span a few short subtitle lines
+const MAX_LRC_LINE_SECONDS = 10; // LRC has no end times; don't let a line run into a long instrumental
+
+// "01:02:03,500" / "02:03.500" / "02:03.50" → seconds
+const parseTimestamp = (value: string): number => {
+    const parts = value.trim().replace(',', '.').split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const formatCueTime = (seconds: number): string => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+// Formatting tags, karaoke word times, music notes and sound descriptions are not lesson text
+const cleanLine = (text: string): string => text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, '')
+    .replace(/[♪♫]/g, '')
+    .replace(/^\s*-\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const TIME_RANGE = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// SRT and WebVTT share the block layout: optional id, "start --> end", text lines, blank line
+const parseCueBlocks = (raw: string): TimedLine[] => raw
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => {
+        const lines = block.split('\n');
+        const timeIndex = lines.findIndex(line => TIME_RANGE.test(line));
+        if (timeIndex < 0) return null;   // WEBVTT header, NOTE and STYLE blocks
+        const [, start, end] = lines[timeIndex].match(TIME_RANGE);
+        const text = cleanLine(lines.slice(timeIndex + 1).join(' '));
+        return text ? { start: parseTimestamp(start), end: parseTimestamp(end), text } : null;
+    })
+    .filter(Boolean);
+
+// "[00:12.30][01:40.00]Chorus line" - a line may carry several times; [offset:+200] shifts all
+const parseLrc = (raw: string): TimedLine[] => {
+    const offsetMatch = raw.match(/\[offset:\s*([+-]?\d+)\s*\]/i);
+    const offset = offsetMatch ? Number(offsetMatch[1]) / 1000 : 0;
+    const lines: TimedLine[] = [];
+    raw.split(/\r?\n/).forEach(line => {
+        const times = [...line.matchAll(/\[(\d{1,3}:\d{2}(?:[.:]\d{1,3})?)\]/g)];
+        if (!times.length) return;           // [ar:...], [ti:...] metadata
+        const text = cleanLine(line.replace(/\[[^\]]*\]/g, ''));
+        if (!text) return;
+        times.forEach(([, time]) => {
+            const [min, rest] = time.split(/:(.*)/s);
+            lines.push({ start: Math.max(0, Number(min) * 60 + Number(rest.replace(':', '.')) + offset), text });
+        });
+    });
+    // An LRC line lasts until the next one starts (or at most MAX_LRC_LINE_SECONDS)
+    return lines
+        .sort((a, b) => a.start - b.start)
+        .map((line, i, all) => ({ ...line, end: Math.min(all[i + 1]?.start ?? Infinity, line.start + MAX_LRC_LINE_SECONDS) }));
+};
+
+export const detectSubtitleFormat = (raw: string, fileName: string): SubtitleFormat | null => {
+    const ext = fileName.toLowerCase().split('.').pop();
+    if (ext === 'srt' || ext === 'vtt' || ext === 'lrc') return ext;
+    if (/^\uFEFF?WEBVTT/.test(raw)) return 'vtt';
+    if (TIME_RANGE.test(raw)) return 'srt';
+    if (/^\[\d{1,3}:\d{2}/m.test(raw)) return 'lrc';
+    return null;
+};
+
+export const parseSubtitleFile = (raw: string, fileName: string): LessonMediaSource => {
+    const format = detectSubtitleFormat(raw, fileName);
+    if (!format) {
+        throw new Error(`File "${fileName}" không phải phụ đề (.srt, .vtt) hay lời bài hát (.lrc).`);
+    }
+    const lines = format === 'lrc' ? parseLrc(raw) : parseCueBlocks(raw);
+    if (!lines.length) {
+        throw new Error(`Không tìm thấy dòng thoại/lời bài hát có mốc thời gian trong "${fileName}".`);
+    }
+    return { fileName, format, lines };
+};
+
+export const readSubtitleFile = async (file: File): Promise<LessonMediaSource> =>
+    parseSubtitleFile(await file.text(), file.name);
+
+// Source text for the prompt: one timed line per row, e.g. "[01:23] We will rock you"
+export const subtitlesToSourceText = (media: LessonMediaSource): string =>
+    media.lines.map(line => `[${formatCueTime(line.start)}] ${line.text}`).join('\n');
+
+// ─── Matching items back to lines ───────────────────────────
+
+const tokens = (text: string): string[] => text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Dice coefficient over word multisets: 1 = same words, 0 = nothing in common
+const overlap = (a: string[], b: string[]): number => {
+    if (!a.length || !b.length) return 0;
+    const counts = new Map<string, number>();
+    b.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    let common = 0;
+    a.forEach(word => {
+        const left = counts.get(word) || 0;
+        if (left > 0) {
+            common++;
+            counts.set(word, left - 1);
+        }
+    });
+    return (2 * common) / (a.length + b.length);
+};
+
+// Best run of 1-3 consecutive lines for a sentence, or undefined when none is close enough
+export const findMediaCue = (sentence: string, lines: TimedLine[]): MediaCue | undefined => {
+    const wanted = tokens(sentence);
+    let best: { score: number; cue: MediaCue } | null = null;
+    lines.forEach((line, i) => {
+        for (let size = 1; size <= MAX_WINDOW_LINES && i + size <= lines.length; size++) {
+            const window = lines.slice(i, i + size);
+            const score = overlap(wanted, tokens(window.map(l => l.text).join(' ')));
+            if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+                const last = window[window.length - 1];
+                best = { score, cue: { start: line.start, end: last.end } };
+            }
+        }
+    });
+    return best?.cue;
+};
+
+// A gap-fill sentence is matched with its answer put back into the blank
+const BLANK = /_{2,}|\.{3,}|…/;
+
+const withCue = <T extends { cue?: MediaCue }>(item: T, sentence: string, lines: TimedLine[]): T => {
+    const { cue: _stale, ...rest } = item;
+    const cue = findMediaCue(sentence, lines);
+    return (cue ? { ...rest, cue } : rest) as T;
+};
+
+export const attachMediaCues = (lesson: LessonPlan, media?: LessonMediaSource): LessonPlan => {
+    if (!media?.lines.length || !lesson.practice) return lesson;
+    const { listening, megaTest } = lesson.practice;
+    return {
+        ...lesson,
+        media,
+        practice: {
+            ...lesson.practice,
+            listening: (listening || []).map(q => withCue(q, q.audioText, media.lines)),
+            megaTest: megaTest && {
+                ...megaTest,
+                fillBlank: (megaTest.fillBlank || []).map(q => withCue(q, q.question.replace(BLANK, q.correctAnswer), media.lines)),
+            },
+        },
+    };
+};
@@ -0,0 +1,65 @@
+/**
+ * Test blueprint - which exercise types a lesson contains and how many of each.
+ * The generation prompt and response schema are built from it.
+ */
+
+import { BlueprintItemId, TestBlueprint } from '../types';
+
+export const BLUEPRINT_ITEMS: Array<{ id: BlueprintItemId; label: string; icon: string; max: number; stage: 'exercises' | 'reading' }> = [
+    { id: 'multipleChoice', label: 'Quiz', icon: '📝', max: 20, stage: 'exercises' },
+    { id: 'fillBlank', label: 'Điền từ', icon: '✏️', max: 20, stage: 'exercises' },
+    { id: 'errorId', label: 'Tìm lỗi sai', icon: '🔍', max: 10, stage: 'exercises' },
+    { id: 'scramble', label: 'Sắp xếp', icon: '🧩', max: 20, stage: 'exercises' },
+    { id: 'vocabTranslation', label: 'Dịch nghĩa', icon: '📚', max: 20, stage: 'exercises' },
+    { id: 'matching', label: 'Nối từ (cặp)', icon: '🔗', max: 12, stage: 'exercises' },
+    { id: 'trueFalse', label: 'True/False', icon: '✅', max: 10, stage: 'reading' },
+    { id: 'listening', label: 'Nghe', icon: '🎧', max: 10, stage: 'reading' },
+];
+
+export const DEFAULT_BLUEPRINT: TestBlueprint = {
+    multipleChoice: 10,
+    scramble: 10,
+    fillBlank: 10,
+    errorId: 5,
+    vocabTranslation: 10,
+    matching: 8,
+    trueFalse: 5,
+    listening: 5,
+};
+
+const only = (counts: Partial<TestBlueprint>): TestBlueprint =>
+    ({ ...Object.fromEntries(BLUEPRINT_ITEMS.map(item => [item.id, 0])), ...counts } as TestBlueprint);
+
+export const BLUEPRINT_PRESETS: Array<{ id: string; label: string; blueprint: TestBlueprint }> = [
+    { id: 'full', label: 'Bài đầy đủ', blueprint: DEFAULT_BLUEPRINT },
+    { id: 'quiz15', label: 'Kiểm tra 15 phút', blueprint: only({ multipleChoice: 10, fillBlank: 10 }) },
+    { id: 'vocab', label: 'Ôn từ vựng', blueprint: only({ vocabTranslation: 10, matching: 8, listening: 5 }) },
+    { id: 'reading', label: 'Đọc & nghe', blueprint: only({ trueFalse: 5, listening: 5 }) },
+];
+
+// Every item is one scored question - a matching pair counts like any other question
+export const countBlueprintQuestions = (blueprint: TestBlueprint): number =>
+    BLUEPRINT_ITEMS.reduce((sum, item) => sum + (blueprint[item.id] || 0), 0);
+
+export const isBlueprintEmpty = (blueprint: TestBlueprint): boolean =>
+    BLUEPRINT_ITEMS.every(item => !blueprint[item.id]);
+
+export const clampBlueprintCount = (id: BlueprintItemId, value: number): number => {
+    const max = BLUEPRINT_ITEMS.find(item => item.id === id)?.max ?? 20;
+    return Math.max(0, Math.min(max, Math.round(Number(value) || 0)));
+};
+
+const BLUEPRINT_STORAGE = 'mrs_dung_test_blueprint';
+
+export const getSavedBlueprint = (): TestBlueprint => {
+    try {
+        const raw = localStorage.getItem(BLUEPRINT_STORAGE);
+        return raw ? { ...DEFAULT_BLUEPRINT, ...JSON.parse(raw) } : DEFAULT_BLUEPRINT;
+    } catch {
+        return DEFAULT_BLUEPRINT;
+    }
+};
+
+export const saveBlueprint = (blueprint: TestBlueprint): void => {
+    localStorage.setItem(BLUEPRINT_STORAGE, JSON.stringify(blueprint));
+};